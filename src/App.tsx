@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import GuestModeBanner from "@/components/GuestModeBanner";
+import GuestImportDialog from "@/components/GuestImportDialog";
 import Home from "./pages/Home";
 import Auth from "./pages/Auth";
 import AISearch from "./pages/AISearch";
@@ -28,6 +29,7 @@ const App = () => (
       <BrowserRouter>
         <AuthProvider>
           <GuestModeBanner />
+          <GuestImportDialog />
           <Routes>
             <Route path="/" element={<Home />} />
             <Route path="/auth" element={<Auth />} />
@@ -0,0 +1,178 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { motion } from "framer-motion";
+import { Loader2, Target, RotateCcw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useStructuredGeneration } from "@/hooks/useStructuredGeneration";
+import {
+  PLACEMENT_ITEM_COUNT,
+  estimateLevel,
+  nextItemLevel,
+  type CEFRLevel,
+  type PlacementResponse,
+} from "@/lib/cefrPlacement";
+import { toast } from "sonner";
+
+interface PlacementItem {
+  question: string;
+  options: string[];
+  correctAnswer: string;
+}
+
+interface CEFRPlacementTestProps {
+  languageName: string;
+  onComplete: (level: CEFRLevel) => void;
+  onCancel: () => void;
+}
+
+const levelDescriptions: Record<CEFRLevel, string> = {
+  A1: "Beginner - basic phrases and greetings",
+  A2: "Elementary - simple everyday conversations",
+  B1: "Intermediate - independent on familiar topics",
+  B2: "Upper intermediate - complex discussions",
+  C1: "Advanced - fluent and flexible",
+};
+
+// Items are generated a few at a time per level and reused while the test hovers there
+const ITEMS_PER_BATCH = 4;
+
+const CEFRPlacementTest = ({ languageName, onComplete, onCancel }: CEFRPlacementTestProps) => {
+  const [responses, setResponses] = useState<PlacementResponse[]>([]);
+  const [currentItem, setCurrentItem] = useState<(PlacementItem & { level: CEFRLevel }) | null>(null);
+  const [result, setResult] = useState<CEFRLevel | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const poolsRef = useRef<Partial<Record<CEFRLevel, PlacementItem[]>>>({});
+  const askedRef = useRef<string[]>([]);
+
+  const { generate, isGenerating } = useStructuredGeneration();
+
+  const loadItem = useCallback(async (level: CEFRLevel) => {
+    setLoadFailed(false);
+    setCurrentItem(null);
+
+    try {
+      let pool = poolsRef.current[level] || [];
+
+      if (pool.length === 0) {
+        const avoid = askedRef.current.slice(-10).map((q) => `- ${q}`).join("\n");
+        const items = await generate<PlacementItem[]>(
+          "placementItems",
+          `Write ${ITEMS_PER_BATCH} multiple-choice ${languageName} placement questions at CEFR level ${level}.
+Mix grammar, vocabulary and short reading comprehension. Write questions and options in ${languageName}.
+Each question has 4 options and exactly one correct answer.${avoid ? `\nDo not repeat these questions:\n${avoid}` : ""}`,
+          { systemPrompt: `You are a ${languageName} language assessment author. Calibrate each item carefully to the requested CEFR level.` }
+        );
+        pool = items.filter((item) => !askedRef.current.includes(item.question));
+      }
+
+      const [item, ...rest] = pool;
+      poolsRef.current[level] = rest;
+      if (!item) throw new Error("No placement item available");
+
+      askedRef.current.push(item.question);
+      setCurrentItem({ ...item, level });
+    } catch (error) {
+      console.error("Placement item error:", error);
+      setLoadFailed(true);
+      toast.error("Couldn't load the next question");
+    }
+  }, [generate, languageName]);
+
+  useEffect(() => {
+    loadItem(nextItemLevel([]));
+  }, [loadItem]);
+
+  const handleAnswer = (option: string) => {
+    if (!currentItem) return;
+
+    const next = [...responses, { level: currentItem.level, correct: option === currentItem.correctAnswer }];
+    setResponses(next);
+
+    if (next.length >= PLACEMENT_ITEM_COUNT) {
+      setCurrentItem(null);
+      setResult(estimateLevel(next));
+    } else {
+      loadItem(nextItemLevel(next));
+    }
+  };
+
+  if (result) {
+    return (
+      <motion.div
+        className="glass-card rounded-3xl p-6 text-center"
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+      >
+        <Target className="w-10 h-10 mx-auto mb-3 text-primary" />
+        <p className="text-sm text-muted-foreground mb-1">Your {languageName} level</p>
+        <p className="text-5xl font-bold mb-2">{result}</p>
+        <p className="text-muted-foreground mb-6">{levelDescriptions[result]}</p>
+        <div className="flex gap-3">
+          <Button variant="outline" className="flex-1 rounded-xl" onClick={onCancel}>
+            Discard
+          </Button>
+          <Button className="flex-1 rounded-xl" onClick={() => onComplete(result)}>
+            Use {result}
+          </Button>
+        </div>
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="glass-card rounded-3xl p-6 space-y-5"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{languageName} Placement Test</h3>
+        <Button variant="ghost" size="icon" className="rounded-xl" onClick={onCancel}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-xs text-muted-foreground mb-1">
+          <span>Question {Math.min(responses.length + 1, PLACEMENT_ITEM_COUNT)} of {PLACEMENT_ITEM_COUNT}</span>
+          <span>Questions adapt to your answers</span>
+        </div>
+        <Progress value={(responses.length / PLACEMENT_ITEM_COUNT) * 100} className="h-2" />
+      </div>
+
+      {currentItem ? (
+        <div className="space-y-3">
+          <p className="text-lg leading-relaxed whitespace-pre-wrap">{currentItem.question}</p>
+          <div className="grid gap-2">
+            {currentItem.options.map((option, i) => (
+              <Button
+                key={i}
+                variant="outline"
+                className="h-auto min-h-12 py-3 rounded-xl justify-start text-left whitespace-normal hover:bg-primary/10 hover:border-primary"
+                onClick={() => handleAnswer(option)}
+              >
+                <span className="w-6 h-6 rounded-full bg-muted flex items-center justify-center mr-2 text-sm flex-shrink-0">
+                  {String.fromCharCode(65 + i)}
+                </span>
+                {option}
+              </Button>
+            ))}
+          </div>
+        </div>
+      ) : loadFailed ? (
+        <div className="text-center py-8">
+          <Button variant="outline" className="rounded-xl" onClick={() => loadItem(nextItemLevel(responses))}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Try again
+          </Button>
+        </div>
+      ) : (
+        <div className="flex justify-center py-10">
+          {isGenerating && <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default CEFRPlacementTest;
@@ -0,0 +1,160 @@
+import { useState, type KeyboardEvent } from "react";
+import { motion } from "framer-motion";
+import { Code2, Play, Send, Loader2, CheckCircle2, XCircle, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCodeRunner } from "@/hooks/useCodeRunner";
+import {
+  codingLanguages,
+  type CodingLanguage,
+  type CodingProblem,
+  type CodingRoundResult,
+  type CodingRunResult,
+} from "@/lib/codingProblems";
+
+interface CodingRoundProps {
+  problem: CodingProblem;
+  submission: CodingRoundResult | null;
+  onSubmit: (result: CodingRoundResult) => void;
+}
+
+const INDENT = "  ";
+
+/**
+ * Live coding exercise for technical interviews. Examples can be run freely;
+ * submitting runs the hidden tests as well and hands the result to the interviewer.
+ */
+const CodingRound = ({ problem, submission, onSubmit }: CodingRoundProps) => {
+  const [language, setLanguage] = useState<CodingLanguage>("javascript");
+  const [code, setCode] = useState<Record<CodingLanguage, string>>(problem.starter);
+  const [run, setRun] = useState<{ result: CodingRunResult; includesHidden: boolean } | null>(null);
+  const { isRunning, runTests } = useCodeRunner();
+
+  const examples = problem.tests.filter((t) => !t.hidden);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== "Tab") return;
+    event.preventDefault();
+    const target = event.currentTarget;
+    const { selectionStart, selectionEnd } = target;
+    const value = code[language];
+    setCode((prev) => ({ ...prev, [language]: `${value.slice(0, selectionStart)}${INDENT}${value.slice(selectionEnd)}` }));
+    requestAnimationFrame(() => {
+      target.selectionStart = target.selectionEnd = selectionStart + INDENT.length;
+    });
+  };
+
+  const execute = async (includeHidden: boolean) => {
+    const tests = includeHidden ? problem.tests : examples;
+    const result = await runTests(language, code[language], problem.functionName[language], tests);
+    setRun({ result, includesHidden: includeHidden });
+
+    if (includeHidden) {
+      onSubmit({
+        problemId: problem.id,
+        title: problem.title,
+        language,
+        code: code[language],
+        passed: result.results.filter((r) => r.passed).length,
+        total: problem.tests.length,
+      });
+    }
+  };
+
+  const shownTests = run ? (run.includesHidden ? problem.tests : examples) : [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass-card rounded-2xl p-4 space-y-4 w-full max-w-2xl mx-auto mb-6"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="font-semibold flex items-center gap-2">
+            <Code2 className="w-4 h-4 text-primary" /> {problem.title}
+          </h3>
+          <p className="text-sm text-muted-foreground mt-1">{problem.description}</p>
+        </div>
+        <Select value={language} onValueChange={(value) => setLanguage(value as CodingLanguage)} disabled={!!submission}>
+          <SelectTrigger className="w-36 rounded-xl">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {codingLanguages.map((l) => (
+              <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1 text-xs font-mono text-muted-foreground">
+        {examples.map((test, i) => (
+          <p key={i}>
+            {problem.functionName[language]}({test.args.map((a) => JSON.stringify(a)).join(", ")}) → {JSON.stringify(test.expected)}
+          </p>
+        ))}
+      </div>
+
+      <textarea
+        value={code[language]}
+        onChange={(e) => setCode((prev) => ({ ...prev, [language]: e.target.value }))}
+        onKeyDown={handleKeyDown}
+        readOnly={!!submission}
+        spellCheck={false}
+        className="w-full min-h-[220px] p-3 rounded-xl bg-muted/50 border border-border/50 font-mono text-sm leading-relaxed resize-y focus:outline-none focus:ring-2 focus:ring-primary/40"
+      />
+
+      {run && (
+        <div className="space-y-1.5">
+          {run.result.error ? (
+            <p className="text-sm text-destructive font-mono whitespace-pre-wrap">{run.result.error}</p>
+          ) : (
+            <>
+              <p className="text-sm font-medium">
+                {run.result.results.filter((r) => r.passed).length}/{shownTests.length} tests passed
+              </p>
+              {run.result.results.map((result, i) => (
+                <div key={i} className="flex items-start gap-2 text-xs font-mono">
+                  {result.passed ? (
+                    <CheckCircle2 className="w-3.5 h-3.5 mt-0.5 shrink-0 text-emerald-500" />
+                  ) : (
+                    <XCircle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-destructive" />
+                  )}
+                  {shownTests[i]?.hidden ? (
+                    <span className="flex items-center gap-1 text-muted-foreground">
+                      <Lock className="w-3 h-3" /> Hidden test {i + 1}
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">
+                      Example {i + 1}: {result.error ?? `got ${result.actual}`}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
+      {submission ? (
+        <p className="text-sm text-muted-foreground text-center">
+          Submitted: {submission.passed}/{submission.total} tests passed. Talk the interviewer through your solution.
+        </p>
+      ) : (
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => execute(false)} disabled={isRunning} className="flex-1 rounded-xl">
+            {isRunning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+            Run Examples
+          </Button>
+          <Button onClick={() => execute(true)} disabled={isRunning} className="flex-1 rounded-xl">
+            <Send className="w-4 h-4 mr-2" />
+            Submit Solution
+          </Button>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default CodingRound;
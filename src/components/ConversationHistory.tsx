@@ -1,9 +1,35 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { History, MessageSquare, Trash2, X, Clock } from "lucide-react";
+import {
+  History,
+  MessageSquare,
+  Trash2,
+  X,
+  Clock,
+  Search,
+  Pin,
+  PinOff,
+  Pencil,
+  MoreVertical,
+  FileText,
+  FileJson,
+  Printer,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ConversationMode } from "@/components/ModeSelector";
 import { supabase } from "@/integrations/supabase/client";
+import { toConversationMode } from "@/hooks/useConversationMemory";
+import { exportConversation, type ExportFormat } from "@/lib/conversationExport";
 import { formatDistanceToNow } from "date-fns";
 import { toast } from "sonner";
 
@@ -12,48 +38,116 @@ interface Conversation {
   created_at: string;
   updated_at: string;
   user_name: string | null;
+  title: string | null;
+  pinned: boolean;
+  mode: string | null;
   preview?: string;
+  snippet?: string;
 }
 
 interface ConversationHistoryProps {
   isOpen: boolean;
   onClose: () => void;
-  onSelectConversation: (conversationId: string, messages: any[]) => void;
+  onSelectConversation: (conversationId: string, messages: any[], mode: ConversationMode | null) => void;
 }
 
+type ModeFilter = "all" | ConversationMode;
+
+const modeFilters: { id: ModeFilter; label: string }[] = [
+  { id: "all", label: "All" },
+  { id: "friend", label: "Friend" },
+  { id: "interviewer", label: "Interviewer" },
+  { id: "mentor", label: "Mentor" },
+  { id: "studybuddy", label: "Study Buddy" },
+  { id: "therapist", label: "Therapist" },
+  { id: "language", label: "Language" },
+];
+
+const CONVERSATION_COLUMNS = "id, created_at, updated_at, user_name, title, pinned, mode";
+const LIST_LIMIT = 30;
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Pinned conversations stay on top, everything else is most recent first
+const sortConversations = (list: Conversation[]) =>
+  [...list].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updated_at.localeCompare(a.updated_at));
+
+const displayTitle = (conv: Conversation) => conv.title || conv.preview || "Conversation";
+
+// Search snippets come back from Postgres with <mark> around the matched terms
+const renderSnippet = (snippet: string) =>
+  snippet.split(/<\/?mark>/).map((part, i) =>
+    i % 2 === 1 ? (
+      <mark key={i} className="bg-primary/30 text-foreground rounded px-0.5">{part}</mark>
+    ) : (
+      <span key={i}>{part}</span>
+    )
+  );
+
 const ConversationHistory = ({ isOpen, onClose, onSelectConversation }: ConversationHistoryProps) => {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [modeFilter, setModeFilter] = useState<ModeFilter>("all");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
 
-  useEffect(() => {
-    if (isOpen) {
-      loadConversations();
-    }
-  }, [isOpen]);
-
-  const loadConversations = async () => {
+  const loadConversations = useCallback(async (query: string, mode: ModeFilter) => {
     setIsLoading(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
-      
+
       if (!user) {
         setIsLoading(false);
         return;
       }
 
-      // Get conversations with their first message for preview
-      const { data: convData, error } = await supabase
-        .from("conversations")
-        .select("id, created_at, updated_at, user_name")
-        .eq("user_id", user.id)
-        .order("updated_at", { ascending: false })
-        .limit(20);
+      let convData: Conversation[] = [];
 
-      if (error) throw error;
+      if (query) {
+        // Full-text search over message content, best match first
+        const { data: matches, error: searchError } = await supabase.rpc("search_conversations", {
+          _query: query,
+          _limit: LIST_LIMIT,
+        });
+
+        if (searchError) throw searchError;
+
+        if (matches && matches.length > 0) {
+          let request = supabase
+            .from("conversations")
+            .select(CONVERSATION_COLUMNS)
+            .in("id", matches.map((m) => m.conversation_id));
+          if (mode !== "all") request = request.eq("mode", mode);
+
+          const { data, error } = await request;
+          if (error) throw error;
+
+          const byId = new Map((data || []).map((conv) => [conv.id, conv]));
+          convData = matches
+            .filter((m) => byId.has(m.conversation_id))
+            .map((m) => ({ ...byId.get(m.conversation_id)!, snippet: m.snippet }));
+        }
+      } else {
+        let request = supabase
+          .from("conversations")
+          .select(CONVERSATION_COLUMNS)
+          .eq("user_id", user.id);
+        if (mode !== "all") request = request.eq("mode", mode);
 
-      // Get first message for each conversation as preview
+        const { data, error } = await request
+          .order("pinned", { ascending: false })
+          .order("updated_at", { ascending: false })
+          .limit(LIST_LIMIT);
+
+        if (error) throw error;
+        convData = data || [];
+      }
+
+      // Untitled conversations fall back to their first message as a preview
       const conversationsWithPreviews = await Promise.all(
-        (convData || []).map(async (conv) => {
+        convData.map(async (conv) => {
+          if (conv.title) return conv;
+
           const { data: messages } = await supabase
             .from("messages")
             .select("content, role")
@@ -61,9 +155,10 @@ const ConversationHistory = ({ isOpen, onClose, onSelectConversation }: Conversa
             .order("created_at", { ascending: true })
             .limit(1);
 
+          const first = messages?.[0]?.content;
           return {
             ...conv,
-            preview: messages?.[0]?.content?.substring(0, 60) + (messages?.[0]?.content?.length > 60 ? "..." : "") || "Empty conversation",
+            preview: first ? first.substring(0, 60) + (first.length > 60 ? "..." : "") : "Empty conversation",
           };
         })
       );
@@ -75,19 +170,33 @@ const ConversationHistory = ({ isOpen, onClose, onSelectConversation }: Conversa
     } finally {
       setIsLoading(false);
     }
-  };
+  }, []);
 
-  const handleSelectConversation = async (conversationId: string) => {
-    try {
-      const { data: messages, error } = await supabase
-        .from("messages")
-        .select("role, content, emotional_tone")
-        .eq("conversation_id", conversationId)
-        .order("created_at", { ascending: true });
+  useEffect(() => {
+    if (!isOpen) return;
 
-      if (error) throw error;
+    const query = searchQuery.trim();
+    const timeout = setTimeout(() => loadConversations(query, modeFilter), query ? SEARCH_DEBOUNCE_MS : 0);
+    return () => clearTimeout(timeout);
+  }, [isOpen, searchQuery, modeFilter, loadConversations]);
+
+  const fetchMessages = async (conversationId: string) => {
+    const { data: messages, error } = await supabase
+      .from("messages")
+      .select("role, content, emotional_tone, mode, created_at")
+      .eq("conversation_id", conversationId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return messages || [];
+  };
 
-      onSelectConversation(conversationId, messages || []);
+  const handleSelectConversation = async (conv: Conversation) => {
+    if (editingId) return;
+
+    try {
+      const messages = await fetchMessages(conv.id);
+      onSelectConversation(conv.id, messages, toConversationMode(conv.mode));
       onClose();
     } catch (error) {
       console.error("Error loading messages:", error);
@@ -95,9 +204,7 @@ const ConversationHistory = ({ isOpen, onClose, onSelectConversation }: Conversa
     }
   };
 
-  const handleDeleteConversation = async (conversationId: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    
+  const handleDeleteConversation = async (conversationId: string) => {
     try {
       // Delete messages first (due to foreign key)
       await supabase
@@ -119,6 +226,69 @@ const ConversationHistory = ({ isOpen, onClose, onSelectConversation }: Conversa
     }
   };
 
+  const handleTogglePin = async (conv: Conversation) => {
+    const pinned = !conv.pinned;
+
+    try {
+      const { error } = await supabase
+        .from("conversations")
+        .update({ pinned })
+        .eq("id", conv.id);
+
+      if (error) throw error;
+
+      setConversations((prev) => sortConversations(prev.map((c) => (c.id === conv.id ? { ...c, pinned } : c))));
+    } catch (error) {
+      console.error("Error pinning conversation:", error);
+      toast.error("Failed to update conversation");
+    }
+  };
+
+  const startRename = (conv: Conversation) => {
+    setEditingId(conv.id);
+    setEditTitle(conv.title || "");
+  };
+
+  const handleRename = async (conv: Conversation) => {
+    const title = editTitle.trim().slice(0, 120);
+    setEditingId(null);
+    if (title === (conv.title || "")) return;
+
+    // Clearing the title hands it back to the automatic summary
+    const update = title ? { title, title_edited: true } : { title: null, title_edited: false };
+
+    try {
+      const { error } = await supabase
+        .from("conversations")
+        .update(update)
+        .eq("id", conv.id);
+
+      if (error) throw error;
+
+      setConversations((prev) => prev.map((c) => (c.id === conv.id ? { ...c, title: update.title } : c)));
+    } catch (error) {
+      console.error("Error renaming conversation:", error);
+      toast.error("Failed to rename conversation");
+    }
+  };
+
+  const handleExport = async (conv: Conversation, format: ExportFormat) => {
+    try {
+      const messages = await fetchMessages(conv.id);
+      const exported = exportConversation(
+        { id: conv.id, title: displayTitle(conv), mode: conv.mode, created_at: conv.created_at, messages },
+        format
+      );
+
+      if (!exported) {
+        toast.error("Allow pop-ups to export as PDF");
+      }
+    } catch (error) {
+      console.error("Error exporting conversation:", error);
+      toast.error("Failed to export conversation");
+    }
+  };
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -151,6 +321,34 @@ const ConversationHistory = ({ isOpen, onClose, onSelectConversation }: Conversa
               </Button>
             </div>
 
+            {/* Search and mode filter */}
+            <div className="p-3 space-y-2 border-b border-border/50">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search messages..."
+                  className="pl-9 h-9 rounded-xl"
+                />
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {modeFilters.map((filter) => (
+                  <button
+                    key={filter.id}
+                    onClick={() => setModeFilter(filter.id)}
+                    className={`px-2.5 py-1 rounded-full text-xs transition-colors ${
+                      modeFilter === filter.id
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-muted/50 text-muted-foreground hover:bg-muted"
+                    }`}
+                  >
+                    {filter.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             {/* Content */}
             <ScrollArea className="flex-1">
               <div className="p-2">
@@ -161,8 +359,14 @@ const ConversationHistory = ({ isOpen, onClose, onSelectConversation }: Conversa
                 ) : conversations.length === 0 ? (
                   <div className="text-center py-8 text-muted-foreground">
                     <MessageSquare className="w-12 h-12 mx-auto mb-3 opacity-50" />
-                    <p>No conversations yet</p>
-                    <p className="text-sm mt-1">Start chatting to see history here</p>
+                    {searchQuery.trim() || modeFilter !== "all" ? (
+                      <p>No matching conversations</p>
+                    ) : (
+                      <>
+                        <p>No conversations yet</p>
+                        <p className="text-sm mt-1">Start chatting to see history here</p>
+                      </>
+                    )}
                   </div>
                 ) : (
                   <div className="space-y-2">
@@ -172,29 +376,96 @@ const ConversationHistory = ({ isOpen, onClose, onSelectConversation }: Conversa
                         initial={{ opacity: 0, y: 10 }}
                         animate={{ opacity: 1, y: 0 }}
                         className="group relative p-3 rounded-lg hover:bg-accent/50 cursor-pointer transition-colors"
-                        onClick={() => handleSelectConversation(conv.id)}
+                        onClick={() => handleSelectConversation(conv)}
                       >
                         <div className="flex items-start gap-3">
                           <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center shrink-0">
-                            <MessageSquare className="w-4 h-4 text-primary" />
+                            {conv.pinned ? (
+                              <Pin className="w-4 h-4 text-primary" />
+                            ) : (
+                              <MessageSquare className="w-4 h-4 text-primary" />
+                            )}
                           </div>
                           <div className="flex-1 min-w-0">
-                            <p className="text-sm font-medium truncate">
-                              {conv.preview || "Conversation"}
-                            </p>
+                            {editingId === conv.id ? (
+                              <Input
+                                autoFocus
+                                value={editTitle}
+                                onChange={(e) => setEditTitle(e.target.value)}
+                                onClick={(e) => e.stopPropagation()}
+                                onBlur={() => handleRename(conv)}
+                                onKeyDown={(e) => {
+                                  if (e.key === "Enter") e.currentTarget.blur();
+                                  if (e.key === "Escape") setEditingId(null);
+                                }}
+                                placeholder="Leave empty for an automatic title"
+                                className="h-7 text-sm"
+                              />
+                            ) : (
+                              <p className="text-sm font-medium truncate">{displayTitle(conv)}</p>
+                            )}
+                            {conv.snippet && (
+                              <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                                {renderSnippet(conv.snippet)}
+                              </p>
+                            )}
                             <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
                               <Clock className="w-3 h-3" />
                               {formatDistanceToNow(new Date(conv.updated_at), { addSuffix: true })}
+                              {conv.mode && (
+                                <span className="ml-1 px-1.5 py-0.5 rounded bg-muted/60 capitalize">{conv.mode}</span>
+                              )}
                             </div>
                           </div>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="opacity-0 group-hover:opacity-100 transition-opacity h-8 w-8"
-                            onClick={(e) => handleDeleteConversation(conv.id, e)}
-                          >
-                            <Trash2 className="w-4 h-4 text-destructive" />
-                          </Button>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity h-8 w-8"
+                              >
+                                <MoreVertical className="w-4 h-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            {/* Menu clicks would otherwise bubble through the portal and open the conversation */}
+                            <DropdownMenuContent
+                              align="end"
+                              className="w-48"
+                              onClick={(e) => e.stopPropagation()}
+                              onCloseAutoFocus={(e) => e.preventDefault()}
+                            >
+                              <DropdownMenuItem onSelect={() => startRename(conv)}>
+                                <Pencil className="w-4 h-4 mr-2" />
+                                Rename
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onSelect={() => handleTogglePin(conv)}>
+                                {conv.pinned ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+                                {conv.pinned ? "Unpin" : "Pin"}
+                              </DropdownMenuItem>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuLabel className="text-xs text-muted-foreground">Export</DropdownMenuLabel>
+                              <DropdownMenuItem onSelect={() => handleExport(conv, "markdown")}>
+                                <FileText className="w-4 h-4 mr-2" />
+                                Markdown
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onSelect={() => handleExport(conv, "json")}>
+                                <FileJson className="w-4 h-4 mr-2" />
+                                JSON
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onSelect={() => handleExport(conv, "pdf")}>
+                                <Printer className="w-4 h-4 mr-2" />
+                                PDF
+                              </DropdownMenuItem>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="text-destructive focus:text-destructive"
+                                onSelect={() => handleDeleteConversation(conv.id)}
+                              >
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
                         </div>
                       </motion.div>
                     ))}
@@ -0,0 +1,229 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { motion } from "framer-motion";
+import { Play, Square, Headphones } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { supabase } from "@/integrations/supabase/client";
+import { VOICE_IDS } from "@/hooks/useEnhancedTTS";
+import { toast } from "sonner";
+
+interface GoetheHoerenAudioProps {
+  text: string;
+  maxPlays: number;
+  playsUsed: number;
+  onPlayStarted: () => void;
+}
+
+// Exam-style player: no seeking or pausing, and each Teil may only be heard
+// as many times as the real exam allows
+const GoetheHoerenAudio = ({ text, maxPlays, playsUsed, onPlayStarted }: GoetheHoerenAudioProps) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const audioUrlRef = useRef<string | null>(null);
+  const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
+
+  const playsLeft = Math.max(0, maxPlays - playsUsed);
+
+  const cleanup = useCallback(() => {
+    if (progressIntervalRef.current) {
+      clearInterval(progressIntervalRef.current);
+      progressIntervalRef.current = null;
+    }
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current = null;
+    }
+    if ("speechSynthesis" in window) {
+      window.speechSynthesis.cancel();
+    }
+  }, []);
+
+  // Drop the cached audio when the Teil changes
+  useEffect(() => {
+    cleanup();
+    setIsPlaying(false);
+    setProgress(0);
+    if (audioUrlRef.current) {
+      URL.revokeObjectURL(audioUrlRef.current);
+      audioUrlRef.current = null;
+    }
+  }, [text, cleanup]);
+
+  useEffect(() => {
+    return () => {
+      cleanup();
+      if (audioUrlRef.current) {
+        URL.revokeObjectURL(audioUrlRef.current);
+      }
+    };
+  }, [cleanup]);
+
+  const finishPlayback = useCallback(() => {
+    setIsPlaying(false);
+    setProgress(100);
+    if (progressIntervalRef.current) {
+      clearInterval(progressIntervalRef.current);
+      progressIntervalRef.current = null;
+    }
+  }, []);
+
+  const playWithBrowserTTS = useCallback(() => {
+    if (!("speechSynthesis" in window)) {
+      toast.error("Speech not supported in your browser");
+      setIsLoading(false);
+      return;
+    }
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = "de-DE";
+    utterance.rate = 0.9;
+
+    const voices = window.speechSynthesis.getVoices();
+    const germanVoice =
+      voices.find(v => v.lang.startsWith("de") && v.name.includes("Google")) ||
+      voices.find(v => v.lang.startsWith("de"));
+    if (germanVoice) {
+      utterance.voice = germanVoice;
+    }
+
+    // Estimate duration (rough: ~140 words per minute at exam pace)
+    const estimatedDuration = (text.split(/\s+/).length / 140) * 60 * 1000;
+    let elapsed = 0;
+
+    utterance.onstart = () => {
+      setIsPlaying(true);
+      setIsLoading(false);
+      progressIntervalRef.current = setInterval(() => {
+        elapsed += 100;
+        setProgress(Math.min((elapsed / estimatedDuration) * 100, 95));
+      }, 100);
+    };
+    utterance.onend = finishPlayback;
+    utterance.onerror = (event) => {
+      if (event.error !== "canceled") {
+        toast.error("Audio playback error");
+      }
+      setIsPlaying(false);
+      setIsLoading(false);
+    };
+
+    window.speechSynthesis.speak(utterance);
+  }, [text, finishPlayback]);
+
+  const fetchAudioUrl = useCallback(async (): Promise<string | null> => {
+    if (audioUrlRef.current) return audioUrlRef.current;
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) return null;
+
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/text-to-speech`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ text, voiceId: VOICE_IDS.german }),
+      }
+    );
+
+    if (!response.ok) return null;
+
+    const audioBlob = await response.blob();
+    audioUrlRef.current = URL.createObjectURL(audioBlob);
+    return audioUrlRef.current;
+  }, [text]);
+
+  const play = async () => {
+    if (isPlaying) {
+      // Stopping early still counts as a play, as in the exam
+      cleanup();
+      setIsPlaying(false);
+      return;
+    }
+    if (playsLeft === 0 || isLoading) return;
+
+    setIsLoading(true);
+    setProgress(0);
+    onPlayStarted();
+
+    try {
+      const audioUrl = await fetchAudioUrl();
+      if (!audioUrl) {
+        playWithBrowserTTS();
+        return;
+      }
+
+      const audio = new Audio(audioUrl);
+      audioRef.current = audio;
+
+      audio.onloadedmetadata = () => {
+        progressIntervalRef.current = setInterval(() => {
+          if (audio.currentTime && audio.duration) {
+            setProgress((audio.currentTime / audio.duration) * 100);
+          }
+        }, 100);
+      };
+      audio.onplay = () => {
+        setIsPlaying(true);
+        setIsLoading(false);
+      };
+      audio.onended = finishPlayback;
+      audio.onerror = () => {
+        setIsLoading(false);
+        playWithBrowserTTS();
+      };
+
+      await audio.play();
+    } catch (error) {
+      console.error("Hören audio error:", error);
+      playWithBrowserTTS();
+    }
+  };
+
+  return (
+    <div className="glass-card rounded-2xl p-4 space-y-3">
+      <div className="flex items-center gap-3">
+        <motion.button
+          whileHover={{ scale: playsLeft > 0 || isPlaying ? 1.05 : 1 }}
+          whileTap={{ scale: playsLeft > 0 || isPlaying ? 0.95 : 1 }}
+          onClick={play}
+          disabled={isLoading || (!isPlaying && playsLeft === 0)}
+          className={`w-14 h-14 rounded-full flex items-center justify-center shadow-lg transition-all disabled:opacity-50 ${
+            isPlaying
+              ? "bg-gradient-to-br from-red-500 to-rose-500"
+              : "bg-gradient-to-br from-blue-500 to-indigo-500"
+          }`}
+        >
+          {isLoading ? (
+            <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+          ) : isPlaying ? (
+            <Square className="w-5 h-5 text-white" />
+          ) : (
+            <Play className="w-6 h-6 text-white ml-1" />
+          )}
+        </motion.button>
+
+        <div className="flex-1">
+          <Progress value={progress} className="h-2" />
+          <p className="text-xs text-muted-foreground mt-1">
+            {isPlaying ? "Wird abgespielt..." : playsLeft > 0 ? "Zum Abspielen tippen" : "Keine Wiedergaben mehr"}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-muted text-sm">
+          <Headphones className="w-4 h-4 text-muted-foreground" />
+          <span className="font-mono">{playsUsed}/{maxPlays}</span>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Sie hören den Text {maxPlays === 1 ? "einmal" : `${maxPlays}-mal`}.
+      </p>
+    </div>
+  );
+};
+
+export default GoetheHoerenAudio;
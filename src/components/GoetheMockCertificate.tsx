@@ -0,0 +1,81 @@
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { Award, BookOpen, Headphones, FileText, Mic, CheckCircle2, XCircle } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { GOETHE_PASS_PERCENTAGE, type GoetheMockResult, type GoetheModule } from "@/lib/goetheScoring";
+
+interface GoetheMockCertificateProps {
+  result: GoetheMockResult;
+  completedAt: Date;
+}
+
+const moduleMeta: Record<GoetheModule, { name: string; icon: typeof BookOpen }> = {
+  lesen: { name: "Lesen", icon: BookOpen },
+  hoeren: { name: "Hören", icon: Headphones },
+  schreiben: { name: "Schreiben", icon: FileText },
+  sprechen: { name: "Sprechen", icon: Mic },
+};
+
+const levelTitles: Record<GoetheMockResult["level"], string> = {
+  A1: "Goethe-Zertifikat A1: Start Deutsch 1",
+  A2: "Goethe-Zertifikat A2",
+  B1: "Goethe-Zertifikat B1",
+  B2: "Goethe-Zertifikat B2",
+  C1: "Goethe-Zertifikat C1",
+};
+
+const GoetheMockCertificate = ({ result, completedAt }: GoetheMockCertificateProps) => {
+  return (
+    <motion.div
+      className="glass-card rounded-3xl p-8 border-4 border-double border-primary/30"
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+    >
+      <div className="text-center mb-8">
+        <Award className={`w-14 h-14 mx-auto mb-3 ${result.passed ? "text-primary" : "text-muted-foreground"}`} />
+        <p className="text-xs uppercase tracking-[0.3em] text-muted-foreground mb-2">Probeprüfung</p>
+        <h2 className="text-2xl font-bold">{levelTitles[result.level]}</h2>
+        <p className="text-sm text-muted-foreground mt-1">{format(completedAt, "dd.MM.yyyy")}</p>
+      </div>
+
+      <div className="divide-y divide-border/50 mb-6">
+        {result.modules.map((module) => {
+          const meta = moduleMeta[module.module];
+          const Icon = meta.icon;
+          return (
+            <div key={module.module} className="py-3">
+              <div className="flex items-center gap-3 mb-2">
+                <Icon className="w-5 h-5 text-primary" />
+                <span className="font-medium flex-1">{meta.name}</span>
+                <span className="font-mono">{module.percentage}%</span>
+                {result.modular && (
+                  <span className={`flex items-center gap-1 text-sm w-36 justify-end ${module.passed ? "text-success" : "text-destructive"}`}>
+                    {module.passed ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+                    {module.passed ? "bestanden" : "nicht bestanden"}
+                  </span>
+                )}
+              </div>
+              <Progress value={module.percentage} className="h-1.5" />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className={`rounded-2xl p-4 text-center ${result.passed ? "bg-success/10" : "bg-destructive/10"}`}>
+        {!result.modular && (
+          <p className="text-sm text-muted-foreground mb-1">Gesamtergebnis: {result.totalPercentage}%</p>
+        )}
+        <p className={`text-xl font-bold ${result.passed ? "text-success" : "text-destructive"}`}>
+          {result.passed ? "Bestanden" : "Nicht bestanden"}
+        </p>
+        <p className="text-xs text-muted-foreground mt-2">
+          {result.modular
+            ? `Jedes Modul wird einzeln bewertet und ist mit mindestens ${GOETHE_PASS_PERCENTAGE}% bestanden.`
+            : `Die Prüfung ist mit mindestens ${GOETHE_PASS_PERCENTAGE}% der Gesamtpunktzahl bestanden.`}
+        </p>
+      </div>
+    </motion.div>
+  );
+};
+
+export default GoetheMockCertificate;
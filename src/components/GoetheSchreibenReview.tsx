@@ -0,0 +1,120 @@
+import { useMemo } from "react";
+import { motion } from "framer-motion";
+import { ArrowRight, CheckCircle2, XCircle } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { GOETHE_PASS_PERCENTAGE, type SchreibenScore } from "@/lib/goetheScoring";
+
+export interface SchreibenError {
+  original: string;
+  correction: string;
+  category: string;
+  explanation: string;
+}
+
+interface GoetheSchreibenReviewProps {
+  score: SchreibenScore;
+  comments: Record<string, string>;
+  correctedText: string;
+  errors: SchreibenError[];
+  summary: string;
+}
+
+const GoetheSchreibenReview = ({ score, comments, correctedText, errors, summary }: GoetheSchreibenReviewProps) => {
+  const categoryCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    errors.forEach((error) => {
+      counts[error.category] = (counts[error.category] || 0) + 1;
+    });
+    return Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  }, [errors]);
+
+  return (
+    <motion.div
+      className="space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="glass-card rounded-2xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold">Bewertung</h3>
+          <div className="text-right">
+            <span className="text-3xl font-bold font-mono">{score.points}</span>
+            <span className="text-muted-foreground font-mono"> / {score.maxPoints}</span>
+          </div>
+        </div>
+
+        <div className={`flex items-center gap-2 p-3 rounded-xl mb-4 ${score.passed ? "bg-success/10" : "bg-destructive/10"}`}>
+          {score.passed ? (
+            <CheckCircle2 className="w-5 h-5 text-success" />
+          ) : (
+            <XCircle className="w-5 h-5 text-destructive" />
+          )}
+          <span className={`font-semibold ${score.passed ? "text-success" : "text-destructive"}`}>
+            {score.passed ? "Bestanden" : "Nicht bestanden"}
+          </span>
+          <span className="text-sm text-muted-foreground ml-auto">
+            {score.percentage}% (mindestens {GOETHE_PASS_PERCENTAGE}%)
+          </span>
+        </div>
+
+        <div className="space-y-3">
+          {score.criteria.map((criterion) => (
+            <div key={criterion.id}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="font-medium">{criterion.name}</span>
+                <span className="font-mono">
+                  <span className="text-muted-foreground mr-2">{criterion.grade}</span>
+                  {criterion.points}/{criterion.maxPoints}
+                </span>
+              </div>
+              <Progress value={(criterion.points / criterion.maxPoints) * 100} className="h-2" />
+              {comments[criterion.id] && (
+                <p className="text-xs text-muted-foreground mt-1">{comments[criterion.id]}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {summary && <p className="mt-4 text-sm text-muted-foreground leading-relaxed">{summary}</p>}
+      </div>
+
+      <div className="glass-card rounded-2xl p-6">
+        <h3 className="font-semibold mb-3">Korrigierter Text</h3>
+        <p className="text-base leading-relaxed whitespace-pre-wrap">{correctedText}</p>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="glass-card rounded-2xl p-6">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h3 className="font-semibold">Fehler</h3>
+            <div className="flex flex-wrap gap-2">
+              {categoryCounts.map(([category, count]) => (
+                <span key={category} className="text-xs px-2 py-0.5 rounded-full bg-muted">
+                  {category} × {count}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="divide-y divide-border/50">
+            {errors.map((error, index) => (
+              <div key={index} className="py-3 text-sm">
+                <div className="flex flex-wrap items-center gap-2 mb-1">
+                  <span className="text-xs font-medium uppercase tracking-wide px-2 py-0.5 rounded bg-primary/10 text-primary">
+                    {error.category}
+                  </span>
+                  <span className="line-through text-muted-foreground">{error.original}</span>
+                  <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                  <span className="text-success font-medium">{error.correction}</span>
+                </div>
+                <p className="text-muted-foreground">{error.explanation}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default GoetheSchreibenReview;
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+/**
+ * Shown after sign-in when this device has progress from a guest session,
+ * offering to move it into the account.
+ */
+const GuestImportDialog = () => {
+  const { pendingGuestImport, importGuestData, dismissGuestImport } = useAuth();
+  const [isImporting, setIsImporting] = useState(false);
+
+  if (!pendingGuestImport) return null;
+
+  const items = [
+    pendingGuestImport.conversations > 0 && plural(pendingGuestImport.conversations, "conversation"),
+    pendingGuestImport.xp > 0 && `${pendingGuestImport.xp} XP of practice`,
+    pendingGuestImport.vocabularyCards > 0 && plural(pendingGuestImport.vocabularyCards, "review card"),
+    pendingGuestImport.cefrLevels > 0 && plural(pendingGuestImport.cefrLevels, "placement result"),
+    pendingGuestImport.ieltsAttempts > 0 && plural(pendingGuestImport.ieltsAttempts, "IELTS attempt"),
+  ].filter(Boolean) as string[];
+
+  const handleImport = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    setIsImporting(true);
+    const { error } = await importGuestData();
+    setIsImporting(false);
+
+    if (error) {
+      toast.error("Couldn't import everything. You can try again next time you sign in.");
+    } else {
+      toast.success("Your guest progress is now saved to your account");
+    }
+  };
+
+  return (
+    <AlertDialog open onOpenChange={(open) => !open && !isImporting && dismissGuestImport()}>
+      <AlertDialogContent className="rounded-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Keep what you did as a guest?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This device has progress from before you signed in:
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ul className="list-disc pl-6 space-y-1 text-sm">
+          {items.map((item) => (
+            <li key={item}>{item}</li>
+          ))}
+        </ul>
+        <AlertDialogFooter>
+          <AlertDialogCancel className="rounded-xl" disabled={isImporting}>
+            Not now
+          </AlertDialogCancel>
+          <AlertDialogAction className="rounded-xl" disabled={isImporting} onClick={handleImport}>
+            {isImporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Import to my account
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default GuestImportDialog;
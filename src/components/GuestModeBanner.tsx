@@ -37,7 +37,7 @@ const GuestModeBanner = () => {
         <div className="flex items-center gap-2">
           <AlertTriangle className="w-4 h-4 shrink-0" />
           <span className="text-sm font-medium">
-            Demo Mode: You're exploring as a guest. Features are limited and conversations won't be saved.
+            Demo Mode: You're exploring as a guest. Your progress is kept on this device until you sign in.
           </span>
         </div>
         <div className="flex items-center gap-2">
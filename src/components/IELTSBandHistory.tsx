@@ -0,0 +1,200 @@
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Headphones, BookOpen, FileText, Mic, TrendingUp, TrendingDown, Minus, Trophy, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { IELTSAttempt } from "@/hooks/useIELTSAttempts";
+import { calculateOverallBand } from "@/lib/ieltsScoring";
+
+interface IELTSBandHistoryProps {
+  attempts: IELTSAttempt[];
+  isLoading: boolean;
+  isSignedIn: boolean;
+}
+
+const moduleMeta = [
+  { id: "listening" as const, name: "Listening", icon: Headphones, color: "hsl(230 80% 60%)" },
+  { id: "reading" as const, name: "Reading", icon: BookOpen, color: "hsl(160 70% 40%)" },
+  { id: "writing" as const, name: "Writing", icon: FileText, color: "hsl(30 90% 55%)" },
+  { id: "speaking" as const, name: "Speaking", icon: Mic, color: "hsl(290 70% 60%)" },
+];
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+const IELTSBandHistory = ({ attempts, isLoading, isSignedIn }: IELTSBandHistoryProps) => {
+  const byModule = useMemo(() => {
+    return moduleMeta.map((meta) => {
+      const scored = attempts.filter((a) => a.module === meta.id && a.bandScore !== null);
+      const points = scored.map((a) => ({
+        date: format(new Date(a.createdAt), "MMM d"),
+        band: a.bandScore as number,
+      }));
+      const latest = scored[scored.length - 1]?.bandScore ?? null;
+      const previous = scored[scored.length - 2]?.bandScore ?? null;
+      const best = scored.length > 0 ? Math.max(...scored.map((a) => a.bandScore as number)) : null;
+      return { ...meta, points, latest, previous, best, count: scored.length };
+    });
+  }, [attempts]);
+
+  // Overall band is only meaningful once every module has a score
+  const overallBand = useMemo(() => {
+    if (byModule.some((m) => m.latest === null)) return null;
+    const latest = Object.fromEntries(byModule.map((m) => [m.id, m.latest as number]));
+    return calculateOverallBand(latest as Record<(typeof moduleMeta)[number]["id"], number>);
+  }, [byModule]);
+
+  const recentAttempts = useMemo(() => [...attempts].reverse().slice(0, 10), [attempts]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isSignedIn && attempts.length === 0) {
+    return (
+      <div className="glass-card rounded-2xl p-8 text-center">
+        <Trophy className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+        <h3 className="text-xl font-semibold mb-2">Track your band progress</h3>
+        <p className="text-muted-foreground mb-6">Sign in to save your attempts and see how your bands improve over time.</p>
+        <Link to="/auth">
+          <Button className="rounded-xl">Sign In</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  if (attempts.length === 0) {
+    return (
+      <div className="glass-card rounded-2xl p-8 text-center">
+        <Trophy className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+        <h3 className="text-xl font-semibold mb-2">No attempts yet</h3>
+        <p className="text-muted-foreground">Complete a module to start building your band history.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {!isSignedIn && (
+        <div className="glass-card rounded-2xl p-4 flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            Your attempts are saved on this device. Sign in to keep them in your account.
+          </p>
+          <Link to="/auth">
+            <Button size="sm" className="rounded-xl">Sign In</Button>
+          </Link>
+        </div>
+      )}
+
+      <div className="glass-card rounded-2xl p-4 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Overall Band</h3>
+          <p className="text-sm text-muted-foreground">
+            {overallBand !== null
+              ? "Based on your latest score in each module"
+              : "Complete all four modules to see your overall band"}
+          </p>
+        </div>
+        <span className="text-3xl font-bold font-mono text-primary">
+          {overallBand !== null ? overallBand.toFixed(1) : "–"}
+        </span>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {byModule.map((module, index) => {
+          const Icon = module.icon;
+          const delta = module.latest !== null && module.previous !== null ? module.latest - module.previous : null;
+          const chartConfig: ChartConfig = { band: { label: "Band", color: module.color } };
+
+          return (
+            <motion.div
+              key={module.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.1 }}
+              className="glass-card rounded-2xl p-4"
+            >
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-2">
+                  <Icon className="w-5 h-5 text-primary" />
+                  <h3 className="font-semibold">{module.name}</h3>
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  {delta !== null && (
+                    <span
+                      className={`flex items-center gap-1 ${
+                        delta > 0 ? "text-success" : delta < 0 ? "text-destructive" : "text-muted-foreground"
+                      }`}
+                    >
+                      {delta > 0 ? <TrendingUp className="w-4 h-4" /> : delta < 0 ? <TrendingDown className="w-4 h-4" /> : <Minus className="w-4 h-4" />}
+                      {delta > 0 ? "+" : ""}
+                      {delta.toFixed(1)}
+                    </span>
+                  )}
+                  <span className="font-mono font-semibold">{module.latest !== null ? module.latest.toFixed(1) : "–"}</span>
+                </div>
+              </div>
+
+              {module.points.length > 0 ? (
+                <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+                  <LineChart data={module.points} margin={{ left: -20, right: 8, top: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                    <YAxis domain={[0, 9]} ticks={[0, 3, 5, 6, 7, 9]} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line type="monotone" dataKey="band" stroke="var(--color-band)" strokeWidth={2} dot={{ r: 3 }} />
+                  </LineChart>
+                </ChartContainer>
+              ) : (
+                <div className="h-40 flex items-center justify-center text-sm text-muted-foreground">
+                  No scored attempts yet
+                </div>
+              )}
+
+              <div className="flex justify-between text-xs text-muted-foreground mt-2">
+                <span>{module.count} attempt{module.count === 1 ? "" : "s"}</span>
+                <span>Best: {module.best !== null ? module.best.toFixed(1) : "–"}</span>
+              </div>
+            </motion.div>
+          );
+        })}
+      </div>
+
+      <div className="glass-card rounded-2xl p-4">
+        <h3 className="font-semibold mb-3">Recent Attempts</h3>
+        <div className="divide-y divide-border/50">
+          {recentAttempts.map((attempt) => (
+            <div key={attempt.id} className="flex items-center justify-between py-2 text-sm">
+              <div>
+                <span className="font-medium capitalize">{attempt.module}</span>
+                <span className="text-muted-foreground"> • {attempt.testMode}</span>
+                {attempt.correctCount !== null && attempt.totalQuestions !== null && (
+                  <span className="text-muted-foreground"> • {attempt.correctCount}/{attempt.totalQuestions}</span>
+                )}
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="text-muted-foreground font-mono">{formatDuration(attempt.timeUsedSeconds)}</span>
+                <span className="text-muted-foreground">{format(new Date(attempt.createdAt), "MMM d, HH:mm")}</span>
+                <span className="font-mono font-semibold w-8 text-right">
+                  {attempt.bandScore !== null ? attempt.bandScore.toFixed(1) : "–"}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IELTSBandHistory;
@@ -1,199 +1,271 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { motion } from "framer-motion";
-import { RefreshCw, Download, ZoomIn, Loader2 } from "lucide-react";
+import { RefreshCw, Loader2, ArrowDown } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from "recharts";
 import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { supabase } from "@/integrations/supabase/client";
-import { toast } from "sonner";
+import { SAMPLE_CHARTS, type IELTSChartSpec, type IELTSChartType } from "@/lib/ieltsChart";
+
+const GENERATE_CHART_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-chart`;
 
 interface IELTSWritingChartProps {
-  chartType: "bar" | "line" | "pie" | "table" | "process" | "map";
+  chartType: IELTSChartType;
   topic: string;
-  onChartGenerated?: (description: string) => void;
+  onChartGenerated?: (spec: IELTSChartSpec) => void;
 }
 
-// Sample chart data for each type
-const chartConfigs: Record<string, { prompt: string; description: string }> = {
-  bar: {
-    prompt: "A professional bar chart showing internet usage statistics across 4 countries (USA, UK, Germany, Japan) from 2010 to 2020, with clear axis labels, legend, and percentage values. Clean white background, professional academic style suitable for IELTS exam.",
-    description: "The bar chart compares the percentage of households with internet access in four countries (USA, UK, Germany, and Japan) between 2010 and 2020."
-  },
-  line: {
-    prompt: "A professional line graph showing population growth trends in 3 cities over 50 years from 1970 to 2020, with multiple colored lines, clear grid, axis labels and legend. Clean academic style for IELTS exam.",
-    description: "The line graph illustrates the population growth in three major cities over a 50-year period from 1970 to 2020."
-  },
-  pie: {
-    prompt: "Two professional pie charts comparing household energy consumption by sector in 2000 vs 2020, showing heating, cooling, appliances, and lighting percentages. Clean academic style with clear labels for IELTS exam.",
-    description: "The pie charts compare the distribution of household energy consumption across different sectors in 2000 and 2020."
-  },
-  table: {
-    prompt: "A professional data table showing student enrollment numbers across 5 university faculties for years 2018-2022, with clear headers, rows, and columns. Academic style suitable for IELTS exam.",
-    description: "The table shows the number of students enrolled in five different university faculties from 2018 to 2022."
-  },
-  process: {
-    prompt: "A professional process diagram showing the stages of recycling plastic bottles, with arrows, numbered steps, and clear labels. Clean academic infographic style for IELTS exam.",
-    description: "The diagram illustrates the process of recycling plastic bottles, from collection to the production of new products."
-  },
-  map: {
-    prompt: "Two professional maps showing the development of a town center in 1990 and 2020, showing buildings, roads, parks, and facilities. Clean architectural style suitable for IELTS exam.",
-    description: "The maps compare the layout of a town center in 1990 and 2020, showing significant changes in infrastructure and land use."
+const palette = [
+  "hsl(230 80% 60%)",
+  "hsl(30 90% 55%)",
+  "hsl(160 70% 40%)",
+  "hsl(290 70% 60%)",
+  "hsl(0 75% 60%)",
+  "hsl(190 80% 45%)",
+];
+
+const colorAt = (index: number) => palette[index % palette.length];
+
+const seriesConfig = (spec: IELTSChartSpec): ChartConfig =>
+  Object.fromEntries(spec.series.map((series, index) => [`s${index}`, { label: series.name, color: colorAt(index) }]));
+
+const segmentConfig = (spec: IELTSChartSpec): ChartConfig =>
+  Object.fromEntries(spec.categories.map((category, index) => [`c${index}`, { label: category, color: colorAt(index) }]));
+
+// One row per category with a column per series, keyed s0, s1... for Recharts
+const toRows = (spec: IELTSChartSpec) =>
+  spec.categories.map((category, index) => ({
+    category,
+    ...Object.fromEntries(spec.series.map((series, seriesIndex) => [`s${seriesIndex}`, series.values[index]])),
+  }));
+
+const ChartBody = ({ spec }: { spec: IELTSChartSpec }) => {
+  const unitLabel = spec.unit ? ` (${spec.unit})` : "";
+
+  switch (spec.type) {
+    case "bar":
+      return (
+        <ChartContainer config={seriesConfig(spec)} className="h-72 w-full aspect-auto">
+          <BarChart data={toRows(spec)} margin={{ left: -8, right: 8, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="category" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {spec.series.map((_, index) => (
+              <Bar key={index} dataKey={`s${index}`} fill={`var(--color-s${index})`} radius={4} />
+            ))}
+          </BarChart>
+        </ChartContainer>
+      );
+
+    case "line":
+      return (
+        <ChartContainer config={seriesConfig(spec)} className="h-72 w-full aspect-auto">
+          <LineChart data={toRows(spec)} margin={{ left: -8, right: 8, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="category" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {spec.series.map((_, index) => (
+              <Line
+                key={index}
+                type="monotone"
+                dataKey={`s${index}`}
+                stroke={`var(--color-s${index})`}
+                strokeWidth={2}
+                dot={{ r: 3 }}
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      );
+
+    case "pie":
+      return (
+        <div className={`grid gap-4 ${spec.series.length > 1 ? "sm:grid-cols-2" : ""}`}>
+          {spec.series.map((series) => (
+            <div key={series.name} className="text-center">
+              <p className="text-sm font-medium">{series.name}</p>
+              <ChartContainer config={segmentConfig(spec)} className="h-60 w-full aspect-auto">
+                <PieChart>
+                  <ChartTooltip content={<ChartTooltipContent nameKey="segment" hideLabel />} />
+                  <Pie
+                    data={series.values.map((value, index) => ({ segment: `c${index}`, value }))}
+                    dataKey="value"
+                    nameKey="segment"
+                    outerRadius="75%"
+                    label={({ value }) => `${value}${spec.unit === "%" ? "%" : ""}`}
+                  >
+                    {series.values.map((_, index) => (
+                      <Cell key={index} fill={`var(--color-c${index})`} />
+                    ))}
+                  </Pie>
+                  <ChartLegend content={<ChartLegendContent nameKey="segment" />} />
+                </PieChart>
+              </ChartContainer>
+            </div>
+          ))}
+        </div>
+      );
+
+    case "table":
+      return (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{unitLabel ? `Figures${unitLabel}` : ""}</TableHead>
+              {spec.categories.map((category) => (
+                <TableHead key={category} className="text-right">{category}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {spec.series.map((series) => (
+              <TableRow key={series.name}>
+                <TableCell className="font-medium">{series.name}</TableCell>
+                {series.values.map((value, index) => (
+                  <TableCell key={index} className="text-right font-mono">{value.toLocaleString()}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      );
+
+    case "process":
+      return (
+        <ol className="flex flex-col items-center gap-1">
+          {spec.steps.map((step, index) => (
+            <li key={index} className="w-full max-w-md flex flex-col items-center gap-1">
+              <div className="w-full flex items-center gap-3 rounded-xl border border-border bg-background/60 px-4 py-2 text-sm">
+                <span className="w-6 h-6 shrink-0 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-xs font-semibold">
+                  {index + 1}
+                </span>
+                {step}
+              </div>
+              {index < spec.steps.length - 1 && <ArrowDown className="w-4 h-4 text-muted-foreground" />}
+            </li>
+          ))}
+        </ol>
+      );
+
+    case "map":
+      return (
+        <div className="grid sm:grid-cols-2 gap-4">
+          {spec.maps.map((map) => (
+            <div key={map.label} className="rounded-xl border border-border bg-background/60 p-4">
+              <p className="font-semibold mb-2">{map.label}</p>
+              <ul className="list-disc pl-5 space-y-1 text-sm text-muted-foreground">
+                {map.features.map((feature) => (
+                  <li key={feature}>{feature}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      );
   }
 };
 
+/**
+ * Draws the Task 1 visual from a generated data spec rather than an image, so
+ * the figures on screen are exactly the ones the essay is checked against.
+ */
 const IELTSWritingChart = ({ chartType, topic, onChartGenerated }: IELTSWritingChartProps) => {
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [spec, setSpec] = useState<IELTSChartSpec | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [isZoomed, setIsZoomed] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    generateChart();
-  }, [chartType, topic]);
+  // Parents pass inline callbacks; keep the latest without regenerating on every render
+  const onChartGeneratedRef = useRef(onChartGenerated);
+  onChartGeneratedRef.current = onChartGenerated;
 
-  const generateChart = async () => {
+  const generateChart = useCallback(async () => {
     setIsLoading(true);
     setError(null);
 
+    let next: IELTSChartSpec;
     try {
       const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session?.access_token) {
-        // Use placeholder for non-authenticated users
-        setImageUrl(null);
-        onChartGenerated?.(chartConfigs[chartType]?.description || "Chart data visualization");
-        setIsLoading(false);
-        return;
+
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      };
+      if (session?.access_token) {
+        headers.Authorization = `Bearer ${session.access_token}`;
       }
 
-      const config = chartConfigs[chartType] || chartConfigs.bar;
-      
-      // Use Lovable AI Gateway to generate chart
-      const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+      const response = await fetch(GENERATE_CHART_URL, {
         method: "POST",
-        headers: {
-          "Authorization": `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "google/gemini-2.5-flash-image-preview",
-          messages: [
-            {
-              role: "user",
-              content: config.prompt
-            }
-          ],
-          modalities: ["image", "text"]
-        })
+        headers,
+        body: JSON.stringify({ type: chartType, topic: topic || undefined }),
       });
 
       if (!response.ok) {
-        throw new Error("Failed to generate chart");
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Request failed with status ${response.status}`);
       }
 
-      const data = await response.json();
-      const generatedImageUrl = data.choices?.[0]?.message?.images?.[0]?.image_url?.url;
-
-      if (generatedImageUrl) {
-        setImageUrl(generatedImageUrl);
-        onChartGenerated?.(config.description);
-      } else {
-        // Fallback to description only
-        onChartGenerated?.(config.description);
-      }
+      const { data } = await response.json();
+      next = data as IELTSChartSpec;
     } catch (err) {
       console.error("Chart generation error:", err);
-      setError("Could not generate chart. Using description instead.");
-      onChartGenerated?.(chartConfigs[chartType]?.description || "Chart visualization");
-    } finally {
-      setIsLoading(false);
+      setError("Could not generate a new chart. Showing a sample instead.");
+      next = SAMPLE_CHARTS[chartType];
     }
-  };
-
-  const downloadChart = () => {
-    if (imageUrl) {
-      const link = document.createElement("a");
-      link.href = imageUrl;
-      link.download = `ielts-chart-${chartType}.png`;
-      link.click();
-    }
-  };
+
+    setSpec(next);
+    onChartGeneratedRef.current?.(next);
+    setIsLoading(false);
+  }, [chartType, topic]);
+
+  useEffect(() => {
+    generateChart();
+  }, [generateChart]);
 
   return (
     <div className="space-y-4">
-      <div className="relative aspect-video bg-gradient-to-br from-slate-100 to-slate-200 dark:from-slate-800 dark:to-slate-900 rounded-2xl overflow-hidden border border-border">
-        {isLoading ? (
+      <div className="relative min-h-[16rem] bg-gradient-to-br from-slate-100 to-slate-200 dark:from-slate-800 dark:to-slate-900 rounded-2xl overflow-hidden border border-border p-4">
+        {isLoading || !spec ? (
           <div className="absolute inset-0 flex flex-col items-center justify-center gap-4">
             <Loader2 className="w-10 h-10 animate-spin text-primary" />
             <p className="text-sm text-muted-foreground">Generating chart...</p>
           </div>
-        ) : imageUrl ? (
-          <motion.img
-            src={imageUrl}
-            alt={`IELTS Writing Task 1 ${chartType} chart`}
-            className={`w-full h-full object-contain cursor-zoom-in transition-transform ${
-              isZoomed ? "scale-150" : ""
-            }`}
-            onClick={() => setIsZoomed(!isZoomed)}
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-          />
         ) : (
-          <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 p-6 text-center">
-            <div className="w-20 h-20 rounded-2xl bg-gradient-to-br from-amber-400 to-orange-500 flex items-center justify-center">
-              <span className="text-4xl">
-                {chartType === "bar" ? "📊" : 
-                 chartType === "line" ? "📈" : 
-                 chartType === "pie" ? "🥧" : 
-                 chartType === "table" ? "📋" :
-                 chartType === "process" ? "🔄" : "🗺️"}
-              </span>
-            </div>
-            <div className="max-w-md">
-              <h3 className="font-semibold text-lg mb-2 capitalize">{chartType} Chart</h3>
-              <p className="text-sm text-muted-foreground">
-                {chartConfigs[chartType]?.description || "Visualize and analyze the data presented."}
-              </p>
-            </div>
-            {error && (
-              <p className="text-xs text-amber-600">{error}</p>
-            )}
-          </div>
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-3">
+            <h3 className="font-semibold text-center">
+              {spec.title}
+              {spec.unit && spec.type !== "table" && (
+                <span className="font-normal text-muted-foreground"> ({spec.unit})</span>
+              )}
+            </h3>
+            <ChartBody spec={spec} />
+            {error && <p className="text-xs text-amber-600 text-center">{error}</p>}
+          </motion.div>
         )}
       </div>
 
-      <div className="flex gap-2">
-        <Button
-          variant="outline"
-          size="sm"
-          className="rounded-xl"
-          onClick={generateChart}
-          disabled={isLoading}
-        >
-          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
-          Generate New Chart
-        </Button>
-        {imageUrl && (
-          <>
-            <Button
-              variant="outline"
-              size="sm"
-              className="rounded-xl"
-              onClick={() => setIsZoomed(!isZoomed)}
-            >
-              <ZoomIn className="w-4 h-4 mr-2" />
-              {isZoomed ? "Zoom Out" : "Zoom In"}
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              className="rounded-xl"
-              onClick={downloadChart}
-            >
-              <Download className="w-4 h-4 mr-2" />
-              Download
-            </Button>
-          </>
-        )}
-      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="rounded-xl"
+        onClick={generateChart}
+        disabled={isLoading}
+      >
+        <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+        Generate New Chart
+      </Button>
     </div>
   );
 };
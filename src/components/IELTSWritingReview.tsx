@@ -0,0 +1,217 @@
+import { useMemo } from "react";
+import { motion } from "framer-motion";
+import { ArrowRight, CheckCircle2, XCircle } from "lucide-react";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import type { AnnotationCategory, WritingAnnotation, WritingEvaluation } from "@/hooks/useWritingEvaluation";
+import { formatChartValue } from "@/lib/ieltsChart";
+import { describeFigureIssue, type Task1Verification } from "@/lib/task1Verification";
+
+interface IELTSWritingReviewProps {
+  essay: string;
+  evaluation: WritingEvaluation;
+  verification?: Task1Verification | null;
+  chartUnit?: string;
+}
+
+const categoryStyles: Record<AnnotationCategory, { label: string; className: string }> = {
+  grammar: { label: "Grammar", className: "bg-red-500/15 decoration-red-500" },
+  vocabulary: { label: "Vocabulary", className: "bg-amber-500/15 decoration-amber-500" },
+  spelling: { label: "Spelling", className: "bg-pink-500/15 decoration-pink-500" },
+  punctuation: { label: "Punctuation", className: "bg-sky-500/15 decoration-sky-500" },
+  cohesion: { label: "Cohesion", className: "bg-violet-500/15 decoration-violet-500" },
+  task: { label: "Task", className: "bg-emerald-500/15 decoration-emerald-500" },
+};
+
+type Segment = { text: string; annotation?: WritingAnnotation };
+
+// Split the essay into plain and annotated runs, dropping any span that is out of
+// range or overlaps the previous one
+const buildSegments = (essay: string, annotations: WritingAnnotation[]): Segment[] => {
+  const segments: Segment[] = [];
+  let cursor = 0;
+
+  [...annotations]
+    .sort((a, b) => a.start - b.start)
+    .forEach((annotation) => {
+      if (annotation.start < cursor || annotation.end > essay.length || annotation.end <= annotation.start) return;
+      if (annotation.start > cursor) {
+        segments.push({ text: essay.slice(cursor, annotation.start) });
+      }
+      segments.push({ text: essay.slice(annotation.start, annotation.end), annotation });
+      cursor = annotation.end;
+    });
+
+  if (cursor < essay.length) {
+    segments.push({ text: essay.slice(cursor) });
+  }
+
+  return segments;
+};
+
+const IELTSWritingReview = ({ essay, evaluation, verification, chartUnit = "" }: IELTSWritingReviewProps) => {
+  // Figures that disagree with the chart are marked in the essay like examiner annotations
+  const figureAnnotations = useMemo<WritingAnnotation[]>(
+    () =>
+      (verification?.figures ?? [])
+        .filter((figure) => figure.status !== "accurate")
+        .map((figure) => ({
+          start: figure.start,
+          end: figure.end,
+          text: figure.text,
+          category: "task",
+          explanation: describeFigureIssue(figure, chartUnit),
+          suggestion: figure.expected !== null ? formatChartValue(figure.expected, chartUnit) : "",
+        })),
+    [verification, chartUnit]
+  );
+
+  const annotations = useMemo(
+    () => [...figureAnnotations, ...evaluation.annotations],
+    [figureAnnotations, evaluation.annotations]
+  );
+
+  const segments = useMemo(() => buildSegments(essay, annotations), [essay, annotations]);
+
+  const criteria = [
+    { name: evaluation.task === 1 ? "Task Achievement" : "Task Response", score: evaluation.criteria.taskAchievement },
+    { name: "Coherence & Cohesion", score: evaluation.criteria.coherenceCohesion },
+    { name: "Lexical Resource", score: evaluation.criteria.lexicalResource },
+    { name: "Grammatical Range & Accuracy", score: evaluation.criteria.grammaticalRange },
+  ];
+
+  const usedCategories = Array.from(new Set(annotations.map((a) => a.category)));
+  const accurateFigures = verification?.figures.filter((f) => f.status === "accurate").length ?? 0;
+  const hasDataCheck = !!verification && (verification.figures.length > 0 || verification.keyFeatures.length > 0);
+
+  return (
+    <motion.div
+      className="space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="glass-card rounded-2xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="font-semibold">Examiner Assessment</h3>
+            <p className="text-sm text-muted-foreground">{evaluation.wordCount} words</p>
+          </div>
+          <div className="text-right">
+            <span className="text-xs text-muted-foreground block">Overall Band</span>
+            <span className="text-3xl font-bold font-mono text-primary">{evaluation.overallBand.toFixed(1)}</span>
+          </div>
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-3">
+          {criteria.map((criterion) => (
+            <div key={criterion.name} className="rounded-xl bg-muted/50 p-3">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium">{criterion.name}</span>
+                <span className="font-mono font-semibold">{criterion.score.band.toFixed(1)}</span>
+              </div>
+              <p className="text-xs text-muted-foreground leading-relaxed">{criterion.score.comment}</p>
+            </div>
+          ))}
+        </div>
+
+        {evaluation.summary && (
+          <p className="mt-4 text-sm text-muted-foreground leading-relaxed">{evaluation.summary}</p>
+        )}
+      </div>
+
+      {hasDataCheck && verification && (
+        <div className="glass-card rounded-2xl p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold">Data Accuracy</h3>
+            {verification.figures.length > 0 && (
+              <span className="text-sm text-muted-foreground">
+                {accurateFigures} of {verification.figures.length} figures match the chart
+              </span>
+            )}
+          </div>
+
+          {verification.figures.length === 0 && (
+            <p className="text-sm text-muted-foreground mb-4">
+              Your response quotes no figures. Task 1 answers should support the main trends with data.
+            </p>
+          )}
+
+          {verification.keyFeatures.length > 0 && (
+            <>
+              <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Key features</span>
+              <ul className="mt-2 space-y-2">
+                {verification.keyFeatures.map((feature) => (
+                  <li key={feature.description} className="flex items-start gap-2 text-sm">
+                    {feature.covered ? (
+                      <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-success" />
+                    ) : (
+                      <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+                    )}
+                    <span className={feature.covered ? "" : "text-muted-foreground"}>
+                      {feature.description}
+                      {!feature.covered && " — not mentioned"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="glass-card rounded-2xl p-6">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h3 className="font-semibold">Your Essay</h3>
+          <div className="flex flex-wrap gap-2">
+            {usedCategories.map((category) => (
+              <span
+                key={category}
+                className={`text-xs px-2 py-0.5 rounded-full underline decoration-2 ${categoryStyles[category]?.className}`}
+              >
+                {categoryStyles[category]?.label ?? category}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <p className="text-base leading-relaxed whitespace-pre-wrap">
+          {segments.map((segment, index) =>
+            segment.annotation ? (
+              <HoverCard key={index} openDelay={100} closeDelay={50}>
+                <HoverCardTrigger asChild>
+                  <mark
+                    className={`rounded px-0.5 text-foreground underline decoration-wavy decoration-2 underline-offset-4 cursor-help ${
+                      categoryStyles[segment.annotation.category]?.className
+                    }`}
+                  >
+                    {segment.text}
+                  </mark>
+                </HoverCardTrigger>
+                <HoverCardContent className="w-72 space-y-2">
+                  <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                    {categoryStyles[segment.annotation.category]?.label ?? segment.annotation.category}
+                  </span>
+                  <p className="text-sm">{segment.annotation.explanation}</p>
+                  {segment.annotation.suggestion && (
+                    <div className="flex items-start gap-2 text-sm">
+                      <span className="line-through text-muted-foreground">{segment.annotation.text}</span>
+                      <ArrowRight className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+                      <span className="text-success font-medium">{segment.annotation.suggestion}</span>
+                    </div>
+                  )}
+                </HoverCardContent>
+              </HoverCard>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            )
+          )}
+        </p>
+
+        {annotations.length === 0 && (
+          <p className="mt-4 text-sm text-muted-foreground">No specific errors were flagged in this response.</p>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default IELTSWritingReview;
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { ChevronDown, Lightbulb, Loader2, Quote, Sparkles } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import StarBreakdown from "@/components/StarBreakdown";
+import {
+  CRITERION_LABELS,
+  RUBRIC_MAX,
+  type AnswerFeedback,
+  type RubricCriterion,
+} from "@/lib/interviewScoring";
+import type { StarAnalysis } from "@/lib/starAnalysis";
+
+interface InterviewAnswerFeedbackProps {
+  answer: string;
+  feedback?: AnswerFeedback;
+  star?: StarAnalysis;
+  isEvaluating: boolean;
+}
+
+const scoreTone = (score: number) =>
+  score >= 75 ? "bg-emerald-500/15 text-emerald-600 dark:text-emerald-400"
+    : score >= 50 ? "bg-amber-500/15 text-amber-600 dark:text-amber-400"
+    : "bg-red-500/15 text-red-600 dark:text-red-400";
+
+const criteria: RubricCriterion[] = ["relevance", "star", "specificity", "impact", "technical"];
+
+/**
+ * One candidate answer with its rubric feedback. Collapsed it shows the three
+ * headline scores; expanded it adds the tip, a model answer and the rubric.
+ */
+const InterviewAnswerFeedback = ({ answer, feedback, star, isEvaluating }: InterviewAnswerFeedbackProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const headline = feedback
+    ? [
+        { label: "Communication", value: feedback.communication },
+        { label: "Confidence", value: feedback.confidence },
+        { label: "Clarity", value: feedback.clarity },
+      ]
+    : [];
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="glass-card rounded-2xl p-4 space-y-3">
+      <p className="text-sm leading-relaxed line-clamp-3">{answer}</p>
+
+      {star && <StarBreakdown analysis={star} />}
+
+      {!feedback ? (
+        isEvaluating && (
+          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="w-3 h-3 animate-spin" /> Reviewing your answer...
+          </p>
+        )
+      ) : (
+        <>
+          <CollapsibleTrigger className="w-full flex items-center justify-between gap-2 text-left">
+            <div className="flex flex-wrap gap-1.5">
+              {headline.map(({ label, value }) => (
+                <span key={label} className={`px-2 py-0.5 rounded-full text-xs font-medium ${scoreTone(value)}`}>
+                  {label} {value}
+                </span>
+              ))}
+            </div>
+            <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform ${isOpen ? "rotate-180" : ""}`} />
+          </CollapsibleTrigger>
+
+          <CollapsibleContent className="space-y-3 pt-1">
+            {feedback.tip && (
+              <p className="flex items-start gap-2 text-sm">
+                <Lightbulb className="w-4 h-4 mt-0.5 shrink-0 text-primary" />
+                {feedback.tip}
+              </p>
+            )}
+
+            {feedback.modelAnswer && (
+              <div className="rounded-xl bg-primary/5 border border-primary/20 p-3">
+                <p className="flex items-center gap-1.5 text-xs font-medium text-primary mb-1">
+                  <Sparkles className="w-3 h-3" /> Model answer
+                </p>
+                <p className="text-sm leading-relaxed">{feedback.modelAnswer}</p>
+              </div>
+            )}
+
+            <ul className="space-y-1.5">
+              {criteria.map((criterion) => {
+                const { score, evidence } = feedback.rubric[criterion];
+                return (
+                  <li key={criterion} className="text-xs">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">{CRITERION_LABELS[criterion]}</span>
+                      <span className="font-mono">{score}/{RUBRIC_MAX}</span>
+                    </div>
+                    {evidence && (
+                      <p className="flex items-start gap-1.5 text-muted-foreground italic mt-0.5">
+                        <Quote className="w-3 h-3 mt-0.5 shrink-0" />
+                        {evidence}
+                      </p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </CollapsibleContent>
+        </>
+      )}
+    </Collapsible>
+  );
+};
+
+export default InterviewAnswerFeedback;
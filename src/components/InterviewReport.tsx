@@ -1,48 +1,78 @@
-import { useState } from "react";
+import { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import { motion } from "framer-motion";
-import { Download, Star, TrendingUp, MessageSquare, Lightbulb, CheckCircle2, XCircle, Award } from "lucide-react";
+import { Download, Star, TrendingUp, MessageSquare, Lightbulb, CheckCircle2, XCircle, Award, Loader2, Quote, RefreshCw, Code2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-
-interface PerformanceScore {
-  communication: number;
-  technicalKnowledge: number;
-  problemSolving: number;
-  confidence: number;
-  clarity: number;
-}
+import { useInterviewEvaluation } from "@/hooks/useInterviewEvaluation";
+import { codingLanguages, type CodingRoundResult } from "@/lib/codingProblems";
+import {
+  CRITERION_LABELS,
+  RUBRIC_MAX,
+  aggregatePerformance,
+  citeEvidence,
+  pairInterviewAnswers,
+  type AnswerFeedback,
+  type AnswerRubric,
+  type PerformanceDimension,
+} from "@/lib/interviewScoring";
 
 interface InterviewReportProps {
   role: string;
   experienceLevel: string;
+  skills: string[];
   questionCount: number;
-  messages: Array<{ role: "user" | "interviewer"; content: string }>;
+  messages: Array<{ role: "user" | "interviewer"; content: string; feedback?: AnswerFeedback }>;
+  codingResult?: CodingRoundResult | null;
   onClose: () => void;
 }
 
-const InterviewReport = ({ role, experienceLevel, questionCount, messages, onClose }: InterviewReportProps) => {
+const dimensions: { key: PerformanceDimension; label: string; icon: typeof Star }[] = [
+  { key: "communication", label: "Communication", icon: MessageSquare },
+  { key: "technicalKnowledge", label: "Technical Knowledge", icon: Lightbulb },
+  { key: "problemSolving", label: "Problem Solving", icon: TrendingUp },
+  { key: "confidence", label: "Confidence", icon: Star },
+  { key: "clarity", label: "Clarity", icon: CheckCircle2 },
+];
+
+const InterviewReport = ({ role, experienceLevel, skills, questionCount, messages, codingResult = null, onClose }: InterviewReportProps) => {
   const [isGenerating, setIsGenerating] = useState(false);
+  const { rubrics: evaluated, isEvaluating, error, evaluateInterview } = useInterviewEvaluation();
 
-  // Calculate scores based on conversation analysis
-  const calculateScores = (): PerformanceScore => {
-    const userMessages = messages.filter(m => m.role === "user");
-    const avgLength = userMessages.reduce((acc, m) => acc + m.content.length, 0) / Math.max(userMessages.length, 1);
-    
-    // Simple heuristic scoring
-    const communication = Math.min(85 + Math.random() * 10, 95);
-    const technicalKnowledge = Math.min(70 + Math.random() * 20, 90);
-    const problemSolving = Math.min(75 + Math.random() * 15, 90);
-    const confidence = avgLength > 50 ? Math.min(80 + Math.random() * 15, 95) : Math.min(60 + Math.random() * 20, 80);
-    const clarity = Math.min(75 + Math.random() * 15, 90);
-
-    return { communication, technicalKnowledge, problemSolving, confidence, clarity };
-  };
+  // Snapshot the interview as it was when it ended; answers already scored during
+  // the interview keep their rubric and only the rest are sent for evaluation
+  const [answers] = useState(() => pairInterviewAnswers(messages));
+  const [context] = useState(() => ({ role, experienceLevel, skills }));
+  const requestedRef = useRef(false);
+  const unscored = useMemo(() => answers.filter((a) => !a.rubric), [answers]);
 
-  const scores = calculateScores();
+  const rubrics = useMemo<AnswerRubric[] | null>(() => {
+    const scored = unscored.length > 0 ? evaluated : [];
+    if (!scored) return null;
+    let next = 0;
+    return answers.map((a) => a.rubric ?? scored[next++]);
+  }, [answers, unscored, evaluated]);
+
+  const runEvaluation = useCallback(() => {
+    if (unscored.length === 0) return;
+    evaluateInterview(context, unscored.map(({ question, answer }) => ({ question, answer })));
+  }, [unscored, context, evaluateInterview]);
+
+  // Evaluate once when the report opens; later runs only come from the retry button
+  useEffect(() => {
+    if (requestedRef.current) return;
+    requestedRef.current = true;
+    runEvaluation();
+  }, [runEvaluation]);
+
+  // Scores come only from the rubric, so the same interview always gets the same report
+  const scores = aggregatePerformance(rubrics ?? []);
   const overallScore = Math.round(
     (scores.communication + scores.technicalKnowledge + scores.problemSolving + scores.confidence + scores.clarity) / 5
   );
 
+  const codingPassRate = codingResult ? Math.round((codingResult.passed / Math.max(codingResult.total, 1)) * 100) : null;
+  const codingLanguage = codingResult ? codingLanguages.find((l) => l.id === codingResult.language)?.name ?? codingResult.language : "";
+
   const getScoreColor = (score: number) => {
     if (score >= 85) return "text-emerald-500";
     if (score >= 70) return "text-amber-500";
@@ -89,8 +119,7 @@ const InterviewReport = ({ role, experienceLevel, questionCount, messages, onClo
               INTERVIEW PERFORMANCE REPORT
 ═══════════════════════════════════════════════════════════
 
-Role: ${role}
-Level: ${experienceLevel}
+Role: ${role}${experienceLevel ? `\nLevel: ${experienceLevel}` : ""}
 Questions Answered: ${questionCount}
 Date: ${new Date().toLocaleDateString()}
 
@@ -100,13 +129,18 @@ Date: ${new Date().toLocaleDateString()}
 ───────────────────────────────────────────────────────────
 
 DETAILED SCORES:
-• Communication:        ${Math.round(scores.communication)}/100
-• Technical Knowledge:  ${Math.round(scores.technicalKnowledge)}/100
-• Problem Solving:      ${Math.round(scores.problemSolving)}/100
-• Confidence:           ${Math.round(scores.confidence)}/100
-• Clarity:              ${Math.round(scores.clarity)}/100
+${dimensions.map(({ key, label }) => {
+  const line = `• ${`${label}:`.padEnd(22)}${scores[key]}/100`;
+  const cited = citeEvidence(rubrics ?? [], key)
+    .map(c => `    "${c.excerpt}" (answer ${c.answerIndex + 1}, ${CRITERION_LABELS[c.criterion]} ${c.score}/${RUBRIC_MAX})`);
+  return [line, ...cited].join('\n');
+}).join('\n')}
 
-───────────────────────────────────────────────────────────
+${codingResult ? `───────────────────────────────────────────────────────────
+CODING ROUND: ${codingResult.title} (${codingLanguage})
+Tests passed: ${codingResult.passed}/${codingResult.total} (${codingPassRate}%)
+
+` : ""}───────────────────────────────────────────────────────────
 STRENGTHS:
 ${strengths.map(s => `✓ ${s}`).join('\n')}
 
@@ -157,82 +191,126 @@ ${messages.map(m => `[${m.role === 'user' ? 'YOU' : 'INTERVIEWER'}]: ${m.content
           <div className="flex items-center justify-between">
             <div>
               <h2 className="text-2xl font-bold text-white">Performance Report</h2>
-              <p className="text-white/80">{role} • {experienceLevel}</p>
+              <p className="text-white/80">{role}{experienceLevel && ` • ${experienceLevel}`}</p>
             </div>
             <Award className="w-12 h-12 text-white/90" />
           </div>
         </div>
 
         <div className="p-6 space-y-6">
-          {/* Overall Score */}
-          <div className="text-center p-6 rounded-2xl bg-gradient-to-br from-primary/10 to-primary/5 border border-primary/20">
-            <p className="text-sm text-muted-foreground mb-2">Overall Score</p>
-            <div className={`text-6xl font-bold ${getScoreColor(overallScore)}`}>
-              {overallScore}
-            </div>
-            <p className="text-lg font-medium mt-2">{getScoreLabel(overallScore)}</p>
-            <p className="text-sm text-muted-foreground mt-1">
-              Based on {questionCount} questions answered
-            </p>
-          </div>
+          {rubrics ? (
+            <>
+              {/* Overall Score */}
+              <div className="text-center p-6 rounded-2xl bg-gradient-to-br from-primary/10 to-primary/5 border border-primary/20">
+                <p className="text-sm text-muted-foreground mb-2">Overall Score</p>
+                <div className={`text-6xl font-bold ${getScoreColor(overallScore)}`}>
+                  {overallScore}
+                </div>
+                <p className="text-lg font-medium mt-2">{getScoreLabel(overallScore)}</p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Based on {answers.length} answers to {questionCount} questions
+                </p>
+              </div>
 
-          {/* Detailed Scores */}
-          <div className="space-y-4">
-            <h3 className="font-semibold flex items-center gap-2">
-              <TrendingUp className="w-4 h-4" /> Detailed Breakdown
-            </h3>
+              {/* Detailed Scores */}
+              <div className="space-y-4">
+                <h3 className="font-semibold flex items-center gap-2">
+                  <TrendingUp className="w-4 h-4" /> Detailed Breakdown
+                </h3>
             
-            {[
-              { label: "Communication", score: scores.communication, icon: MessageSquare },
-              { label: "Technical Knowledge", score: scores.technicalKnowledge, icon: Lightbulb },
-              { label: "Problem Solving", score: scores.problemSolving, icon: TrendingUp },
-              { label: "Confidence", score: scores.confidence, icon: Star },
-              { label: "Clarity", score: scores.clarity, icon: CheckCircle2 },
-            ].map(({ label, score, icon: Icon }) => (
-              <div key={label} className="space-y-1">
-                <div className="flex items-center justify-between text-sm">
-                  <span className="flex items-center gap-2">
-                    <Icon className="w-4 h-4 text-muted-foreground" />
-                    {label}
-                  </span>
-                  <span className={`font-medium ${getScoreColor(score)}`}>{Math.round(score)}%</span>
-                </div>
-                <Progress value={score} className="h-2" />
+                {dimensions.map(({ key, label, icon: Icon }) => {
+                  const citations = citeEvidence(rubrics, key);
+                  return (
+                    <div key={key} className="space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="flex items-center gap-2">
+                          <Icon className="w-4 h-4 text-muted-foreground" />
+                          {label}
+                        </span>
+                        <span className={`font-medium ${getScoreColor(scores[key])}`}>{scores[key]}%</span>
+                      </div>
+                      <Progress value={scores[key]} className="h-2" />
+                      {citations.map((citation, i) => (
+                        <p key={i} className="flex items-start gap-2 text-xs text-muted-foreground pl-6 pt-1">
+                          <Quote className="w-3 h-3 mt-0.5 shrink-0" />
+                          <span>
+                            <span className="italic">"{citation.excerpt}"</span>
+                            {" "}· Answer {citation.answerIndex + 1}, {CRITERION_LABELS[citation.criterion]} {citation.score}/{RUBRIC_MAX}
+                          </span>
+                        </p>
+                      ))}
+                    </div>
+                  );
+                })}
               </div>
-            ))}
-          </div>
 
-          {/* Strengths */}
-          {strengths.length > 0 && (
-            <div className="p-4 rounded-2xl bg-emerald-500/10 border border-emerald-500/20">
-              <h3 className="font-semibold flex items-center gap-2 text-emerald-600 dark:text-emerald-400 mb-3">
-                <CheckCircle2 className="w-4 h-4" /> Your Strengths
-              </h3>
-              <ul className="space-y-2">
-                {strengths.map((s, i) => (
-                  <li key={i} className="flex items-start gap-2 text-sm">
-                    <span className="text-emerald-500 mt-0.5">✓</span>
-                    {s}
-                  </li>
-                ))}
-              </ul>
-            </div>
-          )}
+              {/* Coding Round */}
+              {codingResult && codingPassRate !== null && (
+                <div className="p-4 rounded-2xl bg-muted/50 border border-border/50 space-y-2">
+                  <h3 className="font-semibold flex items-center gap-2">
+                    <Code2 className="w-4 h-4" /> Coding Round
+                  </h3>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">{codingResult.title} · {codingLanguage}</span>
+                    <span className={`font-medium ${getScoreColor(codingPassRate)}`}>
+                      {codingResult.passed}/{codingResult.total} tests passed
+                    </span>
+                  </div>
+                  <Progress value={codingPassRate} className="h-2" />
+                </div>
+              )}
+
+              {/* Strengths */}
+              {strengths.length > 0 && (
+                <div className="p-4 rounded-2xl bg-emerald-500/10 border border-emerald-500/20">
+                  <h3 className="font-semibold flex items-center gap-2 text-emerald-600 dark:text-emerald-400 mb-3">
+                    <CheckCircle2 className="w-4 h-4" /> Your Strengths
+                  </h3>
+                  <ul className="space-y-2">
+                    {strengths.map((s, i) => (
+                      <li key={i} className="flex items-start gap-2 text-sm">
+                        <span className="text-emerald-500 mt-0.5">✓</span>
+                        {s}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
 
-          {/* Improvements */}
-          {improvements.length > 0 && (
-            <div className="p-4 rounded-2xl bg-amber-500/10 border border-amber-500/20">
-              <h3 className="font-semibold flex items-center gap-2 text-amber-600 dark:text-amber-400 mb-3">
-                <XCircle className="w-4 h-4" /> Areas to Improve
-              </h3>
-              <ul className="space-y-2">
-                {improvements.map((s, i) => (
-                  <li key={i} className="flex items-start gap-2 text-sm">
-                    <span className="text-amber-500 mt-0.5">•</span>
-                    {s}
-                  </li>
-                ))}
-              </ul>
+              {/* Improvements */}
+              {improvements.length > 0 && (
+                <div className="p-4 rounded-2xl bg-amber-500/10 border border-amber-500/20">
+                  <h3 className="font-semibold flex items-center gap-2 text-amber-600 dark:text-amber-400 mb-3">
+                    <XCircle className="w-4 h-4" /> Areas to Improve
+                  </h3>
+                  <ul className="space-y-2">
+                    {improvements.map((s, i) => (
+                      <li key={i} className="flex items-start gap-2 text-sm">
+                        <span className="text-amber-500 mt-0.5">•</span>
+                        {s}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="flex flex-col items-center gap-3 p-8 rounded-2xl bg-muted/50 text-center">
+              {answers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Answer at least one question to get a scored report.</p>
+              ) : isEvaluating || !error ? (
+                <>
+                  <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                  <p className="text-sm text-muted-foreground">Scoring your answers against the rubric...</p>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-muted-foreground">Couldn't score this interview: {error}</p>
+                  <Button variant="outline" onClick={runEvaluation} className="rounded-xl">
+                    <RefreshCw className="w-4 h-4 mr-2" /> Try Again
+                  </Button>
+                </>
+              )}
             </div>
           )}
 
@@ -262,7 +340,7 @@ ${messages.map(m => `[${m.role === 'user' ? 'YOU' : 'INTERVIEWER'}]: ${m.content
             </Button>
             <Button
               onClick={downloadReport}
-              disabled={isGenerating}
+              disabled={isGenerating || !rubrics}
               className="flex-1 h-12 rounded-xl bg-gradient-to-r from-rose-500 to-pink-500 hover:opacity-90"
             >
               {isGenerating ? (
@@ -1,5 +1,7 @@
 import { motion } from "framer-motion";
-import { Check, Circle, User, Brain, Briefcase, MessageSquare, Award } from "lucide-react";
+import { Check, Circle, User, Brain, Briefcase, MessageSquare, Award, Code2 } from "lucide-react";
+import type { ResumeAnalysis, ResumeGapAnalysis } from "@/lib/resume";
+import type { CodingProblem, CodingRoundResult } from "@/lib/codingProblems";
 
 interface InterviewStage {
   id: string;
@@ -8,7 +10,7 @@ interface InterviewStage {
   description: string;
 }
 
-const stages: InterviewStage[] = [
+const baseStages: InterviewStage[] = [
   { id: "intro", name: "Introduction", icon: User, description: "Tell me about yourself" },
   { id: "hr", name: "HR Round", icon: MessageSquare, description: "Behavioral & culture fit" },
   { id: "technical", name: "Technical Round", icon: Brain, description: "Skills & problem-solving" },
@@ -16,17 +18,34 @@ const stages: InterviewStage[] = [
   { id: "feedback", name: "Final Feedback", icon: Award, description: "Overall assessment" },
 ];
 
+const codingStage: InterviewStage = { id: "coding", name: "Coding Round", icon: Code2, description: "Live coding exercise" };
+
+// Technical interviews give questions 4 and 5 to the coding round: the problem, then the follow-up
+export const CODING_STAGE_START = 4;
+export const CODING_STAGE_END = 5;
+
 interface Props {
   currentStage: string;
   questionCount: number;
+  includeCoding?: boolean;
 }
 
-export const InterviewStages = ({ currentStage, questionCount }: Props) => {
+export const InterviewStages = ({ currentStage, questionCount, includeCoding = false }: Props) => {
+  const stages = includeCoding
+    ? [...baseStages.slice(0, 3), codingStage, ...baseStages.slice(3)]
+    : baseStages;
+
   // Determine stage based on question count
   const getStageFromCount = (count: number): string => {
     if (count <= 1) return "intro";
-    if (count <= 3) return "hr";
-    if (count <= 5) return "technical";
+    if (includeCoding) {
+      if (count <= 2) return "hr";
+      if (count < CODING_STAGE_START) return "technical";
+      if (count <= CODING_STAGE_END) return "coding";
+    } else {
+      if (count <= 3) return "hr";
+      if (count <= 5) return "technical";
+    }
     if (count <= 7) return "situational";
     return "feedback";
   };
@@ -86,7 +105,101 @@ export const InterviewStages = ({ currentStage, questionCount }: Props) => {
   );
 };
 
-export const getInterviewStagePrompt = (questionCount: number, jdAnalysis: any): string => {
+interface StageJobContext {
+  role?: string;
+  skills?: string[];
+  experienceLevel?: string;
+}
+
+interface ResumeContext {
+  resume: ResumeAnalysis;
+  gaps: ResumeGapAnalysis | null;
+}
+
+// Picks the resume entry or gap this question should probe; each stage walks
+// through its entries in order so consecutive questions cover different ones
+const getResumeFocus = (questionCount: number, { resume, gaps }: ResumeContext): string => {
+  const pick = <T,>(items: T[], offset: number): T | undefined =>
+    items.length ? items[(questionCount - offset) % items.length] : undefined;
+
+  if (questionCount <= 1) {
+    const latest = resume.roles[0];
+    return latest
+      ? `Ask them to connect their current role (${latest.title}${latest.company ? ` at ${latest.company}` : ""}) to this position.`
+      : "";
+  }
+
+  if (questionCount <= 3) {
+    const role = pick(resume.roles, 2);
+    if (!role) return "";
+    const highlight = role.highlights[0] ? ` They claim: "${role.highlights[0]}".` : "";
+    return `Probe their time as ${role.title}${role.company ? ` at ${role.company}` : ""}.${highlight} Ask for a concrete example of what they personally did.`;
+  }
+
+  if (questionCount <= 5) {
+    const missing = gaps?.missingSkills ?? [];
+    if (questionCount === 5 && missing.length) {
+      return `Their resume shows no experience with ${missing.slice(0, 3).join(", ")}. Ask how they would handle work that needs it.`;
+    }
+    const project = pick(resume.projects, 4);
+    return project
+      ? `Dig into their project "${project.name}"${project.technologies.length ? ` (${project.technologies.join(", ")})` : ""}: design decisions, trade-offs and their own contribution.`
+      : "";
+  }
+
+  if (questionCount <= 7) {
+    const gap = pick(gaps?.gaps ?? [], 6);
+    return gap ? `Test this gap between resume and job (${gap.area}: ${gap.detail}). For example: "${gap.probe}"` : "";
+  }
+
+  return "";
+};
+
+interface CodingContext {
+  problem: CodingProblem;
+  submission: CodingRoundResult | null;
+  // The reply being answered is the submission itself, whatever the question count
+  justSubmitted: boolean;
+}
+
+const getCodingInstructions = (questionCount: number, { problem, submission }: CodingContext): string => {
+  if (!submission) {
+    if (questionCount === CODING_STAGE_START) {
+      return `STAGE: Coding Round
+Introduce a live coding exercise, "${problem.title}": ${problem.description}
+Tell them the problem and examples are in the editor below, that they can pick JavaScript, TypeScript or Python, and should press Submit when done.
+Do NOT hint at the solution.`;
+    }
+    return `STAGE: Coding Round (in progress)
+The candidate is still working on "${problem.title}" and has not submitted yet.
+Answer their question briefly without giving away the solution, then encourage them to submit.`;
+  }
+
+  return `STAGE: Coding Round Follow-up
+The candidate submitted this ${submission.language} solution to "${problem.title}" and it passed ${submission.passed} of ${submission.total} tests (including hidden edge cases):
+\`\`\`
+${submission.code.slice(0, 3000)}
+\`\`\`
+Refer to their actual code. Ask about its time and space complexity${submission.passed < submission.total ? ", and which edge cases it might be missing" : ", and how it would change for much larger inputs"}.`;
+};
+
+export const getInterviewStagePrompt = (
+  questionCount: number,
+  jdAnalysis: StageJobContext | null,
+  resumeContext?: ResumeContext | null,
+  codingContext?: CodingContext | null
+): string => {
+  const inCodingStage = questionCount >= CODING_STAGE_START && questionCount <= CODING_STAGE_END;
+  if (codingContext && (codingContext.justSubmitted || inCodingStage)) {
+    return getCodingInstructions(questionCount, codingContext);
+  }
+
+  const prompt = getStageInstructions(questionCount, jdAnalysis);
+  const focus = resumeContext ? getResumeFocus(questionCount, resumeContext) : "";
+  return focus ? `${prompt}\n\nRESUME FOCUS:\n${focus}` : prompt;
+};
+
+const getStageInstructions = (questionCount: number, jdAnalysis: StageJobContext | null): string => {
   const role = jdAnalysis?.role || "this position";
   const skills = jdAnalysis?.skills?.join(", ") || "relevant skills";
   
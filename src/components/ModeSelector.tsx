@@ -1,7 +1,8 @@
 import { motion } from "framer-motion";
 import { MessageCircle, Briefcase, GraduationCap, BookOpen, Heart } from "lucide-react";
 
-export type ConversationMode = "friend" | "interviewer" | "mentor" | "studybuddy" | "therapist";
+// "language" is the language tutor's mode; it isn't offered in this selector
+export type ConversationMode = "friend" | "interviewer" | "mentor" | "studybuddy" | "therapist" | "language";
 
 interface ModeSelectorProps {
   currentMode: ConversationMode;
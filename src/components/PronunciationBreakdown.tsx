@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { AudioLines } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { weakestPhonemes, type PronunciationAssessment, type WordScore } from "@/lib/pronunciation";
+
+interface PronunciationBreakdownProps {
+  assessment: PronunciationAssessment;
+  compact?: boolean;
+}
+
+const scoreTone = (score: number) =>
+  score >= 80 ? "text-success" : score >= 60 ? "text-amber-600" : "text-destructive";
+
+const wordStyle = (word: WordScore) => {
+  if (word.errorType === "omission") return "line-through text-muted-foreground";
+  if (word.errorType === "insertion") return "italic text-muted-foreground";
+  if (word.score >= 80) return "bg-success/15 text-success";
+  if (word.score >= 60) return "bg-amber-500/15 text-amber-600";
+  return "bg-destructive/15 text-destructive";
+};
+
+/**
+ * Per-word and per-sound breakdown of a pronunciation attempt. Tap a word to
+ * see how each of its sounds scored.
+ */
+const PronunciationBreakdown = ({ assessment, compact = false }: PronunciationBreakdownProps) => {
+  const words = assessment.words.filter((w) => w.word);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(() => {
+    const weakest = words.reduce<number | null>(
+      (worst, word, index) =>
+        word.phonemes.length > 0 && (worst === null || word.score < words[worst].score) ? index : worst,
+      null
+    );
+    return weakest;
+  });
+  const selected = selectedIndex !== null ? words[selectedIndex] : null;
+  const practice = weakestPhonemes(assessment);
+
+  const metrics = [
+    { label: "Accuracy", value: assessment.accuracy },
+    { label: "Completeness", value: assessment.completeness },
+    ...(assessment.fluency !== null ? [{ label: "Fluency", value: assessment.fluency }] : []),
+  ];
+
+  return (
+    <motion.div
+      className={`glass-card rounded-2xl space-y-4 ${compact ? "p-4" : "p-6"}`}
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <AudioLines className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold">Pronunciation</h3>
+        </div>
+        <span className={`text-2xl font-bold font-mono ${scoreTone(assessment.overall)}`}>{assessment.overall}</span>
+      </div>
+
+      {!compact && (
+        <div className="grid grid-cols-3 gap-3">
+          {metrics.map((metric) => (
+            <div key={metric.label} className="space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{metric.label}</span>
+                <span className="font-mono">{metric.value}</span>
+              </div>
+              <Progress value={metric.value} className="h-1.5" />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-1.5">
+        {words.map((word, index) => (
+          <button
+            key={index}
+            onClick={() => setSelectedIndex(word.phonemes.length > 0 ? index : null)}
+            className={`px-2 py-1 rounded-lg text-sm font-medium transition-all ${wordStyle(word)} ${
+              selectedIndex === index ? "ring-2 ring-primary" : ""
+            } ${word.phonemes.length > 0 ? "cursor-pointer" : "cursor-default"}`}
+            title={word.errorType === "none" ? `${word.score}/100` : word.errorType}
+          >
+            {word.word}
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="rounded-xl bg-muted/50 p-3">
+          <p className="text-xs text-muted-foreground mb-2">
+            Sounds in <span className="font-medium text-foreground">{selected.word}</span>
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {selected.phonemes.map((phoneme, index) => (
+              <div key={index} className="flex flex-col items-center min-w-[2.5rem]">
+                <span className={`font-mono text-base ${scoreTone(phoneme.score)}`}>/{phoneme.phoneme}/</span>
+                <span className="text-[10px] text-muted-foreground font-mono">{phoneme.score}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {practice.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Sounds to practise:</span>
+          {practice.map((phoneme) => (
+            <span key={phoneme.phoneme} className="px-2 py-0.5 rounded-full bg-destructive/10 text-destructive font-mono">
+              /{phoneme.phoneme}/
+            </span>
+          ))}
+        </div>
+      )}
+
+      {assessment.source === "transcript" && (
+        <p className="text-xs text-muted-foreground">
+          Estimated from speech recognition. Sound-level scores need the pronunciation scorer.
+        </p>
+      )}
+    </motion.div>
+  );
+};
+
+export default PronunciationBreakdown;
@@ -0,0 +1,76 @@
+import { starComponents, type StarAnalysis } from "@/lib/starAnalysis";
+
+interface StarBreakdownProps {
+  analysis: StarAnalysis;
+}
+
+const lengthLabels: Record<StarAnalysis["length"], string> = {
+  short: "Too short",
+  good: "Good length",
+  long: "Too long",
+};
+
+// Above this many fillers per 100 words the answer starts to sound hesitant
+const FILLER_RATE_LIMIT = 3;
+
+/**
+ * Chip row showing which STAR parts an answer covers, plus filler rate and
+ * length. Hover a chip to see the text it was matched to.
+ */
+const StarBreakdown = ({ analysis }: StarBreakdownProps) => {
+  const firstMissing = starComponents.find((c) => analysis.missing.includes(c.id));
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {starComponents.map((component) => {
+          const isMissing = analysis.missing.includes(component.id);
+          const matched = analysis.segments
+            .filter((s) => s.component === component.id)
+            .map((s) => s.text)
+            .join(" … ");
+
+          return (
+            <span
+              key={component.id}
+              title={isMissing ? component.hint : matched}
+              className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                isMissing
+                  ? "border border-dashed border-destructive/50 text-destructive"
+                  : "bg-emerald-500/15 text-emerald-600 dark:text-emerald-400"
+              }`}
+            >
+              {component.letter} · {component.name}
+            </span>
+          );
+        })}
+
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs ${
+            analysis.fillerRate > FILLER_RATE_LIMIT ? "bg-amber-500/15 text-amber-600 dark:text-amber-400" : "bg-muted text-muted-foreground"
+          }`}
+        >
+          {analysis.fillerCount} fillers ({analysis.fillerRate}/100 words)
+        </span>
+
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs ${
+            analysis.length === "good" ? "bg-muted text-muted-foreground" : "bg-amber-500/15 text-amber-600 dark:text-amber-400"
+          }`}
+        >
+          {lengthLabels[analysis.length]}: {analysis.wordCount} words
+          {analysis.durationSeconds !== null && `, ${analysis.durationSeconds}s`}
+          {analysis.wordsPerMinute !== null && ` (${analysis.wordsPerMinute} wpm)`}
+        </span>
+      </div>
+
+      {firstMissing && (
+        <p className="text-xs text-muted-foreground">
+          Missing {firstMissing.name.toLowerCase()}: {firstMissing.hint}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default StarBreakdown;
@@ -1,6 +1,15 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import {
+  hasGuestData,
+  importGuestDataToAccount,
+  summarizeGuestData,
+  type GuestDataSummary,
+} from "@/lib/guestImport";
+
+// Set when the user declines the import, so the offer is not repeated this session
+const GUEST_IMPORT_DISMISSED_KEY = "yourbuddy_guest_import_dismissed";
 
 interface AuthContextType {
   user: User | null;
@@ -10,6 +19,9 @@ interface AuthContextType {
   signUp: (email: string, password: string) => Promise<{ error: Error | null }>;
   signInWithGoogle: () => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
+  pendingGuestImport: GuestDataSummary | null;
+  importGuestData: () => Promise<{ error: Error | null }>;
+  dismissGuestImport: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -18,6 +30,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [pendingGuestImport, setPendingGuestImport] = useState<GuestDataSummary | null>(null);
 
   useEffect(() => {
     // Set up auth state listener FIRST
@@ -26,6 +39,13 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         setSession(session);
         setUser(session?.user ?? null);
         setIsLoading(false);
+
+        // Offer to bring anything done as a guest on this device into the account
+        if (event === "SIGNED_IN" && session?.user && sessionStorage.getItem(GUEST_IMPORT_DISMISSED_KEY) !== "true") {
+          summarizeGuestData()
+            .then((summary) => setPendingGuestImport(hasGuestData(summary) ? summary : null))
+            .catch((error) => console.error("Error checking guest data:", error));
+        }
       }
     );
 
@@ -69,8 +89,39 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     await supabase.auth.signOut();
   };
 
+  const importGuestData = async () => {
+    if (!user) return { error: new Error("Not signed in") };
+
+    try {
+      await importGuestDataToAccount(user.id);
+      setPendingGuestImport(null);
+      return { error: null };
+    } catch (error) {
+      console.error("Error importing guest data:", error);
+      return { error: error instanceof Error ? error : new Error("Import failed") };
+    }
+  };
+
+  const dismissGuestImport = () => {
+    sessionStorage.setItem(GUEST_IMPORT_DISMISSED_KEY, "true");
+    setPendingGuestImport(null);
+  };
+
   return (
-    <AuthContext.Provider value={{ user, session, isLoading, signIn, signUp, signInWithGoogle, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        isLoading,
+        signIn,
+        signUp,
+        signInWithGoogle,
+        signOut,
+        pendingGuestImport,
+        importGuestData,
+        dismissGuestImport,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,71 @@
+// Goethe-Zertifikat Hören formats per level, modelled on the official exam structure
+
+import type { CEFRLevel } from "@/lib/cefrPlacement";
+
+export type HoerenAnswerFormat = "multiple-choice" | "richtig-falsch" | "ja-nein" | "zuordnung" | "notizen";
+
+export interface HoerenTeil {
+  teil: number;
+  title: string;
+  description: string;
+  textType: string;
+  format: HoerenAnswerFormat;
+  items: number;
+  plays: number;
+}
+
+export interface HoerenLevelFormat {
+  durationMinutes: number;
+  teile: HoerenTeil[];
+}
+
+export const hoerenFormats: Record<CEFRLevel, HoerenLevelFormat> = {
+  A1: {
+    durationMinutes: 20,
+    teile: [
+      { teil: 1, title: "Kurze Gespräche", description: "Sie hören sechs kurze Gespräche. Kreuzen Sie die richtige Lösung an.", textType: "six short everyday dialogues", format: "multiple-choice", items: 6, plays: 2 },
+      { teil: 2, title: "Durchsagen", description: "Sie hören vier Durchsagen. Kreuzen Sie an: Richtig oder Falsch.", textType: "four public announcements (station, shop, airport)", format: "richtig-falsch", items: 4, plays: 1 },
+      { teil: 3, title: "Ansagen am Telefon", description: "Sie hören fünf Ansagen am Telefon. Kreuzen Sie die richtige Lösung an.", textType: "five telephone voicemail messages", format: "multiple-choice", items: 5, plays: 2 },
+    ],
+  },
+  A2: {
+    durationMinutes: 30,
+    teile: [
+      { teil: 1, title: "Radio und Telefon", description: "Sie hören fünf kurze Texte. Wählen Sie die richtige Lösung.", textType: "five short radio announcements and phone messages", format: "multiple-choice", items: 5, plays: 2 },
+      { teil: 2, title: "Gespräch", description: "Sie hören ein Gespräch. Ordnen Sie die Informationen zu.", textType: "one conversation between two friends about a week's plans", format: "zuordnung", items: 5, plays: 1 },
+      { teil: 3, title: "Kurze Gespräche", description: "Sie hören fünf kurze Gespräche. Wählen Sie die richtige Lösung.", textType: "five short everyday dialogues", format: "multiple-choice", items: 5, plays: 1 },
+      { teil: 4, title: "Interview", description: "Sie hören ein Interview. Wählen Sie: Ja oder Nein.", textType: "one radio interview with a guest", format: "ja-nein", items: 5, plays: 2 },
+    ],
+  },
+  B1: {
+    durationMinutes: 40,
+    teile: [
+      { teil: 1, title: "Kurze Texte", description: "Sie hören fünf kurze Texte. Entscheiden Sie, ob die Aussagen richtig oder falsch sind.", textType: "five short texts (announcements, voicemail, radio)", format: "richtig-falsch", items: 5, plays: 2 },
+      { teil: 2, title: "Führung", description: "Sie hören einen Vortrag. Wählen Sie die richtige Lösung.", textType: "one guided tour or information talk", format: "multiple-choice", items: 5, plays: 1 },
+      { teil: 3, title: "Gespräch", description: "Sie hören ein Gespräch. Entscheiden Sie, ob die Aussagen richtig oder falsch sind.", textType: "one informal conversation between two people", format: "richtig-falsch", items: 7, plays: 1 },
+      { teil: 4, title: "Diskussion", description: "Sie hören eine Diskussion. Wer sagt was? Ordnen Sie zu.", textType: "one radio discussion between a moderator and two guests", format: "zuordnung", items: 8, plays: 2 },
+    ],
+  },
+  B2: {
+    durationMinutes: 40,
+    teile: [
+      { teil: 1, title: "Kurze Texte", description: "Sie hören fünf kurze Texte. Entscheiden Sie, ob die Aussagen richtig oder falsch sind.", textType: "five short texts (news, announcements, messages)", format: "richtig-falsch", items: 5, plays: 1 },
+      { teil: 2, title: "Interview", description: "Sie hören ein Interview. Wählen Sie die richtige Lösung.", textType: "one radio interview with an expert", format: "multiple-choice", items: 6, plays: 2 },
+      { teil: 3, title: "Meinungen", description: "Sie hören fünf kurze Äußerungen. Wählen Sie die richtige Lösung.", textType: "five short opinion statements on a topic", format: "multiple-choice", items: 5, plays: 1 },
+      { teil: 4, title: "Vortrag", description: "Sie hören einen Vortrag. Wählen Sie die richtige Lösung.", textType: "one academic or professional lecture", format: "multiple-choice", items: 8, plays: 2 },
+    ],
+  },
+  C1: {
+    durationMinutes: 40,
+    teile: [
+      { teil: 1, title: "Notizen", description: "Sie hören ein Telefongespräch. Ergänzen Sie die Notizen in Stichworten.", textType: "one telephone conversation with detailed information", format: "notizen", items: 10, plays: 1 },
+      { teil: 2, title: "Radiosendung", description: "Sie hören eine Radiosendung. Wählen Sie die richtige Lösung.", textType: "one radio feature with several speakers", format: "multiple-choice", items: 10, plays: 2 },
+    ],
+  },
+};
+
+// Fixed answer options for formats that don't need generated options
+export const fixedHoerenOptions: Partial<Record<HoerenAnswerFormat, string[]>> = {
+  "richtig-falsch": ["Richtig", "Falsch"],
+  "ja-nein": ["Ja", "Nein"],
+};
@@ -0,0 +1,99 @@
+import { useState, useCallback, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { CEFR_LEVELS, type CEFRLevel } from "@/lib/cefrPlacement";
+import { loadGuestRecord, saveGuestRecord } from "@/lib/guestStore";
+
+export interface PlacementResult {
+  level: CEFRLevel;
+  testedAt: string;
+}
+
+type PlacementResults = Record<string, PlacementResult>;
+
+interface CEFRLevelsHook {
+  levels: PlacementResults;
+  isLoading: boolean;
+  saveLevel: (language: string, level: CEFRLevel) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+// Drops anything that is not a well-formed result so stale data cannot break the picker
+const parseResults = (value: unknown): PlacementResults => {
+  if (!value || typeof value !== "object") return {};
+
+  const results: PlacementResults = {};
+  Object.entries(value as Record<string, Partial<PlacementResult>>).forEach(([language, result]) => {
+    if (result?.level && CEFR_LEVELS.includes(result.level) && result.testedAt) {
+      results[language] = { level: result.level, testedAt: result.testedAt };
+    }
+  });
+  return results;
+};
+
+const loadGuestLevels = async (): Promise<PlacementResults> =>
+  parseResults(await loadGuestRecord<PlacementResults>("cefr_levels"));
+
+export const useCEFRLevels = (): CEFRLevelsHook => {
+  const [levels, setLevels] = useState<PlacementResults>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        setLevels(await loadGuestLevels());
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("cefr_levels")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      setLevels(parseResults(data?.cefr_levels));
+    } catch (error) {
+      console.error("Error loading CEFR levels:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const saveLevel = useCallback(async (language: string, level: CEFRLevel) => {
+    const next = { ...levels, [language]: { level, testedAt: new Date().toISOString() } };
+    setLevels(next);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        await saveGuestRecord("cefr_levels", next);
+        return;
+      }
+
+      const { error } = await supabase
+        .from("profiles")
+        .upsert({ user_id: user.id, cefr_levels: next as unknown as Json }, { onConflict: "user_id" });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error saving CEFR level:", error);
+    }
+  }, [levels]);
+
+  return {
+    levels,
+    isLoading,
+    saveLevel,
+    refresh,
+  };
+};
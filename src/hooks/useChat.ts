@@ -1,5 +1,6 @@
 import { useState, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { notifyRateLimit, readRateLimit } from "@/lib/rateLimit";
 
 type Message = { role: "user" | "assistant"; content: string };
 type ConversationMode = "friend" | "interviewer" | "mentor" | "studybuddy" | "therapist" | "language";
@@ -8,7 +9,9 @@ const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`;
 
 interface ChatOptions {
   userName?: string | null;
-  conversationContext?: string;
+  // Task instructions the server adds to the system prompt
+  instructions?: string;
+  conversationId?: string | null;
 }
 
 export const useChat = () => {
@@ -42,14 +45,22 @@ export const useChat = () => {
           method: "POST",
           headers,
 
+          // Saved conversations only send the new turn; the server loads and stores history
           body: JSON.stringify({ 
-            messages: updatedMessages, 
+            ...(options?.conversationId
+              ? { message: content, conversationId: options.conversationId }
+              : { messages: updatedMessages }),
             mode,
             userName: options?.userName,
-            conversationContext: options?.conversationContext,
+            instructions: options?.instructions,
           }),
         });
 
+        const quota = readRateLimit(response);
+        if (quota) {
+          notifyRateLimit(quota, "Chat");
+        }
+
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({}));
           throw new Error(errorData.error || `Request failed with status ${response.status}`);
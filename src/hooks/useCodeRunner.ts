@@ -0,0 +1,83 @@
+import { useState, useCallback, useRef, useEffect } from "react";
+import type { CodingLanguage, CodingRunResult, CodingTest } from "@/lib/codingProblems";
+import type { RunRequest, RunResponse } from "@/lib/codeRunner.worker";
+
+// Execution budget once the runtime is ready; loading Pyodide has its own, longer limit
+const RUN_TIMEOUT_MS = 5000;
+const LOAD_TIMEOUT_MS = 60000;
+
+type Runtime = "javascript" | "python";
+
+interface CodeRunnerHook {
+  isRunning: boolean;
+  runTests: (language: CodingLanguage, code: string, functionName: string, tests: CodingTest[]) => Promise<CodingRunResult>;
+}
+
+const createWorker = () =>
+  new Worker(new URL("../lib/codeRunner.worker.ts", import.meta.url), { type: "module" });
+
+export const useCodeRunner = (): CodeRunnerHook => {
+  const [isRunning, setIsRunning] = useState(false);
+  // One worker per runtime: the JS worker locks down networking straight away,
+  // while the Python worker still needs it to download Pyodide
+  const workersRef = useRef<Partial<Record<Runtime, Worker>>>({});
+
+  const runTests = useCallback((language: CodingLanguage, code: string, functionName: string, tests: CodingTest[]) => {
+    const runtime: Runtime = language === "python" ? "python" : "javascript";
+    const worker = workersRef.current[runtime] ?? createWorker();
+    workersRef.current[runtime] = worker;
+    const id = crypto.randomUUID();
+
+    setIsRunning(true);
+
+    return new Promise<CodingRunResult>((resolve) => {
+      let timer = setTimeout(() => finish({ results: [], error: "Loading the runtime took too long. Please try again." }), LOAD_TIMEOUT_MS);
+
+      const finish = (result: CodingRunResult, terminate = true) => {
+        clearTimeout(timer);
+        worker.removeEventListener("message", onMessage);
+        if (terminate) {
+          // A stuck worker can't be interrupted, only replaced
+          worker.terminate();
+          delete workersRef.current[runtime];
+        }
+        setIsRunning(false);
+        resolve(result);
+      };
+
+      const onMessage = (event: MessageEvent<RunResponse>) => {
+        if (event.data.id !== id) return;
+        if (event.data.type === "started") {
+          clearTimeout(timer);
+          timer = setTimeout(
+            () => finish({ results: [], error: `Your code ran for more than ${RUN_TIMEOUT_MS / 1000} seconds. Check for infinite loops.` }),
+            RUN_TIMEOUT_MS
+          );
+          return;
+        }
+        finish({ results: event.data.results, error: event.data.error }, false);
+      };
+
+      worker.addEventListener("message", onMessage);
+      worker.postMessage({
+        id,
+        language,
+        code,
+        functionName,
+        tests: tests.map(({ args, expected }) => ({ args, expected })),
+      } satisfies RunRequest);
+    });
+  }, []);
+
+  useEffect(() => {
+    const workers = workersRef.current;
+    return () => {
+      Object.values(workers).forEach((worker) => worker?.terminate());
+    };
+  }, []);
+
+  return {
+    isRunning,
+    runTests,
+  };
+};
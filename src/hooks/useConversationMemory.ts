@@ -1,34 +1,52 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { v4 as uuidv4 } from "uuid";
+import type { ConversationMode } from "@/components/ModeSelector";
+import {
+  addGuestMessage,
+  createGuestConversation,
+  getGuestConversations,
+  getGuestMessages,
+  getSessionId,
+  updateGuestConversation,
+} from "@/lib/guestStore";
 
 interface Message {
   role: "user" | "assistant";
   content: string;
   emotionalTone?: string;
+  mode?: ConversationMode;
+}
+
+interface AddMessageOptions {
+  // Set when the chat function already stored the message server-side
+  persisted?: boolean;
 }
 
 interface ConversationMemory {
   sessionId: string;
   conversationId: string | null;
   userName: string | null;
+  mode: ConversationMode;
   messages: Message[];
   isLoading: boolean;
   setUserName: (name: string) => void;
-  addMessage: (message: Message) => Promise<void>;
-  getConversationContext: () => string;
+  setMode: (mode: ConversationMode) => Promise<void>;
+  addMessage: (message: Message, options?: AddMessageOptions) => Promise<void>;
   clearMemory: () => void;
 }
 
-// Get or create a session ID that persists across page reloads
-const getSessionId = (): string => {
-  let sessionId = localStorage.getItem("yourbuddy_session_id");
-  if (!sessionId) {
-    sessionId = uuidv4();
-    localStorage.setItem("yourbuddy_session_id", sessionId);
-  }
-  return sessionId;
-};
+const SUMMARIZE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/summarize-conversation`;
+
+// Ask the server to fold new messages into long-term memory every few turns;
+// it skips the run itself when too little has changed
+const SUMMARIZE_EVERY = 8;
+
+// Must match the mode check constraints on conversations and messages
+const conversationModes: ConversationMode[] = ["friend", "interviewer", "mentor", "studybuddy", "therapist", "language"];
+
+// Stored modes are plain text, so anything unknown is treated as missing
+export const toConversationMode = (value: string | null | undefined): ConversationMode | null =>
+  conversationModes.includes(value as ConversationMode) ? (value as ConversationMode) : null;
 
 export const useConversationMemory = (): ConversationMemory => {
   const [sessionId] = useState(getSessionId);
@@ -37,8 +55,13 @@ export const useConversationMemory = (): ConversationMemory => {
   const [userName, setUserNameState] = useState<string | null>(() => {
     return localStorage.getItem("yourbuddy_user_name");
   });
+  const [mode, setModeState] = useState<ConversationMode>("friend");
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const unsummarizedRef = useRef(0);
+  const modeRef = useRef<ConversationMode>("friend");
+  // Guests have no conversations row; their conversation lives in IndexedDB
+  const guestConversationIdRef = useRef<string | null>(null);
 
   // Get current user and load conversation on mount
   useEffect(() => {
@@ -48,8 +71,25 @@ export const useConversationMemory = (): ConversationMemory => {
         const { data: { user } } = await supabase.auth.getUser();
         
         if (!user) {
-          console.log("No authenticated user, skipping conversation load");
-          setIsLoading(false);
+          // Guests keep their conversation on this device until they sign in
+          const [latest] = await getGuestConversations();
+          const guestConv = latest ?? await createGuestConversation({ userName, mode: modeRef.current });
+          guestConversationIdRef.current = guestConv.id;
+
+          if (latest) {
+            modeRef.current = latest.mode;
+            setModeState(latest.mode);
+
+            const guestMessages = await getGuestMessages(latest.id);
+            setMessages(
+              guestMessages.map((m) => ({
+                role: m.role,
+                content: m.content,
+                emotionalTone: m.emotionalTone || undefined,
+                mode: m.mode ?? undefined,
+              }))
+            );
+          }
           return;
         }
 
@@ -58,7 +98,7 @@ export const useConversationMemory = (): ConversationMemory => {
         // Try to find existing conversation for this user and session
         const { data: existingConv } = await supabase
           .from("conversations")
-          .select("id, user_name")
+          .select("id, user_name, mode")
           .eq("session_id", sessionId)
           .eq("user_id", user.id)
           .order("created_at", { ascending: false })
@@ -72,19 +112,28 @@ export const useConversationMemory = (): ConversationMemory => {
             localStorage.setItem("yourbuddy_user_name", existingConv.user_name);
           }
 
+          // Resume in the mode the conversation was left in
+          const storedMode = toConversationMode(existingConv.mode);
+          if (storedMode) {
+            modeRef.current = storedMode;
+            setModeState(storedMode);
+          }
+
           // Load messages
           const { data: messagesData } = await supabase
             .from("messages")
-            .select("role, content, emotional_tone")
+            .select("role, content, emotional_tone, mode")
             .eq("conversation_id", existingConv.id)
             .order("created_at", { ascending: true });
 
           if (messagesData) {
+            unsummarizedRef.current = messagesData.length;
             setMessages(
               messagesData.map((m) => ({
                 role: m.role as "user" | "assistant",
                 content: m.content,
                 emotionalTone: m.emotional_tone || undefined,
+                mode: toConversationMode(m.mode) ?? undefined,
               }))
             );
           }
@@ -95,7 +144,8 @@ export const useConversationMemory = (): ConversationMemory => {
             .insert({ 
               session_id: sessionId, 
               user_name: userName,
-              user_id: user.id 
+              user_id: user.id,
+              mode: modeRef.current,
             })
             .select("id")
             .single();
@@ -124,60 +174,104 @@ export const useConversationMemory = (): ConversationMemory => {
           .from("conversations")
           .update({ user_name: name })
           .eq("id", conversationId);
+      } else if (guestConversationIdRef.current) {
+        await updateGuestConversation(guestConversationIdRef.current, { userName: name });
       }
     },
     [conversationId]
   );
 
-  const addMessage = useCallback(
-    async (message: Message) => {
-      setMessages((prev) => [...prev, message]);
+  const setMode = useCallback(
+    async (newMode: ConversationMode) => {
+      modeRef.current = newMode;
+      setModeState(newMode);
 
       if (conversationId) {
-        await supabase.from("messages").insert({
-          conversation_id: conversationId,
-          role: message.role,
-          content: message.content,
-          emotional_tone: message.emotionalTone,
-        });
+        const { error } = await supabase
+          .from("conversations")
+          .update({ mode: newMode })
+          .eq("id", conversationId);
+
+        if (error) {
+          console.error("Error saving conversation mode:", error);
+        }
+      } else if (guestConversationIdRef.current) {
+        await updateGuestConversation(guestConversationIdRef.current, { mode: newMode });
       }
     },
     [conversationId]
   );
 
-  const getConversationContext = useCallback(() => {
-    // Extract key topics from recent messages
-    const recentMessages = messages.slice(-10);
-    const topics: string[] = [];
+  const updateLongTermMemory = useCallback(async (id: string) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) return;
 
-    for (const msg of recentMessages) {
-      // Look for key phrases that might be worth remembering
-      const content = msg.content.toLowerCase();
-      if (content.includes("interview") || content.includes("job")) {
-        topics.push("job/interview preparation");
-      }
-      if (content.includes("study") || content.includes("exam") || content.includes("test")) {
-        topics.push("studying/exams");
-      }
-      if (content.includes("stressed") || content.includes("anxious")) {
-        topics.push("feeling stressed");
-      }
-      if (content.includes("excited") || content.includes("happy")) {
-        topics.push("positive mood");
+      const response = await fetch(SUMMARIZE_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ conversationId: id }),
+      });
+
+      if (response.ok) {
+        const { updated } = await response.json();
+        if (updated) {
+          unsummarizedRef.current = 0;
+        }
       }
+    } catch (error) {
+      console.error("Error updating conversation memory:", error);
     }
+  }, []);
+
+  const addMessage = useCallback(
+    async (message: Message, options?: AddMessageOptions) => {
+      setMessages((prev) => [...prev, message]);
 
-    const uniqueTopics = [...new Set(topics)];
-    return uniqueTopics.length > 0
-      ? `Topics discussed: ${uniqueTopics.join(", ")}`
-      : "";
-  }, [messages]);
+      if (conversationId) {
+        if (!options?.persisted) {
+          await supabase.from("messages").insert({
+            conversation_id: conversationId,
+            role: message.role,
+            content: message.content,
+            emotional_tone: message.emotionalTone,
+            mode: message.mode ?? modeRef.current,
+          });
+        }
+
+        unsummarizedRef.current += 1;
+        if (message.role === "assistant" && unsummarizedRef.current >= SUMMARIZE_EVERY) {
+          // Runs in the background; the reply should not wait on memory upkeep
+          updateLongTermMemory(conversationId);
+        }
+      } else if (guestConversationIdRef.current) {
+        try {
+          await addGuestMessage({
+            conversationId: guestConversationIdRef.current,
+            role: message.role,
+            content: message.content,
+            emotionalTone: message.emotionalTone ?? null,
+            mode: message.mode ?? modeRef.current,
+          });
+        } catch (error) {
+          console.error("Error saving guest message:", error);
+        }
+      }
+    },
+    [conversationId, updateLongTermMemory]
+  );
 
   const clearMemory = useCallback(async () => {
     setMessages([]);
+    unsummarizedRef.current = 0;
     
     if (!userId) {
-      console.log("No user ID, cannot create conversation");
+      const guestConv = await createGuestConversation({ userName, mode: modeRef.current });
+      guestConversationIdRef.current = guestConv.id;
       return;
     }
 
@@ -187,7 +281,8 @@ export const useConversationMemory = (): ConversationMemory => {
       .insert({ 
         session_id: sessionId, 
         user_name: userName,
-        user_id: userId 
+        user_id: userId,
+        mode: modeRef.current,
       })
       .select("id")
       .single();
@@ -201,11 +296,12 @@ export const useConversationMemory = (): ConversationMemory => {
     sessionId,
     conversationId,
     userName,
+    mode,
     messages,
     isLoading,
     setUserName,
+    setMode,
     addMessage,
-    getConversationContext,
     clearMemory,
   };
 };
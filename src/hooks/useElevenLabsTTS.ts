@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { notifyRateLimit, readRateLimit } from "@/lib/rateLimit";
 
 interface ElevenLabsTTSHook {
   speak: (text: string) => Promise<void>;
@@ -76,6 +77,11 @@ export const useElevenLabsTTS = (): ElevenLabsTTSHook => {
         }
       );
 
+      const quota = readRateLimit(response);
+      if (quota) {
+        notifyRateLimit(quota, "Voice");
+      }
+
       // Check if we need to fallback to browser TTS
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
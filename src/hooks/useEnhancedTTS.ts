@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { notifyRateLimit, readRateLimit } from "@/lib/rateLimit";
 
 interface EnhancedTTSHook {
   speak: (text: string, language?: string) => Promise<void>;
@@ -10,7 +11,7 @@ interface EnhancedTTSHook {
 }
 
 // ElevenLabs voice IDs for different languages - native speakers
-const VOICE_IDS: Record<string, string> = {
+export const VOICE_IDS: Record<string, string> = {
   english: "EXAVITQu4vr4xnSDxMaL", // Sarah - natural English
   german: "onwK4e9ZLuTAKqWW03F9", // Daniel - German native
   french: "XrExE9yKIg1WjnnlVkGX", // Matilda - French
@@ -159,6 +160,11 @@ export const useEnhancedTTS = (): EnhancedTTSHook => {
         }
       );
 
+      const quota = readRateLimit(response);
+      if (quota) {
+        notifyRateLimit(quota, "Voice");
+      }
+
       // Check if we need to fallback to browser TTS
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
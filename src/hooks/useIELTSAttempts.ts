@@ -0,0 +1,170 @@
+import { useState, useCallback, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { loadGuestRecord, saveGuestRecord } from "@/lib/guestStore";
+import type { IELTSTestFormat } from "@/lib/ieltsScoring";
+
+type IELTSModule = "listening" | "reading" | "writing" | "speaking";
+
+export interface IELTSAttempt {
+  id: string;
+  module: IELTSModule;
+  testMode: string;
+  questionType: string | null;
+  format: IELTSTestFormat | null;
+  answers: Record<string, unknown>;
+  correctCount: number | null;
+  totalQuestions: number | null;
+  timeUsedSeconds: number;
+  bandScore: number | null;
+  createdAt: string;
+}
+
+export interface NewIELTSAttempt {
+  module: IELTSModule;
+  testMode: string;
+  questionType?: string | null;
+  format?: IELTSTestFormat | null;
+  answers: Record<string, unknown>;
+  correctCount?: number | null;
+  totalQuestions?: number | null;
+  timeUsedSeconds: number;
+  bandScore: number | null;
+}
+
+interface IELTSAttemptsHook {
+  attempts: IELTSAttempt[];
+  isLoading: boolean;
+  isSignedIn: boolean;
+  saveAttempt: (attempt: NewIELTSAttempt) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+export const useIELTSAttempts = (): IELTSAttemptsHook => {
+  const [attempts, setAttempts] = useState<IELTSAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSignedIn, setIsSignedIn] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        setIsSignedIn(false);
+        setAttempts((await loadGuestRecord<IELTSAttempt[]>("ielts_attempts")) ?? []);
+        return;
+      }
+
+      setIsSignedIn(true);
+
+      const { data, error } = await supabase
+        .from("ielts_attempts")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: true })
+        .limit(500);
+
+      if (error) throw error;
+
+      setAttempts(
+        (data || []).map((row) => ({
+          id: row.id,
+          module: row.module as IELTSModule,
+          testMode: row.test_mode,
+          questionType: row.question_type,
+          format: row.format as IELTSTestFormat | null,
+          answers: (row.answers as Record<string, unknown>) || {},
+          correctCount: row.correct_count,
+          totalQuestions: row.total_questions,
+          timeUsedSeconds: row.time_used_seconds,
+          bandScore: row.band_score !== null ? Number(row.band_score) : null,
+          createdAt: row.created_at,
+        }))
+      );
+    } catch (error) {
+      console.error("Error loading IELTS attempts:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const saveAttempt = useCallback(async (attempt: NewIELTSAttempt): Promise<boolean> => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        // Guests keep attempts on this device until they sign in and import them
+        const guestAttempt: IELTSAttempt = {
+          id: crypto.randomUUID(),
+          module: attempt.module,
+          testMode: attempt.testMode,
+          questionType: attempt.questionType ?? null,
+          format: attempt.format ?? null,
+          answers: attempt.answers,
+          correctCount: attempt.correctCount ?? null,
+          totalQuestions: attempt.totalQuestions ?? null,
+          timeUsedSeconds: Math.max(0, Math.round(attempt.timeUsedSeconds)),
+          bandScore: attempt.bandScore,
+          createdAt: new Date().toISOString(),
+        };
+        const stored = (await loadGuestRecord<IELTSAttempt[]>("ielts_attempts")) ?? [];
+        await saveGuestRecord("ielts_attempts", [...stored, guestAttempt]);
+        setAttempts((prev) => [...prev, guestAttempt]);
+        return true;
+      }
+
+      const { data, error } = await supabase
+        .from("ielts_attempts")
+        .insert({
+          user_id: user.id,
+          module: attempt.module,
+          test_mode: attempt.testMode,
+          question_type: attempt.questionType ?? null,
+          format: attempt.format ?? null,
+          answers: attempt.answers as Json,
+          correct_count: attempt.correctCount ?? null,
+          total_questions: attempt.totalQuestions ?? null,
+          time_used_seconds: Math.max(0, Math.round(attempt.timeUsedSeconds)),
+          band_score: attempt.bandScore,
+        })
+        .select("id, created_at")
+        .single();
+
+      if (error) throw error;
+
+      setAttempts((prev) => [
+        ...prev,
+        {
+          id: data.id,
+          module: attempt.module,
+          testMode: attempt.testMode,
+          questionType: attempt.questionType ?? null,
+          format: attempt.format ?? null,
+          answers: attempt.answers,
+          correctCount: attempt.correctCount ?? null,
+          totalQuestions: attempt.totalQuestions ?? null,
+          timeUsedSeconds: attempt.timeUsedSeconds,
+          bandScore: attempt.bandScore,
+          createdAt: data.created_at,
+        },
+      ]);
+      return true;
+    } catch (error) {
+      console.error("Error saving IELTS attempt:", error);
+      return false;
+    }
+  }, []);
+
+  return {
+    attempts,
+    isLoading,
+    isSignedIn,
+    saveAttempt,
+    refresh,
+  };
+};
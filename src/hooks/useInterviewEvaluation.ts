@@ -0,0 +1,108 @@
+import { useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { evaluateInBatches, toAnswerFeedback, type AnswerFeedback, type AnswerRubric, type InterviewAnswer } from "@/lib/interviewScoring";
+
+const EVALUATE_INTERVIEW_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/evaluate-interview`;
+
+export interface InterviewContext {
+  role: string;
+  experienceLevel: string;
+  skills: string[];
+}
+
+type ScoredAnswer = AnswerRubric & { modelAnswer?: string; tip?: string };
+
+interface InterviewEvaluationHook {
+  rubrics: AnswerRubric[] | null;
+  isEvaluating: boolean;
+  error: string | null;
+  evaluateInterview: (context: InterviewContext, answers: InterviewAnswer[]) => Promise<AnswerRubric[] | null>;
+  evaluateAnswer: (context: InterviewContext, answer: InterviewAnswer) => Promise<AnswerFeedback | null>;
+  reset: () => void;
+}
+
+const requestEvaluation = async (body: Record<string, unknown>): Promise<ScoredAnswer[]> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const accessToken = session?.access_token;
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+  };
+  if (accessToken) {
+    headers.Authorization = `Bearer ${accessToken}`;
+  }
+
+  const response = await fetch(EVALUATE_INTERVIEW_URL, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Request failed with status ${response.status}`);
+  }
+
+  const result: { answers: ScoredAnswer[] } = await response.json();
+  return result.answers;
+};
+
+// The rubric alone, without the coaching fields
+const toRubric = ({ relevance, star, specificity, impact, technical }: ScoredAnswer): AnswerRubric => ({
+  relevance,
+  star,
+  specificity,
+  impact,
+  technical,
+});
+
+export const useInterviewEvaluation = (): InterviewEvaluationHook => {
+  const [rubrics, setRubrics] = useState<AnswerRubric[] | null>(null);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const evaluateInterview = useCallback(async (context: InterviewContext, answers: InterviewAnswer[]) => {
+    setIsEvaluating(true);
+    setError(null);
+
+    try {
+      // Long interviews go out in several requests to stay within the function's limit
+      const scored = await evaluateInBatches(answers, (batch) => requestEvaluation({ ...context, answers: batch }));
+      const result = scored.map(toRubric);
+      setRubrics(result);
+      return result;
+    } catch (err) {
+      console.error("Error evaluating interview:", err);
+      setError(err instanceof Error ? err.message : "Failed to evaluate interview");
+      return null;
+    } finally {
+      setIsEvaluating(false);
+    }
+  }, []);
+
+  // Runs alongside the interview, so it leaves the report state untouched
+  const evaluateAnswer = useCallback(async (context: InterviewContext, answer: InterviewAnswer) => {
+    try {
+      const [scored] = await requestEvaluation({ ...context, answers: [answer], feedback: true });
+      return scored ? toAnswerFeedback(toRubric(scored), scored.modelAnswer ?? "", scored.tip ?? "") : null;
+    } catch (err) {
+      console.error("Error evaluating answer:", err);
+      return null;
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setRubrics(null);
+    setError(null);
+  }, []);
+
+  return {
+    rubrics,
+    isEvaluating,
+    error,
+    evaluateInterview,
+    evaluateAnswer,
+    reset,
+  };
+};
@@ -0,0 +1,227 @@
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { loadGuestRecord, saveGuestRecord } from "@/lib/guestStore";
+import {
+  MAX_HEARTS,
+  calculateStreak,
+  getUserTimeZone,
+  regenerateHearts,
+  toLocalDate,
+  type HeartsState,
+} from "@/lib/learningProgress";
+
+export interface ActivityDay {
+  date: string;
+  language: string;
+  xp: number;
+  activitiesCompleted: number;
+}
+
+export interface GuestProgress {
+  activity: ActivityDay[];
+  hearts: HeartsState;
+}
+
+interface LearningProgressHook {
+  streak: number;
+  todayXP: number;
+  totalXP: number;
+  xpByLanguage: Record<string, number>;
+  hearts: number;
+  maxHearts: number;
+  nextHeartAt: Date | null;
+  isLoading: boolean;
+  isSignedIn: boolean;
+  recordActivity: (language: string, xp: number) => Promise<void>;
+  loseHeart: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const fullHearts = (): HeartsState => ({ hearts: MAX_HEARTS, updatedAt: new Date().toISOString() });
+
+const loadGuestProgress = async (): Promise<GuestProgress> => {
+  const stored = await loadGuestRecord<Partial<GuestProgress>>("learning_progress");
+  return { activity: stored?.activity || [], hearts: stored?.hearts || fullHearts() };
+};
+
+const saveGuestProgress = (progress: GuestProgress) => saveGuestRecord("learning_progress", progress);
+
+const addActivity = (days: ActivityDay[], date: string, language: string, xp: number): ActivityDay[] => {
+  const existing = days.find((d) => d.date === date && d.language === language);
+  if (!existing) {
+    return [...days, { date, language, xp, activitiesCompleted: 1 }];
+  }
+  return days.map((d) =>
+    d === existing ? { ...d, xp: d.xp + xp, activitiesCompleted: d.activitiesCompleted + 1 } : d
+  );
+};
+
+export const useLearningProgress = (): LearningProgressHook => {
+  const [activity, setActivity] = useState<ActivityDay[]>([]);
+  const [heartsState, setHeartsState] = useState<HeartsState>(fullHearts);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSignedIn, setIsSignedIn] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  const timeZone = useMemo(() => getUserTimeZone(), []);
+
+  // Re-evaluate hearts and the current day once a minute
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        setIsSignedIn(false);
+        const guest = await loadGuestProgress();
+        setActivity(guest.activity);
+        setHeartsState(guest.hearts);
+        return;
+      }
+
+      setIsSignedIn(true);
+
+      const [activityResult, profileResult] = await Promise.all([
+        supabase
+          .from("learning_activity")
+          .select("activity_date, language, xp, activities_completed")
+          .eq("user_id", user.id)
+          .order("activity_date", { ascending: false })
+          .limit(5000),
+        supabase
+          .from("profiles")
+          .select("hearts, hearts_updated_at, timezone")
+          .eq("user_id", user.id)
+          .maybeSingle(),
+      ]);
+
+      if (activityResult.error) throw activityResult.error;
+      if (profileResult.error) throw profileResult.error;
+
+      setActivity(
+        (activityResult.data || []).map((row) => ({
+          date: row.activity_date,
+          language: row.language,
+          xp: row.xp,
+          activitiesCompleted: row.activities_completed,
+        }))
+      );
+
+      const profile = profileResult.data;
+      setHeartsState(profile ? { hearts: profile.hearts, updatedAt: profile.hearts_updated_at } : fullHearts());
+
+      // Keep the stored timezone current so server-side reporting matches the device
+      if (profile?.timezone !== timeZone) {
+        await supabase
+          .from("profiles")
+          .upsert({ user_id: user.id, timezone: timeZone }, { onConflict: "user_id" });
+      }
+    } catch (error) {
+      console.error("Error loading learning progress:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [timeZone]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const today = toLocalDate(now, timeZone);
+
+  const streak = useMemo(() => calculateStreak(activity.map((d) => d.date), today), [activity, today]);
+
+  const { todayXP, xpByLanguage, totalXP } = useMemo(() => {
+    const byLanguage: Record<string, number> = {};
+    let todayTotal = 0;
+    let total = 0;
+    activity.forEach((d) => {
+      byLanguage[d.language] = (byLanguage[d.language] || 0) + d.xp;
+      total += d.xp;
+      if (d.date === today) todayTotal += d.xp;
+    });
+    return { todayXP: todayTotal, xpByLanguage: byLanguage, totalXP: total };
+  }, [activity, today]);
+
+  const currentHearts = useMemo(() => regenerateHearts(heartsState, now), [heartsState, now]);
+
+  const recordActivity = useCallback(async (language: string, xp: number) => {
+    const date = toLocalDate(new Date(), timeZone);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        const guest = await loadGuestProgress();
+        const next = addActivity(guest.activity, date, language, xp);
+        await saveGuestProgress({ ...guest, activity: next });
+        setActivity(next);
+        return;
+      }
+
+      // The server picks the day from the profile timezone and caps the XP,
+      // so state takes the stored row rather than the local values
+      const { data, error } = await supabase.rpc("record_learning_activity", {
+        _language: language,
+        _xp: xp,
+      });
+
+      if (error) throw error;
+      setActivity((prev) => [
+        ...prev.filter((d) => !(d.date === data.activity_date && d.language === language)),
+        { date: data.activity_date, language, xp: data.xp, activitiesCompleted: data.activities_completed },
+      ]);
+    } catch (error) {
+      console.error("Error recording learning activity:", error);
+    }
+  }, [timeZone]);
+
+  const loseHeart = useCallback(async () => {
+    const regenerated = regenerateHearts(heartsState);
+    const next: HeartsState = {
+      hearts: Math.max(regenerated.hearts - 1, 0),
+      updatedAt: regenerated.updatedAt,
+    };
+    setHeartsState(next);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        await saveGuestProgress({ ...(await loadGuestProgress()), hearts: next });
+        return;
+      }
+
+      const { error } = await supabase
+        .from("profiles")
+        .upsert(
+          { user_id: user.id, hearts: next.hearts, hearts_updated_at: next.updatedAt },
+          { onConflict: "user_id" }
+        );
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error saving hearts:", error);
+    }
+  }, [heartsState]);
+
+  return {
+    streak,
+    todayXP,
+    totalXP,
+    xpByLanguage,
+    hearts: currentHearts.hearts,
+    maxHearts: MAX_HEARTS,
+    nextHeartAt: currentHearts.nextHeartAt,
+    isLoading,
+    isSignedIn,
+    recordActivity,
+    loseHeart,
+    refresh,
+  };
+};
@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { notifyRateLimit, readRateLimit } from "@/lib/rateLimit";
 
 interface NaturalTTSHook {
   speak: (text: string, language?: string) => Promise<void>;
@@ -191,6 +192,11 @@ export const useNaturalTTS = (): NaturalTTSHook => {
         }
       );
 
+      const quota = readRateLimit(response);
+      if (quota) {
+        notifyRateLimit(quota, "Voice");
+      }
+
       // Fallback to browser TTS if ElevenLabs fails
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -0,0 +1,183 @@
+import { useState, useCallback, useRef, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  PRONUNCIATION_LOCALES,
+  estimateFromTranscript,
+  normalizeScorerResult,
+  type PronunciationAssessment,
+  type PronunciationLanguage,
+} from "@/lib/pronunciation";
+import { notifyRateLimit, readRateLimit } from "@/lib/rateLimit";
+import { recordingToWavBase64 } from "@/lib/wav";
+
+const ASSESS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/assess-pronunciation`;
+
+// Optional self-hosted scorer (same request/response as assess-pronunciation),
+// called straight from the browser so assessment works without the backend
+const LOCAL_SCORER_URL: string | undefined = import.meta.env.VITE_PRONUNCIATION_SCORER_URL;
+
+// Longer clips are cut off; single words and short sentences are the target
+const MAX_RECORDING_MS = 15000;
+
+interface PronunciationAssessmentHook {
+  isRecording: boolean;
+  isAssessing: boolean;
+  assessment: PronunciationAssessment | null;
+  startRecording: () => Promise<void>;
+  stopRecording: () => Promise<Blob | null>;
+  assess: (referenceText: string, language: PronunciationLanguage, transcript?: string) => Promise<PronunciationAssessment | null>;
+  reset: () => void;
+}
+
+export const usePronunciationAssessment = (): PronunciationAssessmentHook => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [isAssessing, setIsAssessing] = useState(false);
+  const [assessment, setAssessment] = useState<PronunciationAssessment | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const recordingRef = useRef<Blob | null>(null);
+  const stopPromiseRef = useRef<Promise<Blob | null> | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const releaseRecorder = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+    recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+    recorderRef.current = null;
+    setIsRecording(false);
+  }, []);
+
+  const stopRecording = useCallback(async (): Promise<Blob | null> => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === "inactive") {
+      return stopPromiseRef.current ? stopPromiseRef.current : recordingRef.current;
+    }
+
+    stopPromiseRef.current = new Promise<Blob | null>((resolve) => {
+      recorder.onstop = () => {
+        const blob = chunksRef.current.length ? new Blob(chunksRef.current, { type: recorder.mimeType }) : null;
+        recordingRef.current = blob;
+        chunksRef.current = [];
+        stopPromiseRef.current = null;
+        releaseRecorder();
+        resolve(blob);
+      };
+    });
+    recorder.stop();
+    return stopPromiseRef.current;
+  }, [releaseRecorder]);
+
+  const startRecording = useCallback(async () => {
+    if (recorderRef.current || typeof MediaRecorder === "undefined" || !navigator.mediaDevices?.getUserMedia) return;
+
+    recordingRef.current = null;
+    chunksRef.current = [];
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+      });
+      const recorder = new MediaRecorder(stream);
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+      recorderRef.current = recorder;
+      recorder.start();
+      setIsRecording(true);
+      timeoutRef.current = setTimeout(() => {
+        stopRecording();
+      }, MAX_RECORDING_MS);
+    } catch (error) {
+      // Without a recording we fall back to the transcript estimate
+      console.error("Error starting pronunciation recording:", error);
+      releaseRecorder();
+    }
+  }, [releaseRecorder, stopRecording]);
+
+  const scoreRecording = useCallback(async (recording: Blob, referenceText: string, locale: string) => {
+    const audio = await recordingToWavBase64(recording);
+    const body = JSON.stringify({ audio, referenceText, language: locale });
+
+    if (LOCAL_SCORER_URL) {
+      const response = await fetch(`${LOCAL_SCORER_URL.replace(/\/$/, "")}/assess`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+      });
+      if (!response.ok) throw new Error(`Local scorer failed with status ${response.status}`);
+      const result = await response.json();
+      if (!result || typeof result !== "object") throw new Error("Local scorer returned no assessment");
+      return normalizeScorerResult(result);
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    };
+    if (session?.access_token) {
+      headers.Authorization = `Bearer ${session.access_token}`;
+    }
+
+    const response = await fetch(ASSESS_URL, { method: "POST", headers, body });
+    const quota = readRateLimit(response);
+    if (quota) {
+      notifyRateLimit(quota, "Pronunciation");
+    }
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Request failed with status ${response.status}`);
+    }
+    return (await response.json()) as PronunciationAssessment;
+  }, []);
+
+  const assess = useCallback(async (referenceText: string, language: PronunciationLanguage, transcript?: string) => {
+    setIsAssessing(true);
+
+    try {
+      const recording = await stopRecording();
+      let result: PronunciationAssessment | null = null;
+
+      if (recording) {
+        try {
+          result = await scoreRecording(recording, referenceText, PRONUNCIATION_LOCALES[language]);
+        } catch (error) {
+          console.error("Error assessing pronunciation:", error);
+        }
+      }
+
+      if (!result && transcript?.trim()) {
+        result = estimateFromTranscript(referenceText, transcript);
+      }
+
+      setAssessment(result);
+      return result;
+    } finally {
+      setIsAssessing(false);
+    }
+  }, [stopRecording, scoreRecording]);
+
+  const reset = useCallback(() => {
+    setAssessment(null);
+    recordingRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    };
+  }, []);
+
+  return {
+    isRecording,
+    isAssessing,
+    assessment,
+    startRecording,
+    stopRecording,
+    assess,
+    reset,
+  };
+};
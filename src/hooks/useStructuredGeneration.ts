@@ -0,0 +1,74 @@
+import { useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+const STRUCTURED_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-structured`;
+
+// Must match the schema names registered in the generate-structured function
+export type StructuredSchema =
+  | "activity"
+  | "ieltsQuestions"
+  | "goetheQuestions"
+  | "goetheListening"
+  | "goetheWritingEvaluation"
+  | "jdAnalysis"
+  | "resumeAnalysis"
+  | "resumeGapAnalysis"
+  | "ieltsFeedback"
+  | "goetheSpeakingFeedback"
+  | "placementItems";
+
+interface StructuredOptions {
+  systemPrompt?: string;
+}
+
+interface StructuredGenerationHook {
+  isGenerating: boolean;
+  generate: <T>(schema: StructuredSchema, prompt: string, options?: StructuredOptions) => Promise<T>;
+}
+
+export const useStructuredGeneration = (): StructuredGenerationHook => {
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Resolves with schema-validated data or throws; callers keep their own fallbacks
+  const generate = useCallback(async <T,>(schema: StructuredSchema, prompt: string, options?: StructuredOptions): Promise<T> => {
+    setIsGenerating(true);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const accessToken = session?.access_token;
+
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      };
+      if (accessToken) {
+        headers.Authorization = `Bearer ${accessToken}`;
+      }
+
+      const response = await fetch(STRUCTURED_URL, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          schema,
+          prompt,
+          systemPrompt: options?.systemPrompt,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Request failed with status ${response.status}`);
+      }
+
+      const { data } = await response.json();
+      return data as T;
+    } finally {
+      setIsGenerating(false);
+    }
+  }, []);
+
+  return {
+    isGenerating,
+    generate,
+  };
+};
@@ -0,0 +1,243 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { loadGuestRecord, saveGuestRecord } from "@/lib/guestStore";
+import { initialSM2State, scheduleReview, type ReviewQuality } from "@/lib/sm2";
+
+export type VocabularyActivityType = "fill_blank" | "choose_option" | "translate";
+
+export interface VocabularyCard {
+  id: string;
+  language: string;
+  activityType: VocabularyActivityType;
+  instruction: string;
+  content: string;
+  options: string[] | null;
+  correctAnswer: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: string;
+  lastReviewedAt: string | null;
+  createdAt: string;
+}
+
+export interface MissedItem {
+  activityType: VocabularyActivityType;
+  instruction: string;
+  content: string;
+  options?: string[] | null;
+  correctAnswer: string;
+}
+
+interface VocabularyDeckHook {
+  cards: VocabularyCard[];
+  isLoading: boolean;
+  isSignedIn: boolean;
+  getDueCards: (language: string) => VocabularyCard[];
+  addMissedItem: (language: string, item: MissedItem) => Promise<void>;
+  reviewCard: (id: string, quality: ReviewQuality) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const fromRow = (row: Tables<"vocabulary_cards">): VocabularyCard => ({
+  id: row.id,
+  language: row.language,
+  activityType: row.activity_type as VocabularyActivityType,
+  instruction: row.instruction,
+  content: row.content,
+  options: Array.isArray(row.options) ? (row.options as string[]) : null,
+  correctAnswer: row.correct_answer,
+  easeFactor: Number(row.ease_factor),
+  intervalDays: row.interval_days,
+  repetitions: row.repetitions,
+  lapses: row.lapses,
+  dueAt: row.due_at,
+  lastReviewedAt: row.last_reviewed_at,
+  createdAt: row.created_at,
+});
+
+const loadGuestDeck = async (): Promise<VocabularyCard[]> =>
+  (await loadGuestRecord<VocabularyCard[]>("vocab_deck")) ?? [];
+
+const saveGuestDeck = (cards: VocabularyCard[]) => saveGuestRecord("vocab_deck", cards);
+
+const sameItem = (card: VocabularyCard, language: string, content: string) =>
+  card.language === language && card.content.trim().toLowerCase() === content.trim().toLowerCase();
+
+export const useVocabularyDeck = (): VocabularyDeckHook => {
+  const [cards, setCards] = useState<VocabularyCard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSignedIn, setIsSignedIn] = useState(false);
+  // Mirrors `cards` synchronously so queued misses see cards stored just before them
+  const cardsRef = useRef<VocabularyCard[]>([]);
+  const missQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const updateCards = useCallback((update: (prev: VocabularyCard[]) => VocabularyCard[]) => {
+    cardsRef.current = update(cardsRef.current);
+    setCards(cardsRef.current);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        setIsSignedIn(false);
+        const deck = await loadGuestDeck();
+        updateCards(() => deck);
+        return;
+      }
+
+      setIsSignedIn(true);
+
+      const { data, error } = await supabase
+        .from("vocabulary_cards")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("due_at", { ascending: true })
+        .limit(1000);
+
+      if (error) throw error;
+
+      updateCards(() => (data || []).map(fromRow));
+    } catch (error) {
+      console.error("Error loading vocabulary deck:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [updateCards]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const getDueCards = useCallback((language: string): VocabularyCard[] => {
+    const now = Date.now();
+    return cards
+      .filter((card) => card.language === language && new Date(card.dueAt).getTime() <= now)
+      .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+  }, [cards]);
+
+  // Persists a card either to Supabase or to the guest deck and mirrors it in state
+  const storeCard = useCallback(async (card: VocabularyCard, isNew: boolean) => {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      const deck = await loadGuestDeck();
+      const next = isNew ? [...deck, card] : deck.map((c) => (c.id === card.id ? card : c));
+      await saveGuestDeck(next);
+      updateCards(() => next);
+      return;
+    }
+
+    const values = {
+      ease_factor: card.easeFactor,
+      interval_days: card.intervalDays,
+      repetitions: card.repetitions,
+      lapses: card.lapses,
+      due_at: card.dueAt,
+      last_reviewed_at: card.lastReviewedAt,
+    };
+
+    if (isNew) {
+      const { data, error } = await supabase
+        .from("vocabulary_cards")
+        .insert({
+          ...values,
+          user_id: user.id,
+          language: card.language,
+          activity_type: card.activityType,
+          instruction: card.instruction,
+          content: card.content,
+          options: card.options as Json,
+          correct_answer: card.correctAnswer,
+        })
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      updateCards((prev) => [...prev, fromRow(data)]);
+    } else {
+      const { error } = await supabase
+        .from("vocabulary_cards")
+        .update(values)
+        .eq("id", card.id);
+
+      if (error) throw error;
+      updateCards((prev) => prev.map((c) => (c.id === card.id ? card : c)));
+    }
+  }, [updateCards]);
+
+  const storeMissedItem = useCallback(async (language: string, item: MissedItem) => {
+    try {
+      const existing = cardsRef.current.find((card) => sameItem(card, language, item.content));
+
+      // Missing a card that is already in the deck counts as a failed review
+      if (existing) {
+        const next = scheduleReview(existing, 1);
+        await storeCard({
+          ...existing,
+          ...next,
+          dueAt: next.dueAt.toISOString(),
+          lastReviewedAt: new Date().toISOString(),
+        }, false);
+        return;
+      }
+
+      const now = new Date().toISOString();
+      await storeCard({
+        id: crypto.randomUUID(),
+        language,
+        activityType: item.activityType,
+        instruction: item.instruction,
+        content: item.content,
+        options: item.options && item.options.length > 0 ? item.options : null,
+        correctAnswer: item.correctAnswer,
+        ...initialSM2State,
+        dueAt: now,
+        lastReviewedAt: null,
+        createdAt: now,
+      }, true);
+    } catch (error) {
+      console.error("Error adding vocabulary card:", error);
+    }
+  }, [storeCard]);
+
+  // Misses are handled one at a time: two quick misses of the same item must
+  // not both insert, since (user_id, language, content) is unique
+  const addMissedItem = useCallback((language: string, item: MissedItem) => {
+    const run = missQueueRef.current.then(() => storeMissedItem(language, item));
+    missQueueRef.current = run;
+    return run;
+  }, [storeMissedItem]);
+
+  const reviewCard = useCallback(async (id: string, quality: ReviewQuality) => {
+    const card = cards.find((c) => c.id === id);
+    if (!card) return;
+
+    try {
+      const next = scheduleReview(card, quality);
+      await storeCard({
+        ...card,
+        ...next,
+        dueAt: next.dueAt.toISOString(),
+        lastReviewedAt: new Date().toISOString(),
+      }, false);
+    } catch (error) {
+      console.error("Error reviewing vocabulary card:", error);
+    }
+  }, [cards, storeCard]);
+
+  return {
+    cards,
+    isLoading,
+    isSignedIn,
+    getDueCards,
+    addMissedItem,
+    reviewCard,
+    refresh,
+  };
+};
@@ -0,0 +1,100 @@
+import { useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+const EVALUATE_WRITING_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/evaluate-writing`;
+
+export type AnnotationCategory = "grammar" | "vocabulary" | "spelling" | "punctuation" | "cohesion" | "task";
+
+export interface CriterionScore {
+  band: number;
+  comment: string;
+}
+
+export interface WritingAnnotation {
+  start: number;
+  end: number;
+  text: string;
+  category: AnnotationCategory;
+  explanation: string;
+  suggestion: string;
+}
+
+export interface WritingEvaluation {
+  task: 1 | 2;
+  wordCount: number;
+  criteria: {
+    taskAchievement: CriterionScore;
+    coherenceCohesion: CriterionScore;
+    lexicalResource: CriterionScore;
+    grammaticalRange: CriterionScore;
+  };
+  overallBand: number;
+  summary: string;
+  annotations: WritingAnnotation[];
+}
+
+interface WritingEvaluationHook {
+  evaluation: WritingEvaluation | null;
+  isEvaluating: boolean;
+  error: string | null;
+  evaluateWriting: (task: 1 | 2, prompt: string, essay: string, chartData?: string) => Promise<WritingEvaluation | null>;
+  reset: () => void;
+}
+
+export const useWritingEvaluation = (): WritingEvaluationHook => {
+  const [evaluation, setEvaluation] = useState<WritingEvaluation | null>(null);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const evaluateWriting = useCallback(async (task: 1 | 2, prompt: string, essay: string, chartData?: string) => {
+    setIsEvaluating(true);
+    setError(null);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const accessToken = session?.access_token;
+
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      };
+      if (accessToken) {
+        headers.Authorization = `Bearer ${accessToken}`;
+      }
+
+      const response = await fetch(EVALUATE_WRITING_URL, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ task, prompt, essay, chartData }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Request failed with status ${response.status}`);
+      }
+
+      const result: WritingEvaluation = await response.json();
+      setEvaluation(result);
+      return result;
+    } catch (err) {
+      console.error("Error evaluating writing:", err);
+      setError(err instanceof Error ? err.message : "Failed to evaluate writing");
+      return null;
+    } finally {
+      setIsEvaluating(false);
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setEvaluation(null);
+    setError(null);
+  }, []);
+
+  return {
+    evaluation,
+    isEvaluating,
+    error,
+    evaluateWriting,
+    reset,
+  };
+};
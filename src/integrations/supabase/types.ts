@@ -18,7 +18,14 @@ export type Database = {
         Row: {
           created_at: string
           id: string
+          mode: string | null
+          pinned: boolean
           session_id: string
+          summarized_message_count: number
+          summary: string | null
+          summary_updated_at: string | null
+          title: string | null
+          title_edited: boolean
           updated_at: string
           user_id: string | null
           user_name: string | null
@@ -26,7 +33,14 @@ export type Database = {
         Insert: {
           created_at?: string
           id?: string
+          mode?: string | null
+          pinned?: boolean
           session_id: string
+          summarized_message_count?: number
+          summary?: string | null
+          summary_updated_at?: string | null
+          title?: string | null
+          title_edited?: boolean
           updated_at?: string
           user_id?: string | null
           user_name?: string | null
@@ -34,13 +48,113 @@ export type Database = {
         Update: {
           created_at?: string
           id?: string
+          mode?: string | null
+          pinned?: boolean
           session_id?: string
+          summarized_message_count?: number
+          summary?: string | null
+          summary_updated_at?: string | null
+          title?: string | null
+          title_edited?: boolean
           updated_at?: string
           user_id?: string | null
           user_name?: string | null
         }
         Relationships: []
       }
+      ielts_attempts: {
+        Row: {
+          answers: Json
+          band_score: number | null
+          correct_count: number | null
+          created_at: string
+          format: string | null
+          id: string
+          module: string
+          question_type: string | null
+          test_mode: string
+          time_used_seconds: number
+          total_questions: number | null
+          user_id: string
+        }
+        Insert: {
+          answers?: Json
+          band_score?: number | null
+          correct_count?: number | null
+          created_at?: string
+          format?: string | null
+          id?: string
+          module: string
+          question_type?: string | null
+          test_mode: string
+          time_used_seconds?: number
+          total_questions?: number | null
+          user_id: string
+        }
+        Update: {
+          answers?: Json
+          band_score?: number | null
+          correct_count?: number | null
+          created_at?: string
+          format?: string | null
+          id?: string
+          module?: string
+          question_type?: string | null
+          test_mode?: string
+          time_used_seconds?: number
+          total_questions?: number | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      learning_activity: {
+        Row: {
+          activities_completed: number
+          activity_date: string
+          created_at: string
+          id: string
+          language: string
+          updated_at: string
+          user_id: string
+          xp: number
+        }
+        Insert: {
+          activities_completed?: number
+          activity_date: string
+          created_at?: string
+          id?: string
+          language: string
+          updated_at?: string
+          user_id: string
+          xp?: number
+        }
+        Update: {
+          activities_completed?: number
+          activity_date?: string
+          created_at?: string
+          id?: string
+          language?: string
+          updated_at?: string
+          user_id?: string
+          xp?: number
+        }
+        Relationships: []
+      }
+      learning_activity_imports: {
+        Row: {
+          imported_at: string
+          user_id: string
+        }
+        Insert: {
+          imported_at?: string
+          user_id: string
+        }
+        Update: {
+          imported_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       messages: {
         Row: {
           content: string
@@ -48,6 +162,7 @@ export type Database = {
           created_at: string
           emotional_tone: string | null
           id: string
+          mode: string | null
           role: string
         }
         Insert: {
@@ -56,6 +171,7 @@ export type Database = {
           created_at?: string
           emotional_tone?: string | null
           id?: string
+          mode?: string | null
           role: string
         }
         Update: {
@@ -64,6 +180,7 @@ export type Database = {
           created_at?: string
           emotional_tone?: string | null
           id?: string
+          mode?: string | null
           role?: string
         }
         Relationships: [
@@ -78,40 +195,215 @@ export type Database = {
       }
       profiles: {
         Row: {
+          cefr_levels: Json
           created_at: string
           display_name: string | null
+          hearts: number
+          hearts_updated_at: string
           id: string
           preferred_language: string | null
+          timezone: string | null
           updated_at: string
           user_id: string
           voice_enabled: boolean | null
         }
         Insert: {
+          cefr_levels?: Json
           created_at?: string
           display_name?: string | null
+          hearts?: number
+          hearts_updated_at?: string
           id?: string
           preferred_language?: string | null
+          timezone?: string | null
           updated_at?: string
           user_id: string
           voice_enabled?: boolean | null
         }
         Update: {
+          cefr_levels?: Json
           created_at?: string
           display_name?: string | null
+          hearts?: number
+          hearts_updated_at?: string
           id?: string
           preferred_language?: string | null
+          timezone?: string | null
           updated_at?: string
           user_id?: string
           voice_enabled?: boolean | null
         }
         Relationships: []
       }
+      rate_limit_counters: {
+        Row: {
+          function_name: string
+          request_count: number
+          subject: string
+          window_kind: string
+          window_start: string
+        }
+        Insert: {
+          function_name: string
+          request_count?: number
+          subject: string
+          window_kind: string
+          window_start: string
+        }
+        Update: {
+          function_name?: string
+          request_count?: number
+          subject?: string
+          window_kind?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      user_facts: {
+        Row: {
+          category: string
+          content: string
+          created_at: string
+          id: string
+          source_conversation_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category: string
+          content: string
+          created_at?: string
+          id?: string
+          source_conversation_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          content?: string
+          created_at?: string
+          id?: string
+          source_conversation_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_facts_source_conversation_id_fkey"
+            columns: ["source_conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vocabulary_cards: {
+        Row: {
+          activity_type: string
+          content: string
+          correct_answer: string
+          created_at: string
+          due_at: string
+          ease_factor: number
+          id: string
+          instruction: string
+          interval_days: number
+          language: string
+          lapses: number
+          last_reviewed_at: string | null
+          options: Json | null
+          repetitions: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          activity_type: string
+          content: string
+          correct_answer: string
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          id?: string
+          instruction: string
+          interval_days?: number
+          language: string
+          lapses?: number
+          last_reviewed_at?: string | null
+          options?: Json | null
+          repetitions?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          activity_type?: string
+          content?: string
+          correct_answer?: string
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          id?: string
+          instruction?: string
+          interval_days?: number
+          language?: string
+          lapses?: number
+          last_reviewed_at?: string | null
+          options?: Json | null
+          repetitions?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      consume_rate_limit: {
+        Args: {
+          _day_limit: number
+          _function_name: string
+          _minute_limit: number
+          _subject: string
+        }
+        Returns: {
+          allowed: boolean
+          day_remaining: number
+          day_reset: string
+          minute_remaining: number
+          minute_reset: string
+        }[]
+      }
+      import_learning_activity: {
+        Args: { _days: Json }
+        Returns: number
+      }
+      learning_activity_today: { Args: never; Returns: string }
+      record_learning_activity: {
+        Args: { _language: string; _xp: number }
+        Returns: {
+          activities_completed: number
+          activity_date: string
+          created_at: string
+          id: string
+          language: string
+          updated_at: string
+          user_id: string
+          xp: number
+        }
+      }
+      replace_user_facts: {
+        Args: { _facts: Json; _source_conversation_id: string }
+        Returns: number
+      }
+      search_conversations: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          conversation_id: string
+          rank: number
+          snippet: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
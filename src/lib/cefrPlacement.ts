@@ -0,0 +1,49 @@
+export type CEFRLevel = "A1" | "A2" | "B1" | "B2" | "C1";
+
+export const CEFR_LEVELS: CEFRLevel[] = ["A1", "A2", "B1", "B2", "C1"];
+
+export const PLACEMENT_ITEM_COUNT = 15;
+
+export interface PlacementResponse {
+  level: CEFRLevel;
+  correct: boolean;
+}
+
+// Rasch-style model: an item at level index b is answered correctly with
+// probability 1 / (1 + e^(-a(θ - b))), so θ = 2 means a coin flip on B1 items
+const DISCRIMINATION = 1.5;
+
+// Start every learner at B1 and let the answers pull the estimate either way
+const PRIOR_MEAN = 2;
+const PRIOR_SD = 1.2;
+
+const THETA_GRID = Array.from({ length: 121 }, (_, i) => -1 + i * 0.05);
+
+const levelIndex = (level: CEFRLevel) => CEFR_LEVELS.indexOf(level);
+
+const clampIndex = (index: number) => Math.min(CEFR_LEVELS.length - 1, Math.max(0, index));
+
+/** Expected a posteriori ability estimate over the response history. */
+export const estimateAbility = (responses: PlacementResponse[]): number => {
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  THETA_GRID.forEach((theta) => {
+    let likelihood = Math.exp(-((theta - PRIOR_MEAN) ** 2) / (2 * PRIOR_SD ** 2));
+    responses.forEach(({ level, correct }) => {
+      const p = 1 / (1 + Math.exp(-DISCRIMINATION * (theta - levelIndex(level))));
+      likelihood *= correct ? p : 1 - p;
+    });
+    weightedSum += theta * likelihood;
+    totalWeight += likelihood;
+  });
+
+  return totalWeight > 0 ? weightedSum / totalWeight : PRIOR_MEAN;
+};
+
+export const estimateLevel = (responses: PlacementResponse[]): CEFRLevel =>
+  CEFR_LEVELS[clampIndex(Math.round(estimateAbility(responses)))];
+
+// The most informative item sits at the current estimate, so a correct answer
+// moves the next item up and a miss moves it down
+export const nextItemLevel = estimateLevel;
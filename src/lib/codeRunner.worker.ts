@@ -0,0 +1,168 @@
+// Runs interview coding solutions off the main thread. The page terminates this
+// worker when a run takes too long, which is the only reliable way to stop an
+// infinite loop.
+
+import type { CodingLanguage, CodingTestResult } from "@/lib/codingProblems";
+
+export interface RunRequest {
+  // Random per run, so a result can't be forged for a run id guessed in advance
+  id: string;
+  language: CodingLanguage;
+  code: string;
+  functionName: string;
+  tests: { args: unknown[]; expected: unknown }[];
+}
+
+export type RunResponse =
+  | { id: string; type: "started" }
+  | { id: string; type: "done"; results: CodingTestResult[]; error: string | null };
+
+interface PyProxy {
+  toJs?: (options: { dict_converter: typeof Object.fromEntries }) => unknown;
+  destroy?: () => void;
+}
+
+interface PyodideRuntime {
+  globals: { get: (name: string) => (...args: unknown[]) => PyProxy & { get: (name: string) => unknown; destroy: () => void } };
+  runPython: (code: string, options?: { globals: unknown }) => unknown;
+  toPy: (value: unknown) => unknown;
+  setStdout: (options: { batched: (output: string) => void }) => void;
+}
+
+const PYODIDE_URL = "https://cdn.jsdelivr.net/pyodide/v0.26.4/full/";
+
+// The app compiles against the DOM lib, so describe just the worker surface we use
+const ctx = self as unknown as {
+  postMessage: (message: RunResponse) => void;
+  onmessage: ((event: MessageEvent<RunRequest>) => void) | null;
+};
+let pyodidePromise: Promise<PyodideRuntime> | null = null;
+
+// Candidate code runs in this global scope, so results go out through references
+// taken before any of it runs: it can't post its own "done" message or swap out
+// the serializer the comparison relies on
+const post = ctx.postMessage.bind(ctx);
+const stringify = JSON.stringify;
+
+// Candidate code has no business talking to the network, storage or the page
+const lockDown = () => {
+  const scope = ctx as unknown as Record<string, unknown>;
+  ["fetch", "XMLHttpRequest", "WebSocket", "EventSource", "importScripts", "indexedDB", "caches"].forEach((key) => {
+    try {
+      scope[key] = undefined;
+    } catch {
+      // Some globals are read-only in some browsers
+    }
+  });
+
+  // postMessage is inherited from the worker scope's prototype, so shadow it on the
+  // scope itself and remove it wherever it is defined up the chain
+  for (let target: object | null = ctx; target; target = Object.getPrototypeOf(target)) {
+    if (target !== ctx && !Object.prototype.hasOwnProperty.call(target, "postMessage")) continue;
+    try {
+      Object.defineProperty(target, "postMessage", { value: undefined, configurable: false, writable: false });
+    } catch {
+      // Already locked down by an earlier run
+    }
+  }
+};
+
+// Key order must not matter when comparing objects
+const canonical = (value: unknown): string =>
+  stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  ) ?? "undefined";
+
+const formatError = (error: unknown) => (error instanceof Error ? error.message : String(error)).split("\n").slice(-3).join("\n");
+
+const compare = (actual: unknown, expected: unknown): CodingTestResult => {
+  const shown = canonical(actual);
+  return { passed: shown === canonical(expected), actual: shown.slice(0, 200) };
+};
+
+const runJavaScript = async (request: RunRequest) => {
+  lockDown();
+  let source = request.code;
+  if (request.language === "typescript") {
+    const { transform } = await import("sucrase");
+    source = transform(source, { transforms: ["typescript"] }).code;
+  }
+
+  post({ id: request.id, type: "started" } satisfies RunResponse);
+
+  const solution = new Function(
+    `"use strict";\n${source}\nreturn typeof ${request.functionName} === "function" ? ${request.functionName} : undefined;`
+  )() as ((...args: unknown[]) => unknown) | undefined;
+
+  if (!solution) {
+    throw new Error(`Define a function named ${request.functionName}`);
+  }
+
+  return request.tests.map((test) => {
+    try {
+      // Each test gets its own copy so a mutating solution can't affect the next one
+      return compare(solution(...structuredClone(test.args)), test.expected);
+    } catch (error) {
+      return { passed: false, error: formatError(error) };
+    }
+  });
+};
+
+const loadPyodideRuntime = () => {
+  if (!pyodidePromise) {
+    pyodidePromise = (async () => {
+      const module = (await import(/* @vite-ignore */ `${PYODIDE_URL}pyodide.mjs`)) as {
+        loadPyodide: (options: { indexURL: string }) => Promise<PyodideRuntime>;
+      };
+      const pyodide = await module.loadPyodide({ indexURL: PYODIDE_URL });
+      pyodide.setStdout({ batched: () => undefined });
+      lockDown();
+      return pyodide;
+    })();
+  }
+  return pyodidePromise;
+};
+
+const runPython = async (request: RunRequest) => {
+  const pyodide = await loadPyodideRuntime();
+  post({ id: request.id, type: "started" } satisfies RunResponse);
+
+  const namespace = pyodide.globals.get("dict")();
+  try {
+    pyodide.runPython(request.code, { globals: namespace });
+    const solution = namespace.get(request.functionName) as (((...args: unknown[]) => unknown) & PyProxy) | undefined;
+    if (typeof solution !== "function") {
+      throw new Error(`Define a function named ${request.functionName}`);
+    }
+
+    const results = request.tests.map((test) => {
+      try {
+        const result: unknown = solution(...test.args.map((arg) => pyodide.toPy(structuredClone(arg))));
+        const proxy = result as PyProxy | null;
+        const value = proxy && typeof proxy === "object" && proxy.toJs
+          ? proxy.toJs({ dict_converter: Object.fromEntries })
+          : result;
+        proxy?.destroy?.();
+        return compare(value === undefined ? null : value, test.expected);
+      } catch (error) {
+        return { passed: false, error: formatError(error) };
+      }
+    });
+    solution.destroy?.();
+    return results;
+  } finally {
+    namespace.destroy();
+  }
+};
+
+ctx.onmessage = async (event: MessageEvent<RunRequest>) => {
+  const request = event.data;
+  try {
+    const results = request.language === "python" ? await runPython(request) : await runJavaScript(request);
+    post({ id: request.id, type: "done", results, error: null } satisfies RunResponse);
+  } catch (error) {
+    post({ id: request.id, type: "done", results: [], error: formatError(error) } satisfies RunResponse);
+  }
+};
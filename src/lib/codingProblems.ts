@@ -0,0 +1,127 @@
+export type CodingLanguage = "javascript" | "typescript" | "python";
+
+export const codingLanguages: { id: CodingLanguage; name: string }[] = [
+  { id: "javascript", name: "JavaScript" },
+  { id: "typescript", name: "TypeScript" },
+  { id: "python", name: "Python" },
+];
+
+export interface CodingTest {
+  args: unknown[];
+  expected: unknown;
+  // Hidden tests only report pass/fail so the candidate can't code to them
+  hidden: boolean;
+}
+
+export interface CodingProblem {
+  id: string;
+  title: string;
+  description: string;
+  functionName: Record<CodingLanguage, string>;
+  starter: Record<CodingLanguage, string>;
+  tests: CodingTest[];
+}
+
+export interface CodingTestResult {
+  passed: boolean;
+  actual?: string;
+  error?: string;
+}
+
+export interface CodingRunResult {
+  results: CodingTestResult[];
+  error: string | null;
+}
+
+/** What the interviewer and the report get once a solution is submitted. */
+export interface CodingRoundResult {
+  problemId: string;
+  title: string;
+  language: CodingLanguage;
+  code: string;
+  passed: number;
+  total: number;
+}
+
+export const codingProblems: CodingProblem[] = [
+  {
+    id: "two-sum",
+    title: "Two Sum",
+    description: "Given an array of integers nums and a target, return the indices [i, j] (i < j) of the two numbers that add up to target. Exactly one pair matches.",
+    functionName: { javascript: "twoSum", typescript: "twoSum", python: "two_sum" },
+    starter: {
+      javascript: "function twoSum(nums, target) {\n  // return [i, j]\n}\n",
+      typescript: "function twoSum(nums: number[], target: number): number[] {\n  // return [i, j]\n  return [];\n}\n",
+      python: "def two_sum(nums, target):\n    # return [i, j]\n    pass\n",
+    },
+    tests: [
+      { args: [[2, 7, 11, 15], 9], expected: [0, 1], hidden: false },
+      { args: [[3, 2, 4], 6], expected: [1, 2], hidden: false },
+      { args: [[3, 3], 6], expected: [0, 1], hidden: true },
+      { args: [[-1, -2, -3, -4, -5], -8], expected: [2, 4], hidden: true },
+      { args: [[0, 4, 3, 0], 0], expected: [0, 3], hidden: true },
+      { args: [[1, 5, 9, 14, 20, 33], 53], expected: [4, 5], hidden: true },
+    ],
+  },
+  {
+    id: "valid-brackets",
+    title: "Valid Brackets",
+    description: "Given a string containing only the characters ()[]{}, return true if every bracket is closed by the same type in the correct order, otherwise false.",
+    functionName: { javascript: "isValid", typescript: "isValid", python: "is_valid" },
+    starter: {
+      javascript: "function isValid(s) {\n  \n}\n",
+      typescript: "function isValid(s: string): boolean {\n  return false;\n}\n",
+      python: "def is_valid(s):\n    pass\n",
+    },
+    tests: [
+      { args: ["()[]{}"], expected: true, hidden: false },
+      { args: ["(]"], expected: false, hidden: false },
+      { args: ["{[()]}"], expected: true, hidden: true },
+      { args: ["(("], expected: false, hidden: true },
+      { args: [")("], expected: false, hidden: true },
+      { args: [""], expected: true, hidden: true },
+      { args: ["([)]"], expected: false, hidden: true },
+    ],
+  },
+  {
+    id: "merge-intervals",
+    title: "Merge Intervals",
+    description: "Given a list of [start, end] intervals, merge all overlapping intervals (touching ends count as overlapping) and return them sorted by start.",
+    functionName: { javascript: "merge", typescript: "merge", python: "merge" },
+    starter: {
+      javascript: "function merge(intervals) {\n  \n}\n",
+      typescript: "function merge(intervals: number[][]): number[][] {\n  return [];\n}\n",
+      python: "def merge(intervals):\n    pass\n",
+    },
+    tests: [
+      { args: [[[1, 3], [2, 6], [8, 10], [15, 18]]], expected: [[1, 6], [8, 10], [15, 18]], hidden: false },
+      { args: [[[1, 4], [4, 5]]], expected: [[1, 5]], hidden: false },
+      { args: [[[5, 7], [1, 2]]], expected: [[1, 2], [5, 7]], hidden: true },
+      { args: [[[1, 10], [2, 3], [4, 5]]], expected: [[1, 10]], hidden: true },
+      { args: [[]], expected: [], hidden: true },
+      { args: [[[2, 3], [1, 2], [6, 8], [7, 7]]], expected: [[1, 3], [6, 8]], hidden: true },
+    ],
+  },
+  {
+    id: "first-unique",
+    title: "First Unique Character",
+    description: "Given a string s, return the index of the first character that appears exactly once, or -1 if there is none.",
+    functionName: { javascript: "firstUniqChar", typescript: "firstUniqChar", python: "first_uniq_char" },
+    starter: {
+      javascript: "function firstUniqChar(s) {\n  \n}\n",
+      typescript: "function firstUniqChar(s: string): number {\n  return -1;\n}\n",
+      python: "def first_uniq_char(s):\n    pass\n",
+    },
+    tests: [
+      { args: ["leetcode"], expected: 0, hidden: false },
+      { args: ["loveleetcode"], expected: 2, hidden: false },
+      { args: ["aabb"], expected: -1, hidden: true },
+      { args: [""], expected: -1, hidden: true },
+      { args: ["z"], expected: 0, hidden: true },
+      { args: ["abcabd"], expected: 2, hidden: true },
+    ],
+  },
+];
+
+export const pickCodingProblem = (): CodingProblem =>
+  codingProblems[Math.floor(Math.random() * codingProblems.length)];
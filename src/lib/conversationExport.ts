@@ -0,0 +1,139 @@
+export type ExportFormat = "markdown" | "json" | "pdf";
+
+export interface ExportMessage {
+  role: string;
+  content: string;
+  emotional_tone: string | null;
+  mode: string | null;
+  created_at: string;
+}
+
+export interface ExportConversation {
+  id: string;
+  title: string;
+  mode: string | null;
+  created_at: string;
+  messages: ExportMessage[];
+}
+
+const speakerLabel = (role: string) => (role === "assistant" ? "Buddy" : role === "user" ? "You" : "System");
+
+const fileSlug = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 50) || "conversation";
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const conversationToMarkdown = (conversation: ExportConversation): string => {
+  const details = [
+    `- Started: ${new Date(conversation.created_at).toLocaleString()}`,
+    ...(conversation.mode ? [`- Mode: ${conversation.mode}`] : []),
+    `- Messages: ${conversation.messages.length}`,
+  ].join("\n");
+
+  // Mark the points where the user switched modes mid-conversation
+  const body = conversation.messages.map((m, i) => {
+    const previousMode = conversation.messages[i - 1]?.mode;
+    const switched = i > 0 && m.mode && previousMode && m.mode !== previousMode ? `_Switched to ${m.mode} mode_\n\n` : "";
+    return `${switched}### ${speakerLabel(m.role)} · ${new Date(m.created_at).toLocaleString()}\n\n${m.content}`;
+  });
+
+  return [`# ${conversation.title}`, details, ...body].join("\n\n") + "\n";
+};
+
+export const conversationToJSON = (conversation: ExportConversation): string =>
+  JSON.stringify(
+    {
+      id: conversation.id,
+      title: conversation.title,
+      mode: conversation.mode,
+      createdAt: conversation.created_at,
+      exportedAt: new Date().toISOString(),
+      messages: conversation.messages.map((m) => ({
+        role: m.role,
+        content: m.content,
+        emotionalTone: m.emotional_tone,
+        mode: m.mode,
+        createdAt: m.created_at,
+      })),
+    },
+    null,
+    2
+  );
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Renders the conversation into a print-ready window and opens the browser's
+ * print dialog, where "Save as PDF" produces the file. Returns false when the
+ * window was blocked.
+ */
+const printConversation = (conversation: ExportConversation): boolean => {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) return false;
+
+  const messagesHtml = conversation.messages
+    .map((m) => `
+      <div class="message ${m.role}">
+        <div class="meta">${speakerLabel(m.role)} · ${escapeHtml(new Date(m.created_at).toLocaleString())}</div>
+        <div class="content">${escapeHtml(m.content)}</div>
+      </div>`)
+    .join("");
+
+  printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(conversation.title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 720px; margin: 32px auto; color: #111; }
+    h1 { font-size: 20px; margin-bottom: 4px; }
+    .subtitle { color: #666; font-size: 12px; margin-bottom: 24px; }
+    .message { margin-bottom: 16px; page-break-inside: avoid; }
+    .meta { font-size: 11px; color: #666; margin-bottom: 4px; }
+    .content { white-space: pre-wrap; font-size: 13px; line-height: 1.5; padding: 10px 12px; border-radius: 8px; background: #f4f4f5; }
+    .message.user .content { background: #eef2ff; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(conversation.title)}</h1>
+  <div class="subtitle">
+    ${escapeHtml(new Date(conversation.created_at).toLocaleString())}${conversation.mode ? ` · ${escapeHtml(conversation.mode)}` : ""} · ${conversation.messages.length} messages
+  </div>
+  ${messagesHtml}
+</body>
+</html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+};
+
+export const exportConversation = (conversation: ExportConversation, format: ExportFormat): boolean => {
+  const slug = fileSlug(conversation.title);
+
+  switch (format) {
+    case "markdown":
+      downloadFile(`${slug}.md`, conversationToMarkdown(conversation), "text/markdown");
+      return true;
+    case "json":
+      downloadFile(`${slug}.json`, conversationToJSON(conversation), "application/json");
+      return true;
+    case "pdf":
+      return printConversation(conversation);
+  }
+};
@@ -0,0 +1,135 @@
+import type { CEFRLevel } from "@/lib/cefrPlacement";
+
+export type BewertungsGrade = "A" | "B" | "C" | "D" | "E";
+
+export type SchreibenCriterion = "erfuellung" | "kohaerenz" | "wortschatz" | "strukturen";
+
+export const schreibenCriteria: { id: SchreibenCriterion; name: string }[] = [
+  { id: "erfuellung", name: "Erfüllung der Aufgabenstellung" },
+  { id: "kohaerenz", name: "Kohärenz" },
+  { id: "wortschatz", name: "Wortschatz" },
+  { id: "strukturen", name: "Strukturen" },
+];
+
+// Points available for the single Schreiben task we set at each level,
+// taken from the corresponding Teil of the official Goethe scale
+export const schreibenMaxPoints: Record<CEFRLevel, number> = {
+  A1: 10,
+  A2: 10,
+  B1: 40,
+  B2: 60,
+  C1: 60,
+};
+
+export const GOETHE_PASS_PERCENTAGE = 60;
+
+// Goethe examiners grade each criterion A–E; A earns full points, E none
+const gradeFactors: Record<BewertungsGrade, number> = {
+  A: 1,
+  B: 0.75,
+  C: 0.5,
+  D: 0.25,
+  E: 0,
+};
+
+export interface SchreibenCriterionScore {
+  id: SchreibenCriterion;
+  name: string;
+  grade: BewertungsGrade;
+  points: number;
+  maxPoints: number;
+}
+
+export interface SchreibenScore {
+  criteria: SchreibenCriterionScore[];
+  points: number;
+  maxPoints: number;
+  percentage: number;
+  passed: boolean;
+}
+
+/**
+ * Converts per-criterion grades into points on the level's scale. Points are
+ * split evenly across the four criteria and rounded to half points.
+ */
+export const calculateSchreibenScore = (
+  grades: Record<SchreibenCriterion, BewertungsGrade>,
+  level: CEFRLevel
+): SchreibenScore => {
+  const maxPoints = schreibenMaxPoints[level];
+  const perCriterion = maxPoints / schreibenCriteria.length;
+
+  const criteria = schreibenCriteria.map(({ id, name }) => {
+    const grade = grades[id] ?? "E";
+    return {
+      id,
+      name,
+      grade,
+      points: Math.round(perCriterion * gradeFactors[grade] * 2) / 2,
+      maxPoints: perCriterion,
+    };
+  });
+
+  const points = criteria.reduce((sum, c) => sum + c.points, 0);
+  const percentage = Math.round((points / maxPoints) * 100);
+
+  return {
+    criteria,
+    points,
+    maxPoints,
+    percentage,
+    passed: percentage >= GOETHE_PASS_PERCENTAGE,
+  };
+};
+
+export type GoetheModule = "lesen" | "hoeren" | "schreiben" | "sprechen";
+
+// Official module durations in minutes (Sprechen includes preparation time)
+export const goetheModuleDurations: Record<CEFRLevel, Record<GoetheModule, number>> = {
+  A1: { lesen: 25, hoeren: 20, schreiben: 20, sprechen: 15 },
+  A2: { lesen: 30, hoeren: 30, schreiben: 30, sprechen: 15 },
+  B1: { lesen: 65, hoeren: 40, schreiben: 60, sprechen: 15 },
+  B2: { lesen: 65, hoeren: 40, schreiben: 75, sprechen: 15 },
+  C1: { lesen: 65, hoeren: 40, schreiben: 80, sprechen: 20 },
+};
+
+// From B1 upwards each module is certified on its own; A1 and A2 are
+// passed on the combined score across all four modules
+export const isModularLevel = (level: CEFRLevel): boolean =>
+  level === "B1" || level === "B2" || level === "C1";
+
+export interface GoetheModuleResult {
+  module: GoetheModule;
+  percentage: number;
+  passed: boolean;
+}
+
+export interface GoetheMockResult {
+  level: CEFRLevel;
+  modular: boolean;
+  modules: GoetheModuleResult[];
+  totalPercentage: number;
+  passed: boolean;
+}
+
+export const evaluateMockResult = (
+  level: CEFRLevel,
+  percentages: Record<GoetheModule, number>
+): GoetheMockResult => {
+  const modules = (Object.keys(goetheModuleDurations[level]) as GoetheModule[]).map((module) => {
+    const percentage = Math.round(percentages[module] ?? 0);
+    return { module, percentage, passed: percentage >= GOETHE_PASS_PERCENTAGE };
+  });
+
+  // Every module carries the same weight in the combined score
+  const totalPercentage = Math.round(modules.reduce((sum, m) => sum + m.percentage, 0) / modules.length);
+  const modular = isModularLevel(level);
+
+  return {
+    level,
+    modular,
+    modules,
+    totalPercentage,
+    passed: modular ? modules.every((m) => m.passed) : totalPercentage >= GOETHE_PASS_PERCENTAGE,
+  };
+};
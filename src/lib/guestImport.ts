@@ -0,0 +1,205 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { PlacementResult } from "@/hooks/useCEFRLevels";
+import type { IELTSAttempt } from "@/hooks/useIELTSAttempts";
+import type { GuestProgress } from "@/hooks/useLearningProgress";
+import type { VocabularyCard } from "@/hooks/useVocabularyDeck";
+import {
+  deleteGuestConversation,
+  deleteGuestRecord,
+  getGuestConversations,
+  getGuestMessages,
+  loadGuestRecord,
+} from "@/lib/guestStore";
+
+export interface GuestDataSummary {
+  conversations: number;
+  vocabularyCards: number;
+  xp: number;
+  cefrLevels: number;
+  ieltsAttempts: number;
+}
+
+export const hasGuestData = (summary: GuestDataSummary) => Object.values(summary).some((count) => count > 0);
+
+/** Counts what this device's guest session has stored, for the import prompt. */
+export const summarizeGuestData = async (): Promise<GuestDataSummary> => {
+  const conversations = await getGuestConversations();
+  const messageCounts = await Promise.all(conversations.map(async (conv) => (await getGuestMessages(conv.id)).length));
+
+  const [deck, progress, levels, attempts] = await Promise.all([
+    loadGuestRecord<VocabularyCard[]>("vocab_deck"),
+    loadGuestRecord<Partial<GuestProgress>>("learning_progress"),
+    loadGuestRecord<Record<string, PlacementResult>>("cefr_levels"),
+    loadGuestRecord<IELTSAttempt[]>("ielts_attempts"),
+  ]);
+
+  return {
+    conversations: messageCounts.filter((count) => count > 0).length,
+    vocabularyCards: deck?.length ?? 0,
+    xp: (progress?.activity ?? []).reduce((sum, day) => sum + day.xp, 0),
+    cefrLevels: Object.keys(levels ?? {}).length,
+    ieltsAttempts: attempts?.length ?? 0,
+  };
+};
+
+const importConversations = async (userId: string) => {
+  for (const conv of await getGuestConversations()) {
+    const messages = await getGuestMessages(conv.id);
+
+    if (messages.length > 0) {
+      // Guest IDs are UUIDs already, so a retried import skips what made it across
+      const { error: conversationError } = await supabase
+        .from("conversations")
+        .upsert({
+          id: conv.id,
+          session_id: conv.sessionId,
+          user_id: userId,
+          user_name: conv.userName,
+          mode: conv.mode,
+          created_at: conv.createdAt,
+          updated_at: conv.updatedAt,
+        }, { onConflict: "id", ignoreDuplicates: true });
+
+      if (conversationError) throw conversationError;
+
+      const { error: messagesError } = await supabase
+        .from("messages")
+        .upsert(messages.map((m) => ({
+          id: m.id,
+          conversation_id: conv.id,
+          role: m.role,
+          content: m.content,
+          emotional_tone: m.emotionalTone,
+          mode: m.mode,
+          created_at: m.createdAt,
+        })), { onConflict: "id", ignoreDuplicates: true });
+
+      if (messagesError) throw messagesError;
+    }
+
+    await deleteGuestConversation(conv.id);
+  }
+};
+
+const importVocabularyDeck = async (userId: string) => {
+  const deck = await loadGuestRecord<VocabularyCard[]>("vocab_deck");
+
+  if (deck && deck.length > 0) {
+    // Cards the account already has keep their own review history
+    const { error } = await supabase
+      .from("vocabulary_cards")
+      .upsert(deck.map((card) => ({
+        user_id: userId,
+        language: card.language,
+        activity_type: card.activityType,
+        instruction: card.instruction,
+        content: card.content,
+        options: card.options as Json,
+        correct_answer: card.correctAnswer,
+        ease_factor: card.easeFactor,
+        interval_days: card.intervalDays,
+        repetitions: card.repetitions,
+        lapses: card.lapses,
+        due_at: card.dueAt,
+        last_reviewed_at: card.lastReviewedAt,
+        created_at: card.createdAt,
+      })), { onConflict: "user_id,language,content", ignoreDuplicates: true });
+
+    if (error) throw error;
+  }
+
+  await deleteGuestRecord("vocab_deck");
+};
+
+const importLearningActivity = async () => {
+  const progress = await loadGuestRecord<Partial<GuestProgress>>("learning_progress");
+  const days = progress?.activity ?? [];
+
+  // The server imports guest days into an account only once, capping each day
+  // and skipping days older than a year or in the future
+  if (days.length > 0) {
+    const { error } = await supabase.rpc("import_learning_activity", {
+      _days: days as unknown as Json,
+    });
+
+    if (error) throw error;
+  }
+
+  // Hearts are not carried over; the account keeps its own
+  await deleteGuestRecord("learning_progress");
+};
+
+const importCEFRLevels = async (userId: string) => {
+  const guestLevels = await loadGuestRecord<Record<string, PlacementResult>>("cefr_levels");
+
+  if (guestLevels && Object.keys(guestLevels).length > 0) {
+    const { data: profile, error: profileError } = await supabase
+      .from("profiles")
+      .select("cefr_levels")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+
+    // Keep whichever placement result is more recent per language
+    const merged = { ...((profile?.cefr_levels ?? {}) as unknown as Record<string, PlacementResult>) };
+    Object.entries(guestLevels).forEach(([language, result]) => {
+      if (!merged[language] || merged[language].testedAt < result.testedAt) {
+        merged[language] = result;
+      }
+    });
+
+    const { error } = await supabase
+      .from("profiles")
+      .upsert({ user_id: userId, cefr_levels: merged as unknown as Json }, { onConflict: "user_id" });
+
+    if (error) throw error;
+  }
+
+  await deleteGuestRecord("cefr_levels");
+};
+
+const importIELTSAttempts = async (userId: string) => {
+  const attempts = await loadGuestRecord<IELTSAttempt[]>("ielts_attempts");
+
+  if (attempts && attempts.length > 0) {
+    const { error } = await supabase
+      .from("ielts_attempts")
+      .upsert(attempts.map((attempt) => {
+        // Attempts saved before the format had its own field kept it in the answers
+        const { format: legacyFormat, ...answers } = attempt.answers;
+        return {
+          id: attempt.id,
+          user_id: userId,
+          module: attempt.module,
+          test_mode: attempt.testMode,
+          question_type: attempt.questionType,
+          format: attempt.format ?? (legacyFormat === "academic" || legacyFormat === "general" ? legacyFormat : null),
+          answers: answers as Json,
+          correct_count: attempt.correctCount,
+          total_questions: attempt.totalQuestions,
+          time_used_seconds: attempt.timeUsedSeconds,
+          band_score: attempt.bandScore,
+          created_at: attempt.createdAt,
+        };
+      }), { onConflict: "id", ignoreDuplicates: true });
+
+    if (error) throw error;
+  }
+
+  await deleteGuestRecord("ielts_attempts");
+};
+
+/**
+ * Copies this device's guest data into the signed-in account. Each kind of data
+ * is removed from the device as soon as it has been imported, so a failed import
+ * can be retried without duplicating what already made it across.
+ */
+export const importGuestDataToAccount = async (userId: string): Promise<void> => {
+  await importConversations(userId);
+  await importVocabularyDeck(userId);
+  await importLearningActivity();
+  await importCEFRLevels(userId);
+  await importIELTSAttempts(userId);
+};
@@ -0,0 +1,185 @@
+import { v4 as uuidv4 } from "uuid";
+import type { ConversationMode } from "@/components/ModeSelector";
+
+// Guests keep their conversations and practice results in IndexedDB, scoped to
+// the device's session ID, until they sign in and import them into an account
+
+const DB_NAME = "yourbuddy_guest";
+const DB_VERSION = 1;
+const SESSION_ID_KEY = "yourbuddy_session_id";
+
+export type GuestRecordKey = "vocab_deck" | "learning_progress" | "cefr_levels" | "ielts_attempts";
+
+// Practice data used to live in localStorage; it is moved over on first read
+const legacyKeys: Partial<Record<GuestRecordKey, string>> = {
+  vocab_deck: "yourbuddy_vocab_deck",
+  learning_progress: "yourbuddy_learning_progress",
+  cefr_levels: "yourbuddy_cefr_levels",
+};
+
+export interface GuestConversation {
+  id: string;
+  sessionId: string;
+  userName: string | null;
+  mode: ConversationMode;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GuestMessage {
+  id: string;
+  conversationId: string;
+  role: "user" | "assistant";
+  content: string;
+  emotionalTone: string | null;
+  mode: ConversationMode | null;
+  createdAt: string;
+}
+
+interface GuestRecord {
+  sessionId: string;
+  key: GuestRecordKey;
+  value: unknown;
+  updatedAt: string;
+}
+
+type StoreName = "conversations" | "messages" | "records";
+
+// Get or create a session ID that persists across page reloads
+export const getSessionId = (): string => {
+  let sessionId = localStorage.getItem(SESSION_ID_KEY);
+  if (!sessionId) {
+    sessionId = uuidv4();
+    localStorage.setItem(SESSION_ID_KEY, sessionId);
+  }
+  return sessionId;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore("conversations", { keyPath: "id" }).createIndex("sessionId", "sessionId");
+        db.createObjectStore("messages", { keyPath: "id" }).createIndex("conversationId", "conversationId");
+        db.createObjectStore("records", { keyPath: ["sessionId", "key"] }).createIndex("sessionId", "sessionId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Resolves once the transaction has committed, with the result of the last request
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const loadGuestRecord = async <T>(key: GuestRecordKey): Promise<T | null> => {
+  const sessionId = getSessionId();
+  const record = await withStore<GuestRecord | undefined>("records", "readonly", (store) => store.get([sessionId, key]));
+  if (record) return record.value as T;
+
+  const legacyKey = legacyKeys[key];
+  const legacy = legacyKey ? localStorage.getItem(legacyKey) : null;
+  if (!legacyKey || !legacy) return null;
+
+  try {
+    const value = JSON.parse(legacy) as T;
+    await saveGuestRecord(key, value);
+    localStorage.removeItem(legacyKey);
+    return value;
+  } catch {
+    return null;
+  }
+};
+
+export const saveGuestRecord = async <T>(key: GuestRecordKey, value: T): Promise<void> => {
+  const record: GuestRecord = { sessionId: getSessionId(), key, value, updatedAt: new Date().toISOString() };
+  await withStore("records", "readwrite", (store) => store.put(record));
+};
+
+export const deleteGuestRecord = async (key: GuestRecordKey): Promise<void> => {
+  await withStore("records", "readwrite", (store) => store.delete([getSessionId(), key]));
+  const legacyKey = legacyKeys[key];
+  if (legacyKey) localStorage.removeItem(legacyKey);
+};
+
+/** The session's guest conversations, most recently active first. */
+export const getGuestConversations = async (): Promise<GuestConversation[]> => {
+  const conversations = await withStore<GuestConversation[]>("conversations", "readonly", (store) =>
+    store.index("sessionId").getAll(getSessionId())
+  );
+  return conversations.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const createGuestConversation = async (
+  values: Pick<GuestConversation, "userName" | "mode">
+): Promise<GuestConversation> => {
+  const now = new Date().toISOString();
+  const conversation: GuestConversation = {
+    id: uuidv4(),
+    sessionId: getSessionId(),
+    ...values,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await withStore("conversations", "readwrite", (store) => store.put(conversation));
+  return conversation;
+};
+
+export const updateGuestConversation = async (
+  id: string,
+  values: Partial<Pick<GuestConversation, "userName" | "mode">>
+): Promise<void> => {
+  await withStore<void>("conversations", "readwrite", (store) => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) {
+        store.put({ ...request.result, ...values, updatedAt: new Date().toISOString() });
+      }
+    };
+  });
+};
+
+export const getGuestMessages = async (conversationId: string): Promise<GuestMessage[]> => {
+  const messages = await withStore<GuestMessage[]>("messages", "readonly", (store) =>
+    store.index("conversationId").getAll(conversationId)
+  );
+  return messages.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const addGuestMessage = async (message: Omit<GuestMessage, "id" | "createdAt">): Promise<void> => {
+  await withStore("messages", "readwrite", (store) =>
+    store.put({ ...message, id: uuidv4(), createdAt: new Date().toISOString() })
+  );
+  await updateGuestConversation(message.conversationId, {});
+};
+
+/** Removes a guest conversation and its messages, e.g. once it has been imported. */
+export const deleteGuestConversation = async (id: string): Promise<void> => {
+  const messages = await getGuestMessages(id);
+  await withStore<void>("messages", "readwrite", (store) => {
+    messages.forEach((message) => store.delete(message.id));
+  });
+  await withStore("conversations", "readwrite", (store) => store.delete(id));
+};
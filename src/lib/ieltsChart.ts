@@ -0,0 +1,172 @@
+export type IELTSChartType = "bar" | "line" | "pie" | "table" | "process" | "map";
+
+export interface ChartSeries {
+  name: string;
+  values: number[];
+}
+
+export interface ChartMapSnapshot {
+  label: string;
+  features: string[];
+}
+
+// Must match the spec validated by the generate-chart function. Bar, line and
+// table charts use categories × series; pie charts use categories as segments
+// and one series per pie; process and map charts use steps and maps instead.
+export interface IELTSChartSpec {
+  type: IELTSChartType;
+  title: string;
+  description: string;
+  unit: string;
+  categories: string[];
+  series: ChartSeries[];
+  steps: string[];
+  maps: ChartMapSnapshot[];
+}
+
+const emptyParts = { categories: [], series: [], steps: [], maps: [] };
+
+// Shown when generation is unavailable, so every chart type still has real figures
+export const SAMPLE_CHARTS: Record<IELTSChartType, IELTSChartSpec> = {
+  bar: {
+    ...emptyParts,
+    type: "bar",
+    title: "Households with internet access, 2010–2020",
+    description: "The bar chart compares the percentage of households with internet access in four countries (USA, UK, Germany and Japan) in 2010, 2015 and 2020.",
+    unit: "%",
+    categories: ["2010", "2015", "2020"],
+    series: [
+      { name: "USA", values: [71, 78, 89] },
+      { name: "UK", values: [73, 86, 96] },
+      { name: "Germany", values: [82, 90, 94] },
+      { name: "Japan", values: [67, 79, 91] },
+    ],
+  },
+  line: {
+    ...emptyParts,
+    type: "line",
+    title: "City populations, 1970–2020",
+    description: "The line graph illustrates the population of three cities between 1970 and 2020.",
+    unit: "millions",
+    categories: ["1970", "1980", "1990", "2000", "2010", "2020"],
+    series: [
+      { name: "Lagos", values: [1.4, 2.6, 4.8, 7.3, 10.4, 14.4] },
+      { name: "Tokyo", values: [23.3, 28.5, 32.5, 34.4, 36.8, 37.4] },
+      { name: "London", values: [7.5, 6.8, 6.8, 7.3, 8.0, 9.3] },
+    ],
+  },
+  pie: {
+    ...emptyParts,
+    type: "pie",
+    title: "Household energy use by purpose, 2000 and 2020",
+    description: "The pie charts compare how household energy was used for heating, cooling, appliances and lighting in 2000 and 2020.",
+    unit: "%",
+    categories: ["Heating", "Cooling", "Appliances", "Lighting"],
+    series: [
+      { name: "2000", values: [52, 9, 26, 13] },
+      { name: "2020", values: [41, 17, 34, 8] },
+    ],
+  },
+  table: {
+    ...emptyParts,
+    type: "table",
+    title: "University enrolment by faculty, 2018–2022",
+    description: "The table shows the number of students enrolled in five university faculties from 2018 to 2022.",
+    unit: "students",
+    categories: ["2018", "2020", "2022"],
+    series: [
+      { name: "Engineering", values: [1850, 2100, 2420] },
+      { name: "Medicine", values: [960, 1010, 1180] },
+      { name: "Business", values: [2300, 2150, 2050] },
+      { name: "Arts", values: [1420, 1200, 980] },
+      { name: "Law", values: [740, 760, 810] },
+    ],
+  },
+  process: {
+    ...emptyParts,
+    type: "process",
+    title: "Recycling plastic bottles",
+    description: "The diagram illustrates the process of recycling plastic bottles, from collection to the production of new products.",
+    unit: "",
+    steps: [
+      "Used bottles are collected from households and recycling points",
+      "Bottles are sorted by plastic type and colour",
+      "Labels and caps are removed and the bottles are washed",
+      "Clean bottles are shredded into small flakes",
+      "Flakes are melted and formed into pellets",
+      "Pellets are used to manufacture new bottles, clothing and packaging",
+    ],
+  },
+  map: {
+    ...emptyParts,
+    type: "map",
+    title: "Town centre, 1990 and 2020",
+    description: "The maps compare the layout of a town centre in 1990 and 2020.",
+    unit: "",
+    maps: [
+      {
+        label: "1990",
+        features: [
+          "Main road runs through the centre with two-way traffic",
+          "Large car park north of the high street",
+          "Row of small shops along the high street",
+          "Park with a pond in the south-east",
+        ],
+      },
+      {
+        label: "2020",
+        features: [
+          "Main road replaced by a pedestrian zone with a tram line",
+          "Car park converted into a shopping centre",
+          "Shops on the high street turned into cafés and apartments",
+          "Park reduced in size; pond replaced by a playground",
+        ],
+      },
+    ],
+  },
+};
+
+export const formatChartValue = (value: number, unit: string) =>
+  unit === "%" ? `${value}%` : `${value.toLocaleString()}${unit ? ` ${unit}` : ""}`;
+
+/**
+ * Plain-text rendering of the data behind a chart, given to the examiner so it
+ * can check the figures a candidate reports.
+ */
+export const chartSpecToText = (spec: IELTSChartSpec): string => {
+  const lines = [`${spec.title} (${spec.type})`];
+
+  if (spec.type === "process") {
+    spec.steps.forEach((step, index) => lines.push(`Stage ${index + 1}: ${step}`));
+  } else if (spec.type === "map") {
+    spec.maps.forEach((map) => {
+      lines.push(`${map.label}:`);
+      map.features.forEach((feature) => lines.push(`- ${feature}`));
+    });
+  } else {
+    spec.series.forEach((series) => {
+      const values = series.values.map((value, index) => `${spec.categories[index]}: ${formatChartValue(value, spec.unit)}`);
+      lines.push(`${series.name} — ${values.join(", ")}`);
+    });
+  }
+
+  return lines.join("\n");
+};
+
+// Themes for generated Task 1 visuals, in the spirit of past Academic papers
+export const TASK1_TOPICS = [
+  "energy consumption",
+  "transport and commuting",
+  "household spending",
+  "education and enrolment",
+  "tourism",
+  "employment by sector",
+  "waste and recycling",
+  "internet and technology use",
+  "population and migration",
+  "food and agriculture",
+];
+
+/** The Task 1 instruction for a chart, built from the same spec that draws it. */
+export const task1Prompt = (spec: IELTSChartSpec): string =>
+  `${spec.description} Summarise the information by selecting and reporting the main features, and make comparisons where relevant.`;
@@ -0,0 +1,84 @@
+export type IELTSTestFormat = "academic" | "general";
+
+export type BandScoredModule = "listening" | "reading" | "writing" | "speaking";
+
+// Raw score (out of 40) → band. Each entry is [minimum raw score, band],
+// highest first, following the published IELTS conversion tables.
+type ConversionTable = readonly (readonly [number, number])[];
+
+const LISTENING_TABLE: ConversionTable = [
+  [39, 9], [37, 8.5], [35, 8], [32, 7.5], [30, 7], [26, 6.5], [23, 6],
+  [18, 5.5], [16, 5], [13, 4.5], [10, 4], [8, 3.5], [6, 3], [4, 2.5],
+  [3, 2], [2, 1.5], [1, 1],
+];
+
+const ACADEMIC_READING_TABLE: ConversionTable = [
+  [39, 9], [37, 8.5], [35, 8], [33, 7.5], [30, 7], [27, 6.5], [23, 6],
+  [19, 5.5], [15, 5], [13, 4.5], [10, 4], [8, 3.5], [6, 3], [4, 2.5],
+  [3, 2], [2, 1.5], [1, 1],
+];
+
+const GENERAL_READING_TABLE: ConversionTable = [
+  [40, 9], [39, 8.5], [37, 8], [36, 7.5], [34, 7], [32, 6.5], [30, 6],
+  [27, 5.5], [23, 5], [19, 4.5], [15, 4], [12, 3.5], [9, 3], [6, 2.5],
+  [4, 2], [2, 1.5], [1, 1],
+];
+
+export const RAW_SCORE_MAX = 40;
+
+const lookupBand = (table: ConversionTable, rawScore: number): number => {
+  for (const [minScore, band] of table) {
+    if (rawScore >= minScore) return band;
+  }
+  return 0;
+};
+
+/**
+ * Scales a score from a shorter practice set onto the 40-question scale
+ * the conversion tables are defined against.
+ */
+export const toRawScore = (correct: number, total: number): number => {
+  if (total <= 0) return 0;
+  const clamped = Math.min(Math.max(correct, 0), total);
+  return Math.round((clamped / total) * RAW_SCORE_MAX);
+};
+
+export const listeningBand = (rawScore: number): number =>
+  lookupBand(LISTENING_TABLE, rawScore);
+
+export const readingBand = (rawScore: number, format: IELTSTestFormat): number =>
+  lookupBand(format === "general" ? GENERAL_READING_TABLE : ACADEMIC_READING_TABLE, rawScore);
+
+/**
+ * Band for an objectively marked module given the correct count and the
+ * number of questions attempted.
+ */
+export const calculateObjectiveBand = (
+  module: "listening" | "reading",
+  correct: number,
+  total: number,
+  format: IELTSTestFormat = "academic"
+): number => {
+  const rawScore = toRawScore(correct, total);
+  return module === "listening" ? listeningBand(rawScore) : readingBand(rawScore, format);
+};
+
+/** Rounds any band to the nearest half band. */
+export const roundToHalfBand = (band: number): number =>
+  Math.min(9, Math.max(0, Math.round(band * 2) / 2));
+
+/**
+ * Overall band from the four module bands. IELTS rounds the mean to the
+ * nearest half band, with .25 rounding up to .5 and .75 up to the next whole band.
+ */
+export const calculateOverallBand = (bands: Record<BandScoredModule, number>): number => {
+  const values = [bands.listening, bands.reading, bands.writing, bands.speaking];
+  const mean = values.reduce((sum, band) => sum + band, 0) / values.length;
+  const whole = Math.floor(mean);
+  const fraction = mean - whole;
+
+  // Compare against thresholds with a small tolerance for float noise
+  if (fraction >= 0.75 - 1e-9) return whole + 1;
+  if (fraction >= 0.25 - 1e-9) return whole + 0.5;
+  return whole;
+};
@@ -0,0 +1,176 @@
+// Rubric scoring for mock interviews. The evaluate-interview function scores each
+// answer 0-4 per criterion and quotes the passage behind every score; this module
+// turns those into the report's 0-100 dimensions without any randomness.
+
+export type RubricCriterion = "relevance" | "star" | "specificity" | "impact" | "technical";
+
+export interface CriterionResult {
+  score: number;
+  evidence: string;
+}
+
+export type AnswerRubric = Record<RubricCriterion, CriterionResult>;
+
+export interface InterviewAnswer {
+  question: string;
+  answer: string;
+}
+
+export interface PairedAnswer extends InterviewAnswer {
+  // Rubric already scored during the interview, if any
+  rubric: AnswerRubric | null;
+}
+
+/** Per-answer result shown under each reply while the interview runs. */
+export interface AnswerFeedback {
+  communication: number;
+  confidence: number;
+  clarity: number;
+  rubric: AnswerRubric;
+  modelAnswer: string;
+  tip: string;
+}
+
+export interface PerformanceScore {
+  communication: number;
+  technicalKnowledge: number;
+  problemSolving: number;
+  confidence: number;
+  clarity: number;
+}
+
+export type PerformanceDimension = keyof PerformanceScore;
+
+export interface EvidenceCitation {
+  answerIndex: number;
+  criterion: RubricCriterion;
+  score: number;
+  excerpt: string;
+}
+
+export const RUBRIC_MAX = 4;
+
+export const CRITERION_LABELS: Record<RubricCriterion, string> = {
+  relevance: "Relevance",
+  star: "STAR structure",
+  specificity: "Specificity",
+  impact: "Quantified impact",
+  technical: "Technical correctness",
+};
+
+// Which rubric criteria each report dimension is built from
+export const DIMENSION_CRITERIA: Record<PerformanceDimension, RubricCriterion[]> = {
+  communication: ["relevance", "specificity"],
+  technicalKnowledge: ["technical"],
+  problemSolving: ["star", "impact"],
+  confidence: ["specificity", "impact"],
+  clarity: ["star", "relevance"],
+};
+
+// Questions are kept short for the request; the actual question ends the interviewer's turn
+const MAX_QUESTION_CHARS = 2000;
+const MAX_ANSWER_CHARS = 5000;
+
+// The evaluate-interview function scores at most this many answers per request
+export const MAX_ANSWERS_PER_EVALUATION = 15;
+
+/**
+ * Scores answers in requests of at most MAX_ANSWERS_PER_EVALUATION, one after
+ * another, and returns the results in the original order.
+ */
+export const evaluateInBatches = async <T, R>(
+  answers: T[],
+  evaluate: (batch: T[]) => Promise<R[]>
+): Promise<R[]> => {
+  const results: R[] = [];
+  for (let start = 0; start < answers.length; start += MAX_ANSWERS_PER_EVALUATION) {
+    results.push(...(await evaluate(answers.slice(start, start + MAX_ANSWERS_PER_EVALUATION))));
+  }
+  return results;
+};
+
+/**
+ * Pairs every candidate reply with the interviewer turn that preceded it.
+ * Consecutive replies are joined into one answer, which then needs rescoring.
+ */
+export const pairInterviewAnswers = (
+  messages: Array<{ role: "user" | "interviewer"; content: string; feedback?: AnswerFeedback }>
+): PairedAnswer[] => {
+  const pairs: PairedAnswer[] = [];
+  let question = "";
+  let previousRole: "user" | "interviewer" | null = null;
+
+  messages.forEach((message) => {
+    if (message.role === "interviewer") {
+      question = message.content.slice(-MAX_QUESTION_CHARS);
+    } else if (message.content.trim()) {
+      if (previousRole === "user" && pairs.length > 0) {
+        const last = pairs[pairs.length - 1];
+        last.answer = `${last.answer} ${message.content.trim()}`.slice(0, MAX_ANSWER_CHARS);
+        last.rubric = null;
+      } else {
+        pairs.push({
+          question,
+          answer: message.content.trim().slice(0, MAX_ANSWER_CHARS),
+          rubric: message.feedback?.rubric ?? null,
+        });
+      }
+    }
+    previousRole = message.role;
+  });
+
+  return pairs;
+};
+
+/**
+ * Averages the rubric across all answers into the report dimensions (0-100).
+ * The same rubric always produces the same scores.
+ */
+export const aggregatePerformance = (rubrics: AnswerRubric[]): PerformanceScore => {
+  const dimensionScore = (criteria: RubricCriterion[]) => {
+    if (rubrics.length === 0) return 0;
+    const total = rubrics.reduce(
+      (sum, rubric) => sum + criteria.reduce((inner, criterion) => inner + rubric[criterion].score, 0),
+      0
+    );
+    return Math.round((total / (rubrics.length * criteria.length * RUBRIC_MAX)) * 100);
+  };
+
+  return {
+    communication: dimensionScore(DIMENSION_CRITERIA.communication),
+    technicalKnowledge: dimensionScore(DIMENSION_CRITERIA.technicalKnowledge),
+    problemSolving: dimensionScore(DIMENSION_CRITERIA.problemSolving),
+    confidence: dimensionScore(DIMENSION_CRITERIA.confidence),
+    clarity: dimensionScore(DIMENSION_CRITERIA.clarity),
+  };
+};
+
+export const toAnswerFeedback = (rubric: AnswerRubric, modelAnswer: string, tip: string): AnswerFeedback => {
+  const { communication, confidence, clarity } = aggregatePerformance([rubric]);
+  return { communication, confidence, clarity, rubric, modelAnswer, tip };
+};
+
+/**
+ * The excerpts that justified a dimension's score, strongest first. Ties keep
+ * interview order so the citations are stable.
+ */
+export const citeEvidence = (
+  rubrics: AnswerRubric[],
+  dimension: PerformanceDimension,
+  limit = 2
+): EvidenceCitation[] => {
+  const citations: EvidenceCitation[] = [];
+
+  rubrics.forEach((rubric, answerIndex) => {
+    DIMENSION_CRITERIA[dimension].forEach((criterion) => {
+      const { score, evidence } = rubric[criterion];
+      if (evidence && !citations.some((c) => c.excerpt === evidence)) {
+        citations.push({ answerIndex, criterion, score, excerpt: evidence });
+      }
+    });
+  });
+
+  return citations
+    .sort((a, b) => b.score - a.score || a.answerIndex - b.answerIndex)
+    .slice(0, limit);
+};
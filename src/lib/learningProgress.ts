@@ -0,0 +1,84 @@
+export const MAX_HEARTS = 5;
+
+// One heart comes back every half hour until the bar is full again
+export const HEART_REGEN_MINUTES = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HEART_REGEN_MS = HEART_REGEN_MINUTES * 60 * 1000;
+
+export const getUserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+};
+
+/** Calendar day (YYYY-MM-DD) of a moment as seen in the given timezone. */
+export const toLocalDate = (date: Date, timeZone: string): string => {
+  try {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).format(date);
+  } catch {
+    return date.toISOString().slice(0, 10);
+  }
+};
+
+const shiftDate = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  return new Date(date.getTime() + days * DAY_MS).toISOString().slice(0, 10);
+};
+
+/**
+ * Counts consecutive active days ending today. A streak stays alive until the
+ * end of the day after the last activity, so it is not lost before the user
+ * has had a chance to practise today.
+ */
+export const calculateStreak = (activeDates: Iterable<string>, today: string): number => {
+  const dates = new Set(activeDates);
+  let cursor = dates.has(today) ? today : shiftDate(today, -1);
+  let streak = 0;
+
+  while (dates.has(cursor)) {
+    streak++;
+    cursor = shiftDate(cursor, -1);
+  }
+
+  return streak;
+};
+
+export interface HeartsState {
+  hearts: number;
+  // When the current regeneration period started
+  updatedAt: string;
+}
+
+/**
+ * Applies regeneration since the last update. The anchor only moves forward by
+ * whole periods so partial progress towards the next heart is kept.
+ */
+export const regenerateHearts = (state: HeartsState, now: Date = new Date()): HeartsState & { nextHeartAt: Date | null } => {
+  if (state.hearts >= MAX_HEARTS) {
+    return { hearts: MAX_HEARTS, updatedAt: now.toISOString(), nextHeartAt: null };
+  }
+
+  const anchor = new Date(state.updatedAt).getTime();
+  const periods = Math.max(0, Math.floor((now.getTime() - anchor) / HEART_REGEN_MS));
+  const hearts = Math.min(MAX_HEARTS, state.hearts + periods);
+
+  if (hearts >= MAX_HEARTS) {
+    return { hearts, updatedAt: now.toISOString(), nextHeartAt: null };
+  }
+
+  const updatedAt = anchor + periods * HEART_REGEN_MS;
+  return {
+    hearts,
+    updatedAt: new Date(updatedAt).toISOString(),
+    nextHeartAt: new Date(updatedAt + HEART_REGEN_MS),
+  };
+};
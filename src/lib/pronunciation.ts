@@ -0,0 +1,178 @@
+export type WordErrorType = "none" | "mispronunciation" | "omission" | "insertion";
+
+export interface PhonemeScore {
+  phoneme: string;
+  score: number;
+}
+
+export interface WordScore {
+  word: string;
+  score: number;
+  errorType: WordErrorType;
+  phonemes: PhonemeScore[];
+}
+
+// Must match what the assess-pronunciation function and a local scorer return.
+// Scores are 0-100; "transcript" results are word-level estimates only.
+export interface PronunciationAssessment {
+  overall: number;
+  accuracy: number;
+  completeness: number;
+  fluency: number | null;
+  words: WordScore[];
+  source: "service" | "local" | "transcript";
+}
+
+export type PronunciationLanguage =
+  | "english" | "german" | "french" | "spanish" | "italian"
+  | "japanese" | "korean" | "hindi" | "portuguese" | "chinese";
+
+export const PRONUNCIATION_LOCALES: Record<PronunciationLanguage, string> = {
+  english: "en-US",
+  german: "de-DE",
+  french: "fr-FR",
+  spanish: "es-ES",
+  italian: "it-IT",
+  japanese: "ja-JP",
+  korean: "ko-KR",
+  hindi: "hi-IN",
+  portuguese: "pt-BR",
+  chinese: "zh-CN",
+};
+
+export const PASSING_SCORE = 60;
+
+const clampScore = (value: unknown): number => {
+  const num = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? Math.min(100, Math.max(0, Math.round(num))) : 0;
+};
+
+const toErrorType = (value: unknown): WordErrorType => {
+  const normalized = String(value || "none").toLowerCase();
+  return normalized === "mispronunciation" || normalized === "omission" || normalized === "insertion" ? normalized : "none";
+};
+
+/**
+ * Coerces a self-hosted scorer's reply into an assessment, the same way the
+ * assess-pronunciation function does: scores clamped to 0-100, unknown error
+ * types treated as "none" and missing words or phonemes as empty lists.
+ */
+export const normalizeScorerResult = (data: Record<string, unknown>): PronunciationAssessment => ({
+  overall: clampScore(data.overall),
+  accuracy: clampScore(data.accuracy),
+  completeness: clampScore(data.completeness),
+  fluency: data.fluency === null || data.fluency === undefined ? null : clampScore(data.fluency),
+  words: (Array.isArray(data.words) ? data.words : []).map((word: Record<string, unknown>) => ({
+    word: String(word.word || ""),
+    score: clampScore(word.score),
+    errorType: toErrorType(word.errorType),
+    phonemes: (Array.isArray(word.phonemes) ? word.phonemes : []).map((phoneme: Record<string, unknown>) => ({
+      phoneme: String(phoneme.phoneme || ""),
+      score: clampScore(phoneme.score),
+    })),
+  })),
+  source: "local",
+});
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+
+const tokenize = (text: string) =>
+  text.split(/\s+/).map((raw) => ({ raw, norm: normalizeWord(raw) })).filter((t) => t.norm);
+
+const editDistance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+};
+
+const similarity = (a: string, b: string) => 1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+
+/**
+ * Word-level estimate from a speech-recognition transcript, used when no
+ * acoustic scorer is reachable. Aligns the transcript to the reference text
+ * and scores each word by spelling similarity; it cannot grade sounds.
+ */
+export const estimateFromTranscript = (referenceText: string, transcript: string): PronunciationAssessment => {
+  const reference = tokenize(referenceText);
+  const spoken = tokenize(transcript);
+
+  // Needleman-Wunsch style alignment where a substitution costs its dissimilarity
+  const cost: number[][] = Array.from({ length: reference.length + 1 }, (_, i) =>
+    Array.from({ length: spoken.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= reference.length; i++) {
+    for (let j = 1; j <= spoken.length; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1,
+        cost[i - 1][j - 1] + (1 - similarity(reference[i - 1].norm, spoken[j - 1].norm)) * 1.5
+      );
+    }
+  }
+
+  const words: WordScore[] = [];
+  let i = reference.length;
+  let j = spoken.length;
+  while (i > 0 || j > 0) {
+    const substitution = i > 0 && j > 0
+      ? cost[i - 1][j - 1] + (1 - similarity(reference[i - 1].norm, spoken[j - 1].norm)) * 1.5
+      : Infinity;
+
+    if (i > 0 && j > 0 && Math.abs(cost[i][j] - substitution) < 1e-9) {
+      const score = Math.round(similarity(reference[i - 1].norm, spoken[j - 1].norm) * 100);
+      words.unshift({
+        word: reference[i - 1].raw,
+        score,
+        errorType: score >= PASSING_SCORE ? "none" : "mispronunciation",
+        phonemes: [],
+      });
+      i--;
+      j--;
+    } else if (i > 0 && (j === 0 || Math.abs(cost[i][j] - (cost[i - 1][j] + 1)) < 1e-9)) {
+      words.unshift({ word: reference[i - 1].raw, score: 0, errorType: "omission", phonemes: [] });
+      i--;
+    } else {
+      words.unshift({ word: spoken[j - 1].raw, score: 0, errorType: "insertion", phonemes: [] });
+      j--;
+    }
+  }
+
+  const referenceWords = words.filter((w) => w.errorType !== "insertion");
+  const spokenWords = referenceWords.filter((w) => w.errorType !== "omission");
+  const mean = (values: number[]) => (values.length ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0);
+  const accuracy = mean(spokenWords.map((w) => w.score));
+  const completeness = referenceWords.length ? Math.round((spokenWords.length / referenceWords.length) * 100) : 0;
+
+  return {
+    overall: Math.round(accuracy * 0.7 + completeness * 0.3),
+    accuracy,
+    completeness,
+    fluency: null,
+    words,
+    source: "transcript",
+  };
+};
+
+/** Sounds with the lowest average score across the attempt, worst first. */
+export const weakestPhonemes = (assessment: PronunciationAssessment, limit = 3): PhonemeScore[] => {
+  const totals = new Map<string, { sum: number; count: number }>();
+  assessment.words.forEach((word) =>
+    word.phonemes.forEach(({ phoneme, score }) => {
+      const entry = totals.get(phoneme) ?? { sum: 0, count: 0 };
+      totals.set(phoneme, { sum: entry.sum + score, count: entry.count + 1 });
+    })
+  );
+
+  return Array.from(totals, ([phoneme, { sum, count }]) => ({ phoneme, score: Math.round(sum / count) }))
+    .filter((p) => p.score < 80)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit);
+};
@@ -0,0 +1,53 @@
+import { toast } from "sonner";
+
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  retryAfterSeconds: number | null;
+}
+
+// Warn once a window is down to its last fifth
+const LOW_QUOTA_FRACTION = 0.2;
+
+/** Reads the RateLimit-* headers the edge functions attach, if present. */
+export const readRateLimit = (response: Response): RateLimitInfo | null => {
+  const limit = response.headers.get("RateLimit-Limit");
+  const remaining = response.headers.get("RateLimit-Remaining");
+  const reset = response.headers.get("RateLimit-Reset");
+  if (limit === null || remaining === null || reset === null) return null;
+
+  const retryAfter = response.headers.get("Retry-After");
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetSeconds: Number(reset),
+    retryAfterSeconds: response.status === 429 && retryAfter !== null ? Number(retryAfter) : null,
+  };
+};
+
+export const formatWait = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min`;
+  return `${Math.ceil(seconds / 3600)} h`;
+};
+
+/**
+ * Tells the user when they have hit a limit or are close to it. The toast id
+ * keeps repeated requests from stacking duplicate toasts.
+ */
+export const notifyRateLimit = (info: RateLimitInfo, feature: string) => {
+  const id = `rate-limit-${feature}`;
+
+  if (info.retryAfterSeconds !== null) {
+    toast.error(`${feature} limit reached`, {
+      id,
+      description: `Try again in ${formatWait(info.retryAfterSeconds)}.`,
+    });
+  } else if (info.remaining <= Math.floor(info.limit * LOW_QUOTA_FRACTION)) {
+    toast.warning(`${info.remaining} ${feature.toLowerCase()} request${info.remaining === 1 ? "" : "s"} left`, {
+      id,
+      description: `Your quota resets in ${formatWait(info.resetSeconds)}.`,
+    });
+  }
+};
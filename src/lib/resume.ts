@@ -0,0 +1,137 @@
+export interface ResumeRole {
+  title: string;
+  company: string;
+  startDate: string;
+  endDate: string;
+  highlights: string[];
+}
+
+export interface ResumeProject {
+  name: string;
+  description: string;
+  technologies: string[];
+  date: string;
+}
+
+export interface ResumeAnalysis {
+  name: string;
+  roles: ResumeRole[];
+  projects: ResumeProject[];
+  skills: string[];
+}
+
+export interface ResumeGap {
+  area: string;
+  detail: string;
+  probe: string;
+}
+
+export interface ResumeGapAnalysis {
+  matchedSkills: string[];
+  missingSkills: string[];
+  gaps: ResumeGap[];
+}
+
+export const MAX_RESUME_BYTES = 5 * 1024 * 1024;
+
+// Leaves room in the structured generation prompt for instructions
+export const MAX_RESUME_CHARS = 8000;
+
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const extractPdfText = async (data: ArrayBuffer): Promise<string> => {
+  const [pdfjs, worker] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    pages.push(
+      content.items
+        .map((item) => ("str" in item ? `${item.str}${item.hasEOL ? "\n" : " "}` : ""))
+        .join("")
+    );
+  }
+  return pages.join("\n");
+};
+
+const extractDocxText = async (data: ArrayBuffer): Promise<string> => {
+  const mammoth = await import("mammoth");
+  const result = await mammoth.extractRawText({ arrayBuffer: data });
+  return result.value;
+};
+
+/**
+ * Reads the text of a PDF or DOCX resume in the browser. The file never leaves
+ * the device; only the extracted text is sent on for analysis.
+ */
+export const extractResumeText = async (file: File): Promise<string> => {
+  if (file.size > MAX_RESUME_BYTES) {
+    throw new Error("Resume must be smaller than 5 MB");
+  }
+
+  const name = file.name.toLowerCase();
+  const data = await file.arrayBuffer();
+  let text: string;
+
+  if (file.type === "application/pdf" || name.endsWith(".pdf")) {
+    text = await extractPdfText(data);
+  } else if (file.type === DOCX_MIME || name.endsWith(".docx")) {
+    text = await extractDocxText(data);
+  } else {
+    throw new Error("Please upload a PDF or DOCX file");
+  }
+
+  const cleaned = text.replace(/[ \t]+/g, " ").replace(/\n{3,}/g, "\n\n").trim();
+  if (!cleaned) {
+    throw new Error("No text found in this file. Scanned resumes are not supported.");
+  }
+  return cleaned.slice(0, MAX_RESUME_CHARS);
+};
+
+const clip = (text: string, max: number) => (text.length > max ? `${text.slice(0, max)}…` : text);
+
+/**
+ * Caps the parsed resume so it fits in a structured generation prompt as
+ * valid JSON: the most recent entries are kept and long text is shortened.
+ */
+export const trimResumeForPrompt = (resume: ResumeAnalysis): ResumeAnalysis => ({
+  name: clip(resume.name, 100),
+  roles: resume.roles.slice(0, 5).map((r) => ({
+    ...r,
+    title: clip(r.title, 100),
+    company: clip(r.company, 100),
+    startDate: clip(r.startDate, 30),
+    endDate: clip(r.endDate, 30),
+    highlights: r.highlights.slice(0, 3).map((h) => clip(h, 150)),
+  })),
+  projects: resume.projects.slice(0, 4).map((p) => ({
+    ...p,
+    name: clip(p.name, 100),
+    description: clip(p.description, 200),
+    technologies: p.technologies.slice(0, 8).map((t) => clip(t, 30)),
+    date: clip(p.date, 30),
+  })),
+  skills: resume.skills.slice(0, 30).map((skill) => clip(skill, 40)),
+});
+
+/** Short plain-text summary of a resume for interviewer prompts. */
+export const summarizeResume = (resume: ResumeAnalysis): string => {
+  const roles = resume.roles
+    .slice(0, 4)
+    .map((r) => `${r.title}${r.company ? ` at ${r.company}` : ""}${r.startDate ? ` (${r.startDate} to ${r.endDate || "present"})` : ""}`);
+  const projects = resume.projects
+    .slice(0, 3)
+    .map((p) => `${p.name}${p.technologies.length ? ` (${p.technologies.slice(0, 4).join(", ")})` : ""}`);
+
+  return [
+    roles.length && `- Roles: ${roles.join("; ")}`,
+    projects.length && `- Projects: ${projects.join("; ")}`,
+    resume.skills.length && `- Skills: ${resume.skills.slice(0, 8).join(", ")}`,
+  ].filter(Boolean).join("\n");
+};
@@ -0,0 +1,63 @@
+// 0–2 are failed recalls, 3–5 successful ones from "hard" to "perfect"
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface SM2State {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+}
+
+export interface SM2Result extends SM2State {
+  dueAt: Date;
+}
+
+export const INITIAL_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+
+export const initialSM2State: SM2State = {
+  easeFactor: INITIAL_EASE_FACTOR,
+  intervalDays: 0,
+  repetitions: 0,
+  lapses: 0,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Failed cards come back within the same day so a session can revisit them
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+/**
+ * Schedules the next review of a card with the SuperMemo-2 algorithm. A failed
+ * recall resets the repetition count but keeps the (reduced) ease factor.
+ */
+export const scheduleReview = (state: SM2State, quality: ReviewQuality, now: Date = new Date()): SM2Result => {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < 3) {
+    return {
+      easeFactor: Math.round(easeFactor * 100) / 100,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: state.lapses + 1,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MS),
+    };
+  }
+
+  const repetitions = state.repetitions + 1;
+  const intervalDays =
+    repetitions === 1 ? 1 :
+    repetitions === 2 ? 6 :
+    Math.round(state.intervalDays * easeFactor);
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    lapses: state.lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+  };
+};
@@ -0,0 +1,98 @@
+export type StarComponent = "situation" | "task" | "action" | "result";
+
+export const starComponents: { id: StarComponent; letter: string; name: string; hint: string }[] = [
+  { id: "situation", letter: "S", name: "Situation", hint: "Set the scene: where were you and what was going on?" },
+  { id: "task", letter: "T", name: "Task", hint: "Say what you were responsible for or what had to be achieved." },
+  { id: "action", letter: "A", name: "Action", hint: "Describe the specific steps you took yourself." },
+  { id: "result", letter: "R", name: "Result", hint: "Finish with what changed because of it, ideally with a number." },
+];
+
+export interface StarSegment {
+  component: StarComponent;
+  text: string;
+}
+
+export type AnswerLength = "short" | "good" | "long";
+
+export interface StarAnalysis {
+  segments: StarSegment[];
+  missing: StarComponent[];
+  wordCount: number;
+  fillerCount: number;
+  // Fillers per 100 words
+  fillerRate: number;
+  durationSeconds: number | null;
+  wordsPerMinute: number | null;
+  length: AnswerLength;
+}
+
+// Phrases that typically open each part of a STAR answer. Speech transcripts rarely
+// carry punctuation, so these also serve as the segment boundaries.
+const cuePatterns: Record<StarComponent, RegExp> = {
+  situation: /\b(when i was|while i was|while working|back in|at my (previous|last|current|old) (job|role|company|team|position)|in my (previous|last|current|old) (job|role|company|team|position)|there was a time|the situation was|our team was|we were facing|we had a)\b/gi,
+  task: /\b(i was (responsible|asked|tasked|in charge|expected)|my (task|goal|job|role|responsibility|objective) was|i needed to|i had to|we needed to|the goal was|the challenge was|the problem was)\b/gi,
+  action: /\b(so i|first,? i|then i|next,? i|after that,? i|i decided|i started|i created|i built|i led|i organi[sz]ed|i implemented|i set up|i reached out|i introduced|i designed|i proposed|i analy[sz]ed|i scheduled|i spoke|i met with|i worked with|my approach was)\b/gi,
+  result: /\b(as a result|the result was|which resulted|resulted in|in the end|ultimately|eventually|which led to|this led to|that led to|we (achieved|reduced|increased|improved|delivered|saved|grew)|the outcome was|by the end)\b/gi,
+};
+
+// Single-word hesitations plus phrases that add nothing when spoken
+const FILLER_PATTERN = /\b(um+|uh+|erm*|hmm+|you know|i mean|kind of|sort of|basically|actually|literally|(?<!(would|i|you|we|they|feel|feels|look|looks|something|just) )like)\b/gi;
+
+// Roughly 30 seconds to 2 minutes spoken
+const MIN_WORDS = 50;
+const MAX_WORDS = 300;
+
+const MIN_SEGMENT_WORDS = 3;
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Splits an answer into Situation, Task, Action and Result by the cue phrases
+ * that open each part. Text before the first cue is taken as the situation.
+ */
+export const segmentStar = (answer: string): StarSegment[] => {
+  const text = answer.trim();
+  const cues = (Object.keys(cuePatterns) as StarComponent[])
+    .flatMap((component) => Array.from(text.matchAll(cuePatterns[component]), (match) => ({ component, index: match.index ?? 0 })))
+    .sort((a, b) => a.index - b.index);
+
+  const boundaries = cues[0]?.index === 0 ? cues : [{ component: "situation" as StarComponent, index: 0 }, ...cues];
+
+  const segments: StarSegment[] = [];
+  boundaries.forEach((boundary, i) => {
+    const end = boundaries[i + 1]?.index ?? text.length;
+    const part = text.slice(boundary.index, end).trim();
+    if (!part) return;
+
+    const previous = segments[segments.length - 1];
+    if (previous && previous.component === boundary.component) {
+      previous.text = `${previous.text} ${part}`;
+    } else {
+      segments.push({ component: boundary.component, text: part });
+    }
+  });
+
+  return segments;
+};
+
+export const analyzeStarAnswer = (answer: string, durationSeconds?: number): StarAnalysis => {
+  const segments = segmentStar(answer);
+  const wordCount = countWords(answer);
+  const fillerCount = Array.from(answer.matchAll(FILLER_PATTERN)).length;
+  const hasDuration = durationSeconds !== undefined && durationSeconds > 0;
+
+  const missing = starComponents
+    .map((c) => c.id)
+    .filter((id) => !segments.some((s) => s.component === id && countWords(s.text) >= MIN_SEGMENT_WORDS));
+
+  return {
+    segments,
+    missing,
+    wordCount,
+    fillerCount,
+    fillerRate: wordCount > 0 ? Math.round((fillerCount / wordCount) * 1000) / 10 : 0,
+    durationSeconds: hasDuration ? Math.round(durationSeconds) : null,
+    wordsPerMinute: hasDuration && wordCount > 0 ? Math.round(wordCount / (durationSeconds / 60)) : null,
+    length: wordCount < MIN_WORDS ? "short" : wordCount > MAX_WORDS ? "long" : "good",
+  };
+};
@@ -0,0 +1,308 @@
+import { formatChartValue, type IELTSChartSpec } from "@/lib/ieltsChart";
+
+export type FigureStatus = "accurate" | "misreported" | "unsupported";
+
+export interface FigureCheck {
+  start: number;
+  end: number;
+  text: string;
+  value: number;
+  status: FigureStatus;
+  series: string | null;
+  category: string | null;
+  // Closest figure in the data for misreported claims
+  expected: number | null;
+}
+
+export interface KeyFeatureCheck {
+  description: string;
+  covered: boolean;
+}
+
+export interface Task1Verification {
+  figures: FigureCheck[];
+  keyFeatures: KeyFeatureCheck[];
+}
+
+const SCALE_WORDS: Record<string, number> = { thousand: 1e3, million: 1e6, millions: 1e6, billion: 1e9, billions: 1e9 };
+
+// Candidates round ("about 70%" for 71%); hedged figures get more room
+const TOLERANCE = 0.05;
+const HEDGED_TOLERANCE = 0.1;
+const HEDGE_PATTERN = /\b(about|around|approximately|roughly|nearly|almost|just over|just under|over|under|more than|less than|close to|some)\s*$/i;
+
+const NUMBER_PATTERN = /(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)(?:\s*(%|per ?cent\b|thousand\b|millions?\b|billions?\b))?/gi;
+
+const RISE_PATTERN = /increas|rise|rose|risen|grew|grow|climb|doubl|tripl|surg|soar|jump|upward/i;
+const FALL_PATTERN = /decreas|declin|fell|fall|drop|dip|shrank|shrunk|reduc|downward|plummet/i;
+const HIGH_PATTERN = /highest|largest|most|greatest|biggest|peak|top|leading|dominat|maximum/i;
+const LOW_PATTERN = /lowest|smallest|least|fewest|bottom|minimum/i;
+
+interface Sentence {
+  start: number;
+  text: string;
+}
+
+const splitSentences = (essay: string): Sentence[] => {
+  const sentences: Sentence[] = [];
+  // A full stop only ends a sentence when whitespace follows, so decimals stay intact
+  const pattern = /[^]*?(?:[.!?](?=\s|$)|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(essay)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      if (pattern.lastIndex > essay.length) break;
+      continue;
+    }
+    sentences.push({ start: match.index, text: match[0] });
+  }
+  return sentences;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Offsets of every whole-word mention of each label in a sentence
+const findMentions = (sentence: string, labels: string[]) =>
+  labels.flatMap((label) => {
+    const pattern = new RegExp(`\\b${escapeRegExp(label)}\\b`, "gi");
+    return Array.from(sentence.matchAll(pattern), (m) => ({ label, index: m.index ?? 0 }));
+  });
+
+// Clauses end at punctuation or a conjunction; a label after the number only
+// applies to it when it sits in the same clause ("52% in 2000, but ...")
+const CLAUSE_BREAK = /[,;:]|\b(?:and|but|while|whereas|although)\b/gi;
+
+const clauseEnd = (sentence: string, position: number): number => {
+  CLAUSE_BREAK.lastIndex = position;
+  const match = CLAUSE_BREAK.exec(sentence);
+  return match ? match.index : sentence.length;
+};
+
+// The mention nearest before the number, or failing that the nearest after it
+const nearestMention = (mentions: { label: string; index: number }[], position: number): string | null => {
+  const before = mentions.filter((m) => m.index < position).sort((a, b) => b.index - a.index)[0];
+  if (before) return before.label;
+  const after = mentions.filter((m) => m.index > position).sort((a, b) => a.index - b.index)[0];
+  return after?.label ?? null;
+};
+
+const unitScale = (unit: string): number => {
+  const word = unit.toLowerCase().split(/\s+/).find((w) => w in SCALE_WORDS);
+  return word ? SCALE_WORDS[word] : 1;
+};
+
+const isClose = (claimed: number, actual: number, tolerance: number) =>
+  Math.abs(claimed - actual) <= Math.max(Math.abs(actual) * tolerance, 0.5);
+
+const pairwiseChanges = (values: number[]): number[] =>
+  values.flatMap((a, i) =>
+    values.slice(i + 1).flatMap((b) => {
+      const changes = [Math.abs(b - a)];
+      if (a !== 0) changes.push(Math.abs(((b - a) / a) * 100));
+      return changes;
+    })
+  );
+
+const valueAt = (spec: IELTSChartSpec, series: string, category: string): number | undefined => {
+  const seriesIndex = spec.series.findIndex((s) => s.name === series);
+  const categoryIndex = spec.categories.indexOf(category);
+  return seriesIndex === -1 || categoryIndex === -1 ? undefined : spec.series[seriesIndex].values[categoryIndex];
+};
+
+const isYear = (text: string) => /^(1[89]|20)\d{2}$/.test(text);
+
+interface KeyFeature {
+  description: string;
+  subject: string;
+  pattern: RegExp;
+  value: number | null;
+}
+
+/** The main features an examiner expects a Task 1 overview to report. */
+const keyFeaturesFor = (spec: IELTSChartSpec): KeyFeature[] => {
+  const cells = spec.series.flatMap((series) =>
+    series.values.map((value, index) => ({ series: series.name, category: spec.categories[index], value }))
+  );
+  if (cells.length === 0) return [];
+
+  const features: KeyFeature[] = [];
+  const highest = cells.reduce((best, cell) => (cell.value > best.value ? cell : best));
+  const lowest = cells.reduce((best, cell) => (cell.value < best.value ? cell : best));
+  const subjectOf = (cell: { series: string; category: string }) => (spec.type === "pie" ? cell.category : cell.series);
+  const whereOf = (cell: { series: string; category: string }) => (spec.type === "pie" ? cell.series : cell.category);
+
+  features.push({
+    description: `${subjectOf(highest)} has the highest figure (${formatChartValue(highest.value, spec.unit)} in ${whereOf(highest)})`,
+    subject: subjectOf(highest),
+    pattern: HIGH_PATTERN,
+    value: highest.value,
+  });
+  features.push({
+    description: `${subjectOf(lowest)} has the lowest figure (${formatChartValue(lowest.value, spec.unit)} in ${whereOf(lowest)})`,
+    subject: subjectOf(lowest),
+    pattern: LOW_PATTERN,
+    value: lowest.value,
+  });
+
+  // Trends only make sense when the data runs over time
+  if (spec.type === "pie" && spec.series.length === 2) {
+    const changes = spec.categories.map((category, index) => ({
+      subject: category,
+      change: spec.series[1].values[index] - spec.series[0].values[index],
+    }));
+    const biggest = changes.reduce((best, c) => (Math.abs(c.change) > Math.abs(best.change) ? c : best));
+    if (biggest.change !== 0) {
+      features.push({
+        description: `${biggest.subject} changed the most between ${spec.series[0].name} and ${spec.series[1].name} (${biggest.change > 0 ? "+" : ""}${Math.round(biggest.change * 10) / 10} points)`,
+        subject: biggest.subject,
+        pattern: biggest.change > 0 ? RISE_PATTERN : FALL_PATTERN,
+        value: null,
+      });
+    }
+  } else if (spec.type !== "pie" && spec.categories.length >= 2 && spec.categories.every(isYear)) {
+    const trends = spec.series.map((series) => ({
+      subject: series.name,
+      change: series.values[series.values.length - 1] - series.values[0],
+    }));
+    const rise = trends.reduce((best, t) => (t.change > best.change ? t : best));
+    const fall = trends.reduce((best, t) => (t.change < best.change ? t : best));
+    const span = `${spec.categories[0]}–${spec.categories[spec.categories.length - 1]}`;
+
+    if (rise.change > 0) {
+      features.push({
+        description: `${rise.subject} shows the largest increase over ${span}`,
+        subject: rise.subject,
+        pattern: RISE_PATTERN,
+        value: null,
+      });
+    }
+    if (fall.change < 0) {
+      features.push({
+        description: `${fall.subject} declines over ${span}`,
+        subject: fall.subject,
+        pattern: FALL_PATTERN,
+        value: null,
+      });
+    }
+  }
+
+  return features;
+};
+
+/**
+ * Checks every figure the candidate quotes against the chart data and which
+ * key features the response covers. Only bar, line, pie and table charts carry
+ * figures; process diagrams and maps return empty results.
+ */
+export const verifyTask1Figures = (essay: string, spec: IELTSChartSpec): Task1Verification => {
+  if (spec.type === "process" || spec.type === "map" || spec.series.length === 0) {
+    return { figures: [], keyFeatures: [] };
+  }
+
+  const seriesNames = spec.series.map((s) => s.name);
+  const allValues = spec.series.flatMap((s) => s.values);
+  const scale = unitScale(spec.unit);
+  const figures: FigureCheck[] = [];
+  const sentences = splitSentences(essay);
+
+  for (const sentence of sentences) {
+    const seriesMentions = findMentions(sentence.text, seriesNames);
+    const categoryMentions = findMentions(sentence.text, spec.categories);
+
+    for (const match of sentence.text.matchAll(NUMBER_PATTERN)) {
+      const index = match.index ?? 0;
+      const raw = match[1];
+      const unitWord = match[2]?.toLowerCase();
+
+      // Skip ordinals and words like "3rd", and labels such as the years on the axis
+      if (!unitWord && /[a-z]/i.test(sentence.text.charAt(index + match[0].length))) continue;
+      if (!unitWord && (spec.categories.includes(raw) || seriesNames.includes(raw) || isYear(raw))) continue;
+
+      const number = parseFloat(raw.replace(/,/g, ""));
+      const claimScale = unitWord && unitWord in SCALE_WORDS ? SCALE_WORDS[unitWord] : null;
+      const claimed = claimScale ? (number * claimScale) / scale : number;
+
+      const series = nearestMention(seriesMentions, index);
+      const end = clauseEnd(sentence.text, index + match[0].length);
+      const scopedCategories = categoryMentions.filter((m) => m.index < index || m.index < end);
+      const mentionedCategories = Array.from(new Set(scopedCategories.map((m) => m.label)));
+      const category = nearestMention(scopedCategories, index);
+      const tolerance = HEDGE_PATTERN.test(sentence.text.slice(Math.max(0, index - 20), index)) ? HEDGED_TOLERANCE : TOLERANCE;
+
+      // Direct readings: the named series at the named years or segments, else everything in scope
+      let direct: number[];
+      if (series && mentionedCategories.length > 0) {
+        direct = mentionedCategories
+          .map((c) => valueAt(spec, series, c))
+          .filter((v): v is number => v !== undefined);
+      } else if (series) {
+        direct = spec.series.find((s) => s.name === series)?.values ?? [];
+      } else if (mentionedCategories.length > 0) {
+        direct = mentionedCategories.flatMap((c) => {
+          const categoryIndex = spec.categories.indexOf(c);
+          return spec.series.map((s) => s.values[categoryIndex]);
+        });
+      } else {
+        direct = allValues;
+      }
+
+      // Derived figures: differences and percentage changes, plus counts of items shown
+      const scopeValues = series ? spec.series.find((s) => s.name === series)?.values ?? [] : allValues;
+      const derived = [
+        ...pairwiseChanges(scopeValues),
+        ...pairwiseChanges(direct),
+        spec.series.length,
+        spec.categories.length,
+      ];
+
+      const accurate = direct.some((v) => isClose(claimed, v, tolerance)) || derived.some((v) => isClose(claimed, v, tolerance));
+      const attributed = series !== null || category !== null;
+      const supportedAnywhere = accurate
+        || allValues.some((v) => isClose(claimed, v, tolerance))
+        || pairwiseChanges(allValues).some((v) => isClose(claimed, v, tolerance));
+
+      let status: FigureStatus = "accurate";
+      let expected: number | null = null;
+      if (!accurate && attributed && direct.length > 0) {
+        status = "misreported";
+        expected = direct.reduce((best, v) => (Math.abs(v - claimed) < Math.abs(best - claimed) ? v : best));
+      } else if (!accurate && !supportedAnywhere) {
+        status = "unsupported";
+      }
+
+      figures.push({
+        start: sentence.start + index,
+        end: sentence.start + index + match[0].length,
+        text: match[0],
+        value: claimed,
+        status,
+        series,
+        category,
+        expected,
+      });
+    }
+  }
+
+  const keyFeatures = keyFeaturesFor(spec).map((feature) => {
+    const subjectPattern = new RegExp(`\\b${escapeRegExp(feature.subject)}\\b`, "i");
+    const covered = sentences.some((sentence) => {
+      if (!subjectPattern.test(sentence.text)) return false;
+      if (feature.pattern.test(sentence.text)) return true;
+      return feature.value !== null && figures.some((f) =>
+        f.start >= sentence.start && f.end <= sentence.start + sentence.text.length
+        && f.status === "accurate" && isClose(f.value, feature.value as number, HEDGED_TOLERANCE)
+      );
+    });
+    return { description: feature.description, covered };
+  });
+
+  return { figures, keyFeatures };
+};
+
+export const describeFigureIssue = (check: FigureCheck, unit: string): string => {
+  if (check.status === "unsupported") {
+    return "This figure doesn't match anything in the chart.";
+  }
+  const where = [check.series, check.category].filter(Boolean).join(", ");
+  return `The chart shows ${formatChartValue(check.expected as number, unit)}${where ? ` for ${where}` : ""}.`;
+};
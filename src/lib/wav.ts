@@ -0,0 +1,58 @@
+// Speech scorers expect 16 kHz mono 16-bit PCM WAV, while MediaRecorder gives
+// us webm/ogg. Decode the recording, resample it and wrap it in a WAV header.
+export const SPEECH_SAMPLE_RATE = 16000;
+
+const encodeWav = (samples: Float32Array, sampleRate: number): ArrayBuffer => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+
+  samples.forEach((sample, index) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + index * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+
+  return buffer;
+};
+
+/** Converts a recorded clip to a 16 kHz mono WAV, returned as base64. */
+export const recordingToWavBase64 = async (recording: Blob): Promise<string> => {
+  const context = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await context.decodeAudioData(await recording.arrayBuffer());
+  } finally {
+    context.close();
+  }
+
+  const length = Math.max(1, Math.ceil(decoded.duration * SPEECH_SAMPLE_RATE));
+  const offline = new OfflineAudioContext(1, length, SPEECH_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const resampled = await offline.startRendering();
+
+  const bytes = new Uint8Array(encodeWav(resampled.getChannelData(0), SPEECH_SAMPLE_RATE));
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
@@ -9,7 +9,10 @@ import { useChat } from "@/hooks/useChat";
 import { useCleanSpeechRecognition } from "@/hooks/useCleanSpeechRecognition";
 import { useElevenLabsTTS } from "@/hooks/useElevenLabsTTS";
 import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { addGuestMessage, createGuestConversation } from "@/lib/guestStore";
 import ConversationHistory from "@/components/ConversationHistory";
+import type { ConversationMode } from "@/components/ModeSelector";
 import VoiceOrb from "@/components/VoiceOrb";
 import ChatMessage from "@/components/ChatMessage";
 import StatusIndicator from "@/components/StatusIndicator";
@@ -31,6 +34,10 @@ interface UploadedFile {
   preview?: string;
 }
 
+// Sent with every turn, including saved conversations, so search answers keep
+// their own voice whatever mode is selected
+const SEARCH_INSTRUCTIONS = "You are a helpful AI assistant. Provide clear, thoughtful answers. Be conversational but informative.";
+
 const AISearch = () => {
   const [query, setQuery] = useState("");
   const [voiceEnabled, setVoiceEnabled] = useState(true);
@@ -40,6 +47,9 @@ const AISearch = () => {
   const [pendingVoiceConfirm, setPendingVoiceConfirm] = useState<string | null>(null);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [showUploadMenu, setShowUploadMenu] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [guestConversationId, setGuestConversationId] = useState<string | null>(null);
+  const [mode, setMode] = useState<ConversationMode>("friend");
   const scrollRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -72,13 +82,47 @@ const AISearch = () => {
     }
   }, [isListening, hasResult, transcript]);
 
+  // Signed-in chats are saved so they show up in history with their mode
+  const ensureConversation = async (): Promise<string | null> => {
+    if (conversationId || !user) return conversationId;
+
+    const { data: newConv, error } = await supabase
+      .from("conversations")
+      .insert({ session_id: crypto.randomUUID(), user_id: user.id, mode })
+      .select("id")
+      .single();
+
+    if (error) {
+      console.error("Error creating conversation:", error);
+      return null;
+    }
+
+    setConversationId(newConv.id);
+    return newConv.id;
+  };
+
+  // Guests keep their chats on this device until they sign in and import them
+  const saveGuestTurns = async (userContent: string, assistantContent: string) => {
+    try {
+      let id = guestConversationId;
+      if (!id) {
+        id = (await createGuestConversation({ userName: null, mode })).id;
+        setGuestConversationId(id);
+      }
+      await addGuestMessage({ conversationId: id, role: "user", content: userContent, emotionalTone: null, mode });
+      await addGuestMessage({ conversationId: id, role: "assistant", content: assistantContent, emotionalTone: null, mode });
+    } catch (error) {
+      console.error("Error saving guest conversation:", error);
+    }
+  };
+
   const handleSend = async (text: string, files?: UploadedFile[]) => {
     if (!text.trim() && (!files || files.length === 0)) return;
 
-    // Build message content with file context
-    let messageContent = text.trim();
-    let conversationContext = "You are a helpful AI assistant. Provide clear, thoughtful answers. Be conversational but informative.";
-    
+    // Uploaded files travel with the user's turn so they stay in the saved history
+    const messageContent = text.trim();
+    let requestContent = messageContent || "Please analyze the uploaded file(s)";
+
     if (files && files.length > 0) {
       const fileDescriptions = files.map(f => {
         if (f.type === "pdf") {
@@ -87,8 +131,8 @@ const AISearch = () => {
           return `[Image: ${f.name}] - User has uploaded an image. Describe what might be asked about it.`;
         }
       }).join("\n\n");
-      
-      conversationContext += `\n\nThe user has uploaded the following files:\n${fileDescriptions}\n\nAnswer questions based on these files.`;
+
+      requestContent += `\n\nI have uploaded the following files:\n${fileDescriptions}\n\nPlease answer based on these files.`;
     }
 
     const userMessage: ChatItem = {
@@ -103,8 +147,10 @@ const AISearch = () => {
     setUploadedFiles([]); // Clear uploaded files after sending
 
     try {
-      const response = await sendMessage(messageContent || "Please analyze the uploaded file(s)", "friend", {
-        conversationContext,
+      const activeConversationId = await ensureConversation();
+      const response = await sendMessage(requestContent, mode, {
+        instructions: SEARCH_INSTRUCTIONS,
+        conversationId: activeConversationId,
       });
 
       const assistantMessage: ChatItem = {
@@ -116,6 +162,10 @@ const AISearch = () => {
 
       setMessages((prev) => [...prev, assistantMessage]);
 
+      if (!user) {
+        saveGuestTurns(userMessage.content, response);
+      }
+
       if (voiceEnabled) {
         speak(response);
       }
@@ -184,7 +234,7 @@ const AISearch = () => {
     }
   };
 
-  const handleSelectConversation = (conversationId: string, loadedMessages: any[]) => {
+  const handleSelectConversation = (selectedId: string, loadedMessages: any[], selectedMode: ConversationMode | null) => {
     const formattedMessages: ChatItem[] = loadedMessages.map((msg) => ({
       id: crypto.randomUUID(),
       role: msg.role as "user" | "assistant",
@@ -192,6 +242,10 @@ const AISearch = () => {
       timestamp: new Date(msg.created_at || Date.now()),
     }));
     setMessages(formattedMessages);
+    // Keep replying in the resumed conversation, in the mode it was left in
+    clearHistory();
+    setConversationId(selectedId);
+    setMode(selectedMode ?? "friend");
     toast.success("Conversation loaded");
   };
 
@@ -235,6 +289,9 @@ const AISearch = () => {
   const startNewChat = () => {
     setMessages([]);
     clearHistory();
+    setConversationId(null);
+    setGuestConversationId(null);
+    setMode("friend");
     setPendingVoiceConfirm(null);
     toast.success("New conversation started");
   };
@@ -261,6 +318,11 @@ const AISearch = () => {
                 <Sparkles className="h-4 w-4 text-white" />
               </div>
               <h1 className="text-lg font-semibold">Blitix Search</h1>
+              {mode !== "friend" && (
+                <span className="px-2 py-0.5 rounded-full bg-primary/10 text-primary text-xs capitalize">
+                  {mode} mode
+                </span>
+              )}
             </div>
           </div>
 
@@ -4,11 +4,15 @@ import { motion, AnimatePresence } from "framer-motion";
 import { 
   ArrowLeft, Star, Heart, Play, Volume2, Mic, RotateCcw,
   Palette, Shapes, Music2, BookOpen, Hand, Sparkles,
-  CheckCircle, X, Settings
+  CheckCircle, X, Settings, Flame
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useNaturalTTS } from "@/hooks/useNaturalTTS";
 import { useReliableSpeechRecognition } from "@/hooks/useReliableSpeechRecognition";
+import { useLearningProgress } from "@/hooks/useLearningProgress";
+import { usePronunciationAssessment } from "@/hooks/usePronunciationAssessment";
+import PronunciationBreakdown from "@/components/PronunciationBreakdown";
+import { PASSING_SCORE } from "@/lib/pronunciation";
 import { toast } from "sonner";
 
 type AgeMode = "little" | "young" | null;
@@ -105,6 +109,20 @@ const BlitixKids = () => {
   
   const { speak, stop: stopSpeaking, isSpeaking } = useNaturalTTS();
   const { isListening, transcript, startListening, stopListening, resetTranscript, hasResult } = useReliableSpeechRecognition();
+  const { streak, recordActivity } = useLearningProgress();
+  const {
+    assessment,
+    isAssessing,
+    startRecording,
+    assess: assessPronunciation,
+    reset: resetPronunciation,
+  } = usePronunciationAssessment();
+
+  // Stars earned here also count as English XP towards the shared streak
+  const addStars = (stars: number) => {
+    setScore(prev => prev + stars);
+    recordActivity("english", stars);
+  };
 
   // Generate parent gate math question
   const generateMathQuestion = () => {
@@ -119,17 +137,25 @@ const BlitixKids = () => {
     if (!isListening && hasResult && transcript.trim() && activity === "speak" && currentItem) {
       const spoken = transcript.toLowerCase().trim();
       const target = currentItem.word.toLowerCase();
-      
-      if (spoken.includes(target) || target.includes(spoken)) {
-        setScore(prev => prev + 10);
-        speak("Awesome! Great job!", "english");
-        toast.success("🎉 Wonderful!", { duration: 2000 });
-      } else {
-        speak(`Good try! The word is ${currentItem.word}`, "english");
-      }
       resetTranscript();
+
+      // Score the recording; without it, fall back to matching the transcript
+      assessPronunciation(currentItem.word, "english", spoken).then((result) => {
+        const passed = result
+          ? result.overall >= PASSING_SCORE
+          : spoken.includes(target) || target.includes(spoken);
+
+        if (passed) {
+          setScore(prev => prev + 10);
+          recordActivity("english", 10);
+          speak("Awesome! Great job!", "english");
+          toast.success("🎉 Wonderful!", { duration: 2000 });
+        } else {
+          speak(`Good try! The word is ${currentItem.word}`, "english");
+        }
+      });
     }
-  }, [isListening, hasResult, transcript, activity, currentItem, speak, resetTranscript]);
+  }, [isListening, hasResult, transcript, activity, currentItem, speak, resetTranscript, recordActivity, assessPronunciation]);
 
   const selectRandomItem = useCallback((category: string) => {
     const items = learningItems[category];
@@ -148,7 +174,7 @@ const BlitixKids = () => {
       speak(`This is a ${item.word}`, "english");
     }
     
-    setScore(prev => prev + 5);
+    addStars(5);
   };
 
   const handleSpeakActivity = () => {
@@ -161,7 +187,9 @@ const BlitixKids = () => {
     
     setTimeout(() => {
       resetTranscript();
+      resetPronunciation();
       startListening();
+      startRecording();
     }, 1500);
   };
 
@@ -355,9 +383,17 @@ const BlitixKids = () => {
           >
             <ArrowLeft className="h-5 w-5 text-gray-600" />
           </Button>
-          <div className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/70 shadow">
-            <Star className="w-5 h-5 text-yellow-500" />
-            <span className="text-lg font-bold text-gray-700">{score}</span>
+          <div className="flex items-center gap-2">
+            {streak > 0 && (
+              <div className="flex items-center gap-1 px-4 py-2 rounded-full bg-white/70 shadow">
+                <Flame className="w-5 h-5 text-orange-500" />
+                <span className="text-lg font-bold text-gray-700">{streak}</span>
+              </div>
+            )}
+            <div className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/70 shadow">
+              <Star className="w-5 h-5 text-yellow-500" />
+              <span className="text-lg font-bold text-gray-700">{score}</span>
+            </div>
           </div>
         </header>
 
@@ -561,6 +597,7 @@ const BlitixKids = () => {
               whileTap={{ scale: 0.9 }}
               onClick={() => {
                 const newItem = selectRandomItem(currentCategory);
+                resetPronunciation();
                 speak(`Say: ${newItem.word}`, "english");
               }}
               className="w-24 h-24 rounded-full bg-gradient-to-br from-cyan-400 to-teal-500 flex items-center justify-center shadow-2xl"
@@ -578,6 +615,16 @@ const BlitixKids = () => {
               You said: "{transcript}"
             </motion.p>
           )}
+
+          {isAssessing && (
+            <p className="mt-8 text-lg text-gray-500">Listening to your sounds...</p>
+          )}
+
+          {assessment && !isListening && !isAssessing && (
+            <div className="mt-8 w-full max-w-md bg-white/80 rounded-2xl">
+              <PronunciationBreakdown assessment={assessment} compact />
+            </div>
+          )}
         </main>
       </div>
     );
@@ -679,7 +726,7 @@ const BlitixKids = () => {
     const handleGameTap = (item: LearningItem) => {
       if (item.word === targetItem?.word) {
         setIsCorrect(true);
-        setScore(prev => prev + 10);
+        addStars(10);
         speak("Great job!", "english");
         setTimeout(startNewRound, 1500);
       } else {
@@ -775,7 +822,7 @@ const BlitixKids = () => {
 
     const handleSoundTap = (item: LearningItem) => {
       if (item.word === target?.word) {
-        setScore(prev => prev + 10);
+        addStars(10);
         speak(`Yes! It's a ${item.word}!`, "english");
         toast.success("🎉 Correct!", { duration: 2000 });
         
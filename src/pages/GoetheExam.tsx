@@ -1,27 +1,37 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { Link } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import { 
   ArrowLeft, ArrowRight, Globe, Mic, Volume2, FileText, 
   BookOpen, Headphones, Clock, Trophy, Target, CheckCircle2, 
-  XCircle, ChevronRight, Play, Pause
+  XCircle, ChevronRight, Play, Pause, Loader2
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { useChat } from "@/hooks/useChat";
+import { useStructuredGeneration } from "@/hooks/useStructuredGeneration";
 import { useReliableSpeechRecognition } from "@/hooks/useReliableSpeechRecognition";
 import { useNaturalTTS } from "@/hooks/useNaturalTTS";
+import { useCEFRLevels } from "@/hooks/useCEFRLevels";
 import VoiceOrb from "@/components/VoiceOrb";
 import StatusIndicator from "@/components/StatusIndicator";
 import WaveformVisualizer from "@/components/WaveformVisualizer";
+import GoetheHoerenAudio from "@/components/GoetheHoerenAudio";
+import GoetheSchreibenReview, { type SchreibenError } from "@/components/GoetheSchreibenReview";
+import GoetheMockCertificate from "@/components/GoetheMockCertificate";
+import {
+  calculateSchreibenScore, evaluateMockResult, goetheModuleDurations,
+  type BewertungsGrade, type SchreibenCriterion, type SchreibenScore,
+} from "@/lib/goetheScoring";
+import { hoerenFormats, fixedHoerenOptions, type HoerenTeil } from "@/data/goetheHoeren";
 import { toast } from "sonner";
+import type { CEFRLevel } from "@/lib/cefrPlacement";
 
 // Goethe Types
-type GoetheLevel = "A1" | "A2" | "B1" | "B2" | "C1";
 type GoetheModule = "lesen" | "hoeren" | "schreiben" | "sprechen";
 type TestMode = "practice" | "mock";
 
@@ -34,7 +44,29 @@ interface GoetheQuestion {
   passage?: string;
 }
 
-const levels: { id: GoetheLevel; name: string; description: string }[] = [
+interface HoerenSection {
+  teil: HoerenTeil;
+  script: string;
+  questions: GoetheQuestion[];
+}
+
+interface SchreibenEvaluation {
+  criteria: Record<SchreibenCriterion, { grade: BewertungsGrade; comment: string }>;
+  correctedText: string;
+  errors: SchreibenError[];
+  summary: string;
+}
+
+interface GoetheSpeakingFeedback {
+  pronunciation: number;
+  vocabulary: number;
+  grammar: number;
+  fluency: number;
+  passed: boolean;
+  feedback: string;
+}
+
+const levels: { id: CEFRLevel; name: string; description: string }[] = [
   { id: "A1", name: "A1 - Start Deutsch", description: "Basic phrases & greetings" },
   { id: "A2", name: "A2 - Fit in Deutsch", description: "Simple conversations" },
   { id: "B1", name: "B1 - Zertifikat", description: "Independent speaker" },
@@ -57,12 +89,24 @@ const readingTaskTypes = [
   "Short answer",
 ];
 
+interface FullMockState {
+  moduleIndex: number;
+  percentages: Partial<Record<GoetheModule, number>>;
+  completedAt?: Date;
+}
+
+const mockModuleOrder: GoetheModule[] = ["lesen", "hoeren", "schreiben", "sprechen"];
+
+const normalizeAnswer = (answer: string) =>
+  answer.toLowerCase().replace(/[.,;:!?"„“]/g, "").replace(/\s+/g, " ").trim();
+
 const GoetheExam = () => {
   // Level & Module State
-  const [selectedLevel, setSelectedLevel] = useState<GoetheLevel | null>(null);
+  const [selectedLevel, setSelectedLevel] = useState<CEFRLevel | null>(null);
   const [selectedModule, setSelectedModule] = useState<GoetheModule | null>(null);
   const [testMode, setTestMode] = useState<TestMode>("practice");
   const [selectedTaskType, setSelectedTaskType] = useState<string | null>(null);
+  const [selectedTeil, setSelectedTeil] = useState<number>(1);
   
   // Test State
   const [isStarted, setIsStarted] = useState(false);
@@ -72,20 +116,41 @@ const GoetheExam = () => {
   const [timeRemaining, setTimeRemaining] = useState(0);
   const [isPaused, setIsPaused] = useState(false);
   
+  // Listening State
+  const [hoerenSections, setHoerenSections] = useState<HoerenSection[]>([]);
+  const [currentSection, setCurrentSection] = useState(0);
+  const [playsUsed, setPlaysUsed] = useState<Record<number, number>>({});
+  
   // Writing State
   const [writingPrompt, setWritingPrompt] = useState("");
   const [writingAnswer, setWritingAnswer] = useState("");
+  const [schreibenEvaluation, setSchreibenEvaluation] = useState<SchreibenEvaluation | null>(null);
+  const [schreibenScore, setSchreibenScore] = useState<SchreibenScore | null>(null);
+  // The evaluation in flight, so the mock timer waits for it instead of sending another
+  const schreibenEvaluationRef = useRef<Promise<SchreibenScore | null> | null>(null);
   
   // Speaking State
   const [speakingTask, setSpeakingTask] = useState(1);
-  const [feedback, setFeedback] = useState<any>(null);
+  const [feedback, setFeedback] = useState<GoetheSpeakingFeedback | null>(null);
+  
+  // Full Mock State
+  const [fullMock, setFullMock] = useState<FullMockState | null>(null);
   
   // Audio & Voice
   const [status, setStatus] = useState<"idle" | "listening" | "thinking" | "speaking">("idle");
   
-  const { sendMessage, isLoading } = useChat();
+  const { generate, isGenerating } = useStructuredGeneration();
   const { isListening, transcript, startListening, stopListening, resetTranscript, isSupported, hasResult } = useReliableSpeechRecognition();
   const { speak, stop: stopSpeaking, isSpeaking, isLoading: isTTSLoading } = useNaturalTTS();
+  const { levels: cefrLevels } = useCEFRLevels();
+  const placedLevel = cefrLevels.german?.level;
+
+  // Start from the placement result unless a level was already picked
+  useEffect(() => {
+    if (placedLevel) {
+      setSelectedLevel(prev => prev ?? placedLevel);
+    }
+  }, [placedLevel]);
 
   // Timer effect
   useEffect(() => {
@@ -101,10 +166,10 @@ const GoetheExam = () => {
   // Update status
   useEffect(() => {
     if (isListening) setStatus("listening");
-    else if (isLoading) setStatus("thinking");
+    else if (isGenerating) setStatus("thinking");
     else if (isSpeaking || isTTSLoading) setStatus("speaking");
     else setStatus("idle");
-  }, [isListening, isLoading, isSpeaking, isTTSLoading]);
+  }, [isListening, isGenerating, isSpeaking, isTTSLoading]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -118,27 +183,14 @@ const GoetheExam = () => {
     const prompt = `Generate 10 authentic Goethe ${selectedLevel} level German Reading (Lesen) questions.
 Task Type: ${taskType}
 Include a German reading text and questions.
-
-Return JSON array:
-[{
-  "id": "q1",
-  "type": "${taskType}",
-  "passage": "German text...",
-  "question": "Question in German",
-  "options": ["A", "B", "C", "D"] (if applicable),
-  "correctAnswer": "The correct answer"
-}]`;
+Use ids "q1", "q2", ... and set every question's type to "${taskType}".
+Write passages and questions in German; include options only where the task type has fixed choices.`;
 
     try {
-      const response = await sendMessage(prompt, "studybuddy", {
-        conversationContext: `You are a Goethe exam question generator for ${selectedLevel} level.`,
+      const parsedQuestions = await generate<GoetheQuestion[]>("goetheQuestions", prompt, {
+        systemPrompt: `You are a Goethe exam question generator for ${selectedLevel} level.`,
       });
-      
-      const jsonMatch = response.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        const parsedQuestions = JSON.parse(jsonMatch[0]) as GoetheQuestion[];
-        setQuestions(parsedQuestions);
-      }
+      setQuestions(parsedQuestions);
     } catch (error) {
       console.error("Question generation error:", error);
       // Fallback
@@ -153,8 +205,70 @@ Return JSON array:
     }
   };
 
+  const generateHoerenSection = async (teil: HoerenTeil): Promise<HoerenSection> => {
+    const prompt = `Create Goethe-Zertifikat ${selectedLevel} Hören Teil ${teil.teil} ("${teil.title}").
+Audio: ${teil.textType}. Write the full German transcript as it would be spoken (speaker names before each turn for dialogues), under 3500 characters.
+Then write exactly ${teil.items} questions in German answerable only from the audio, ids "1" to "${teil.items}", type "${teil.format}".
+${teil.format === "multiple-choice" ? "Give three options (a, b, c) per question; correctAnswer must equal one option exactly." : ""}${teil.format === "richtig-falsch" ? 'Each question is a statement; correctAnswer is "Richtig" or "Falsch".' : ""}${teil.format === "ja-nein" ? 'Each question is a statement; correctAnswer is "Ja" or "Nein".' : ""}${teil.format === "zuordnung" ? "Each question is an item to match; give the same list of choices (people or options) as options for every question." : ""}${teil.format === "notizen" ? "Each question is a note with a gap; correctAnswer is one to three words from the audio." : ""}`;
+
+    const result = await generate<{ script: string; questions: GoetheQuestion[] }>("goetheListening", prompt, {
+      systemPrompt: `You are a Goethe-Institut exam author writing ${selectedLevel} listening tasks. Use natural spoken German appropriate to the level.`,
+    });
+
+    return {
+      teil,
+      script: result.script,
+      questions: result.questions.slice(0, teil.items).map((q, i) => ({
+        ...q,
+        id: `t${teil.teil}-${i + 1}`,
+        type: teil.format,
+        options: fixedHoerenOptions[teil.format] ?? (teil.format === "notizen" ? undefined : q.options),
+      })),
+    };
+  };
+
+  const generateHoeren = async (mode: TestMode) => {
+    const format = hoerenFormats[selectedLevel!];
+    const teile = mode === "mock"
+      ? format.teile
+      : [format.teile.find(t => t.teil === selectedTeil) || format.teile[0]];
+
+    setHoerenSections([]);
+    setCurrentSection(0);
+    setPlaysUsed({});
+
+    // Each Teil is generated on its own and retried once, so one failure
+    // doesn't throw away the Teile that did come back
+    const generateWithRetry = (teil: HoerenTeil) =>
+      generateHoerenSection(teil).catch((error) => {
+        console.error(`Hören Teil ${teil.teil} generation error:`, error);
+        return generateHoerenSection(teil);
+      });
+
+    const results = await Promise.allSettled(teile.map(generateWithRetry));
+    const sections = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+
+    if (sections.length > 0) {
+      if (sections.length < teile.length) {
+        const missing = teile.filter((_, i) => results[i].status === "rejected").map((t) => t.teil);
+        toast.warning(`Teil ${missing.join(", ")} could not be generated and was skipped.`);
+      }
+      setHoerenSections(sections);
+    } else {
+      // Fallback
+      setHoerenSections([{
+        teil: { teil: 1, title: "Durchsage", description: "Sie hören eine Durchsage. Kreuzen Sie an: Richtig oder Falsch.", textType: "announcement", format: "richtig-falsch", items: 2, plays: 2 },
+        script: "Achtung am Gleis drei. Der Regionalexpress nach Hamburg hat heute etwa zwanzig Minuten Verspätung. Bitte beachten Sie: Der Zug fährt heute von Gleis fünf ab.",
+        questions: [
+          { id: "t1-1", type: "richtig-falsch", question: "Der Zug nach Hamburg kommt pünktlich.", options: ["Richtig", "Falsch"], correctAnswer: "Falsch" },
+          { id: "t1-2", type: "richtig-falsch", question: "Der Zug fährt heute von einem anderen Gleis.", options: ["Richtig", "Falsch"], correctAnswer: "Richtig" },
+        ],
+      }]);
+    }
+  };
+
   const generateWritingTask = async () => {
-    const writingPrompts: Record<GoetheLevel, string> = {
+    const writingPrompts: Record<CEFRLevel, string> = {
       A1: "Write a short email (30-40 words) introducing yourself to a new German friend. Include your name, age, and one hobby.",
       A2: "Write an email (50-60 words) to your friend about your plans for the weekend.",
       B1: "Write a letter (80-100 words) responding to a job advertisement.",
@@ -163,10 +277,67 @@ Return JSON array:
     };
     
     setWritingPrompt(writingPrompts[selectedLevel!] || writingPrompts.A1);
+    setWritingAnswer("");
+    setSchreibenEvaluation(null);
+    setSchreibenScore(null);
+  };
+
+  const evaluateWriting = async (): Promise<SchreibenScore | null> => {
+    if (!writingAnswer.trim()) {
+      toast.error("Bitte schreiben Sie zuerst Ihre Antwort.");
+      return null;
+    }
+
+    const evaluationPrompt = `Bewerten Sie diesen Schreiben-Text für das Goethe-Zertifikat ${selectedLevel}.
+
+Aufgabe: ${writingPrompt}
+
+Text des Kandidaten:
+"""
+${writingAnswer}
+"""
+
+Vergeben Sie für jedes Kriterium eine Note von A (voll erfüllt) bis E (nicht erfüllt) nach den Goethe-Bewertungskriterien für ${selectedLevel}:
+- erfuellung: Erfüllung der Aufgabenstellung (Inhaltspunkte, Textsorte, Umfang)
+- kohaerenz: Kohärenz (Textaufbau, Konnektoren)
+- wortschatz: Wortschatz (Spektrum und Beherrschung)
+- strukturen: Strukturen (grammatische Richtigkeit und Spektrum)
+
+Geben Sie den vollständig korrigierten Text zurück und listen Sie jeden Fehler mit Originalstelle, Korrektur, Fehlerkategorie und kurzer Erklärung auf Deutsch. Kommentare und Zusammenfassung auf Deutsch.`;
+
+    try {
+      const evaluation = await generate<SchreibenEvaluation>("goetheWritingEvaluation", evaluationPrompt, {
+        systemPrompt: `You are a licensed Goethe-Institut examiner for ${selectedLevel}. Grade strictly but fairly according to the level's descriptors.`,
+      });
+      const grades = Object.fromEntries(
+        Object.entries(evaluation.criteria).map(([id, c]) => [id, c.grade])
+      ) as Record<SchreibenCriterion, BewertungsGrade>;
+      const score = calculateSchreibenScore(grades, selectedLevel!);
+
+      setSchreibenEvaluation(evaluation);
+      setSchreibenScore(score);
+      toast[score.passed ? "success" : "error"](
+        `Schreiben: ${score.points}/${score.maxPoints} Punkte (${score.percentage}%) - ${score.passed ? "Bestanden!" : "Nicht bestanden"}`
+      );
+      return score;
+    } catch (error) {
+      console.error("Schreiben evaluation error:", error);
+      toast.error("Bewertung fehlgeschlagen. Bitte versuchen Sie es erneut.");
+      return null;
+    }
+  };
+
+  const submitWriting = (): Promise<SchreibenScore | null> => {
+    if (!schreibenEvaluationRef.current) {
+      schreibenEvaluationRef.current = evaluateWriting().finally(() => {
+        schreibenEvaluationRef.current = null;
+      });
+    }
+    return schreibenEvaluationRef.current;
   };
 
   const generateSpeakingTask = async () => {
-    const taskPrompts: Record<GoetheLevel, string[]> = {
+    const taskPrompts: Record<CEFRLevel, string[]> = {
       A1: ["Stellen Sie sich vor (Introduce yourself)", "Beschreiben Sie Ihre Familie (Describe your family)"],
       A2: ["Erzählen Sie über Ihren Tagesablauf (Tell about your daily routine)", "Beschreiben Sie Ihr Lieblingsessen (Describe your favorite food)"],
       B1: ["Diskutieren Sie die Vor- und Nachteile von Social Media", "Erzählen Sie über eine Reise, die Sie gemacht haben"],
@@ -180,22 +351,81 @@ Return JSON array:
     return task;
   };
 
-  const startTest = async () => {
+  // Module and mode are passed explicitly so the full mock can start the next
+  // module in the same tick it switches to it
+  const startTest = async (module: GoetheModule = selectedModule!, mode: TestMode = testMode) => {
     setIsStarted(true);
     setCurrentQuestion(0);
     setAnswers({});
     setFeedback(null);
-    setTimeRemaining(30 * 60); // 30 minutes
     
-    if (selectedModule === "lesen") {
+    if (mode === "mock") {
+      setTimeRemaining(goetheModuleDurations[selectedLevel!][module] * 60);
+    } else if (module === "hoeren") {
+      const format = hoerenFormats[selectedLevel!];
+      setTimeRemaining(Math.ceil(format.durationMinutes / format.teile.length) * 60);
+    } else {
+      setTimeRemaining(30 * 60); // 30 minutes
+    }
+    
+    if (module === "lesen") {
       await generateQuestions();
-    } else if (selectedModule === "schreiben") {
+    } else if (module === "hoeren") {
+      await generateHoeren(mode);
+    } else if (module === "schreiben") {
       await generateWritingTask();
-    } else if (selectedModule === "sprechen") {
+    } else if (module === "sprechen") {
       await generateSpeakingTask();
     }
   };
 
+  const startFullMock = () => {
+    setTestMode("mock");
+    setFullMock({ moduleIndex: 0, percentages: {} });
+    setSelectedModule(mockModuleOrder[0]);
+    startTest(mockModuleOrder[0], "mock");
+  };
+
+  // Records the submitted module and moves on; earlier modules can't be reopened
+  const completeMockModule = (module: GoetheModule, percentage: number) => {
+    if (!fullMock) return;
+
+    const percentages = { ...fullMock.percentages, [module]: percentage };
+    const nextIndex = fullMock.moduleIndex + 1;
+
+    if (nextIndex >= mockModuleOrder.length) {
+      setFullMock({ moduleIndex: nextIndex, percentages, completedAt: new Date() });
+      setIsStarted(false);
+      stopSpeaking();
+      return;
+    }
+
+    const nextModule = mockModuleOrder[nextIndex];
+    setFullMock({ moduleIndex: nextIndex, percentages });
+    setSelectedModule(nextModule);
+    toast.info(`Nächstes Modul: ${modules.find(m => m.id === nextModule)?.germanName}`);
+    startTest(nextModule, "mock");
+  };
+
+  const getSpeakingPercentage = () =>
+    feedback
+      ? Math.round(((feedback.pronunciation + feedback.vocabulary + feedback.grammar + feedback.fluency) / 20) * 100)
+      : 0;
+
+  const finishSchreibenInMock = async () => {
+    const pending = schreibenEvaluationRef.current;
+    const score = pending
+      ? await pending
+      : schreibenScore ?? (writingAnswer.trim() ? await submitWriting() : null);
+    completeMockModule("schreiben", score?.percentage ?? 0);
+  };
+
+  const exitFullMock = () => {
+    setFullMock(null);
+    setIsStarted(false);
+    setSelectedModule(null);
+  };
+
   const handleAnswer = (questionId: string, answer: string) => {
     setAnswers(prev => ({ ...prev, [questionId]: answer }));
   };
@@ -213,18 +443,31 @@ Return JSON array:
   };
 
   const submitTest = async () => {
+    const scoredQuestions = selectedModule === "hoeren"
+      ? hoerenSections.flatMap(section => section.questions)
+      : questions;
+    if (scoredQuestions.length === 0) {
+      setIsStarted(false);
+      return;
+    }
+
     let correct = 0;
-    questions.forEach(q => {
-      if (answers[q.id]?.toLowerCase().trim() === q.correctAnswer.toLowerCase().trim()) {
+    scoredQuestions.forEach(q => {
+      if (normalizeAnswer(answers[q.id] || "") === normalizeAnswer(q.correctAnswer)) {
         correct++;
       }
     });
     
-    const percentage = Math.round((correct / questions.length) * 100);
+    const percentage = Math.round((correct / scoredQuestions.length) * 100);
     const passed = percentage >= 60;
     
+    if (fullMock) {
+      completeMockModule(selectedModule!, percentage);
+      return;
+    }
+    
     toast[passed ? "success" : "error"](
-      `Test Complete! Score: ${correct}/${questions.length} (${percentage}%) - ${passed ? "Passed!" : "Try again"}`
+      `Test Complete! Score: ${correct}/${scoredQuestions.length} (${percentage}%) - ${passed ? "Passed!" : "Try again"}`
     );
     setIsStarted(false);
   };
@@ -239,28 +482,13 @@ Provide feedback on:
 - Grammatik (Grammar)
 - Flüssigkeit (Fluency)
 
-Return JSON:
-{
-  "pronunciation": 3,
-  "vocabulary": 3,
-  "grammar": 3,
-  "fluency": 3,
-  "passed": true,
-  "feedback": "Specific feedback in German and English"
-}
-
-Score out of 5 for each category.`;
+Score out of 5 for each category, decide whether the response passes at this level, and give specific feedback in German and English.`;
 
     try {
-      const response = await sendMessage(feedbackPrompt, "studybuddy", {
-        conversationContext: `You are a Goethe exam speaking evaluator for ${selectedLevel} level.`,
+      const parsedFeedback = await generate<GoetheSpeakingFeedback>("goetheSpeakingFeedback", feedbackPrompt, {
+        systemPrompt: `You are a Goethe exam speaking evaluator for ${selectedLevel} level.`,
       });
-      
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsedFeedback = JSON.parse(jsonMatch[0]);
-        setFeedback(parsedFeedback);
-      }
+      setFeedback(parsedFeedback);
     } catch (error) {
       console.error("Feedback error:", error);
     }
@@ -284,6 +512,25 @@ Score out of 5 for each category.`;
     }
   }, [isListening, isSupported, startListening, stopListening, transcript, stopSpeaking]);
 
+  // When a module's time runs out in the full mock, submit whatever is there
+  const mockTimeoutRef = useRef<() => void>();
+  mockTimeoutRef.current = () => {
+    if (selectedModule === "lesen" || selectedModule === "hoeren") {
+      submitTest();
+    } else if (selectedModule === "schreiben") {
+      finishSchreibenInMock();
+    } else if (selectedModule === "sprechen") {
+      completeMockModule("sprechen", getSpeakingPercentage());
+    }
+  };
+
+  useEffect(() => {
+    if (fullMock && isStarted && timeRemaining === 0) {
+      toast.warning("Die Zeit ist abgelaufen.");
+      mockTimeoutRef.current?.();
+    }
+  }, [fullMock, isStarted, timeRemaining]);
+
   // Render Level Selection
   if (!selectedLevel) {
     return (
@@ -325,6 +572,9 @@ Score out of 5 for each category.`;
               <p className="text-muted-foreground text-lg max-w-xl mx-auto">
                 Prepare for your Goethe German exam. Select your level to start practicing.
               </p>
+              {placedLevel && (
+                <p className="text-sm text-primary mt-2">Your placement test puts you at {placedLevel}.</p>
+              )}
             </div>
 
             <div className="space-y-4 mt-8">
@@ -335,11 +585,18 @@ Score out of 5 for each category.`;
                   animate={{ opacity: 1, x: 0 }}
                   transition={{ delay: index * 0.1 }}
                   onClick={() => setSelectedLevel(level.id)}
-                  className="w-full p-6 rounded-2xl glass-card hover:scale-[1.01] transition-all text-left group"
+                  className={`w-full p-6 rounded-2xl glass-card hover:scale-[1.01] transition-all text-left group ${
+                    placedLevel === level.id ? "ring-2 ring-primary bg-primary/5" : ""
+                  }`}
                 >
                   <div className="flex items-center justify-between">
                     <div>
-                      <h3 className="text-xl font-semibold mb-1">{level.name}</h3>
+                      <h3 className="text-xl font-semibold mb-1 flex items-center gap-2">
+                        {level.name}
+                        {placedLevel === level.id && (
+                          <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-primary/20 text-primary">Your level</span>
+                        )}
+                      </h3>
                       <p className="text-muted-foreground">{level.description}</p>
                     </div>
                     <ChevronRight className="w-5 h-5 text-muted-foreground group-hover:text-primary transition-colors" />
@@ -353,6 +610,42 @@ Score out of 5 for each category.`;
     );
   }
 
+  // Render Full Mock Result
+  if (fullMock?.completedAt) {
+    const result = evaluateMockResult(selectedLevel!, {
+      lesen: fullMock.percentages.lesen ?? 0,
+      hoeren: fullMock.percentages.hoeren ?? 0,
+      schreiben: fullMock.percentages.schreiben ?? 0,
+      sprechen: fullMock.percentages.sprechen ?? 0,
+    });
+
+    return (
+      <div className="min-h-screen flex flex-col bg-background">
+        <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/80 backdrop-blur-xl">
+          <div className="flex h-16 items-center justify-between px-4 md:px-6">
+            <div className="flex items-center gap-3">
+              <Button variant="ghost" size="icon" className="rounded-xl" onClick={exitFullMock}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <h1 className="text-lg font-semibold">Ergebnis - Goethe {selectedLevel}</h1>
+            </div>
+          </div>
+        </header>
+
+        <main className="flex-1 p-4 md:p-6">
+          <div className="max-w-2xl mx-auto space-y-6">
+            <GoetheMockCertificate result={result} completedAt={fullMock.completedAt} />
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={exitFullMock}>
+                Zurück zur Übersicht
+              </Button>
+            </div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
   // Render Module Selection
   if (!selectedModule) {
     return (
@@ -410,7 +703,7 @@ Score out of 5 for each category.`;
             <div className="mt-12">
               <h3 className="text-xl font-semibold mb-4 text-center">Mock Tests</h3>
               <div className="grid md:grid-cols-2 gap-4">
-                <Button variant="outline" className="h-20 flex-col gap-2 rounded-2xl">
+                <Button variant="outline" className="h-20 flex-col gap-2 rounded-2xl" onClick={startFullMock}>
                   <Target className="w-6 h-6 text-primary" />
                   <span>Full Mock Test</span>
                 </Button>
@@ -499,9 +792,42 @@ Score out of 5 for each category.`;
                 </div>
               )}
 
+              {/* Teil Selection (Hören practice only) */}
+              {selectedModule === "hoeren" && testMode === "practice" && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground mb-3 block">
+                    Practice by Teil
+                  </label>
+                  <div className="space-y-2">
+                    {hoerenFormats[selectedLevel!].teile.map((teil) => (
+                      <button
+                        key={teil.teil}
+                        onClick={() => setSelectedTeil(teil.teil)}
+                        className={`w-full p-3 rounded-xl border-2 transition-all text-left text-sm ${
+                          selectedTeil === teil.teil
+                            ? "border-primary bg-primary/10"
+                            : "border-border/50 hover:border-border"
+                        }`}
+                      >
+                        <span className="font-medium block">Teil {teil.teil}: {teil.title}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {teil.items} Aufgaben • {teil.plays === 1 ? "einmal hören" : `${teil.plays}-mal hören`}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {selectedModule === "hoeren" && testMode === "mock" && (
+                <p className="text-sm text-muted-foreground">
+                  Alle {hoerenFormats[selectedLevel!].teile.length} Teile • ca. {hoerenFormats[selectedLevel!].durationMinutes} Minuten
+                </p>
+              )}
+
               <Button
                 className="w-full h-14 rounded-2xl text-lg font-semibold"
-                onClick={startTest}
+                onClick={() => startTest()}
               >
                 Start {testMode === "practice" ? "Practice" : "Mock Test"}
               </Button>
@@ -520,7 +846,14 @@ Score out of 5 for each category.`;
       <div className="min-h-screen flex flex-col bg-background">
         <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/80 backdrop-blur-xl">
           <div className="flex h-16 items-center justify-between px-4 md:px-6">
-            <span className="font-medium">Frage {currentQuestion + 1}/{questions.length}</span>
+            <div className="flex items-center gap-3">
+              <span className="font-medium">Frage {currentQuestion + 1}/{questions.length}</span>
+              {fullMock && (
+                <span className="text-xs px-2 py-1 rounded-lg bg-muted text-muted-foreground">
+                  Modul {fullMock.moduleIndex + 1}/{mockModuleOrder.length}
+                </span>
+              )}
+            </div>
             <div className="flex items-center gap-4">
               <div className="flex items-center gap-2 px-3 py-1.5 rounded-xl bg-primary/10 text-primary">
                 <Clock className="w-4 h-4" />
@@ -599,7 +932,14 @@ Score out of 5 for each category.`;
       <div className="min-h-screen flex flex-col bg-background">
         <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/80 backdrop-blur-xl">
           <div className="flex h-16 items-center justify-between px-4 md:px-6">
-            <span className="font-medium">Schreiben - {selectedLevel}</span>
+            <div className="flex items-center gap-3">
+              <span className="font-medium">Schreiben - {selectedLevel}</span>
+              {fullMock && (
+                <span className="text-xs px-2 py-1 rounded-lg bg-muted text-muted-foreground">
+                  Modul {fullMock.moduleIndex + 1}/{mockModuleOrder.length}
+                </span>
+              )}
+            </div>
             <div className="flex items-center gap-4">
               <span className="text-sm text-muted-foreground">{wordCount} Wörter</span>
               <div className="flex items-center gap-2 px-3 py-1.5 rounded-xl bg-primary/10 text-primary">
@@ -617,23 +957,67 @@ Score out of 5 for each category.`;
               <p className="text-muted-foreground leading-relaxed">{writingPrompt}</p>
             </div>
 
-            <div className="glass-card rounded-2xl p-6">
-              <Textarea
-                value={writingAnswer}
-                onChange={(e) => setWritingAnswer(e.target.value)}
-                placeholder="Schreiben Sie hier Ihre Antwort..."
-                className="min-h-[300px] text-base leading-relaxed resize-none border-0 focus-visible:ring-0 bg-transparent"
-              />
-            </div>
+            {schreibenEvaluation && schreibenScore ? (
+              <>
+                <GoetheSchreibenReview
+                  score={schreibenScore}
+                  comments={Object.fromEntries(
+                    Object.entries(schreibenEvaluation.criteria).map(([id, c]) => [id, c.comment])
+                  )}
+                  correctedText={schreibenEvaluation.correctedText}
+                  errors={schreibenEvaluation.errors}
+                  summary={schreibenEvaluation.summary}
+                />
 
-            <div className="flex justify-end">
-              <Button onClick={() => {
-                toast.success("Schreiben eingereicht!");
-                setIsStarted(false);
-              }} className="bg-success hover:bg-success/90">
-                Abgeben
-              </Button>
-            </div>
+                <div className="flex justify-end gap-3">
+                  {fullMock ? (
+                    <Button onClick={finishSchreibenInMock}>
+                      Nächstes Modul
+                      <ArrowRight className="w-4 h-4 ml-2" />
+                    </Button>
+                  ) : (
+                    <>
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          setSchreibenEvaluation(null);
+                          setSchreibenScore(null);
+                        }}
+                      >
+                        Überarbeiten
+                      </Button>
+                      <Button onClick={() => setIsStarted(false)}>
+                        Fertig
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="glass-card rounded-2xl p-6">
+                  <Textarea
+                    value={writingAnswer}
+                    onChange={(e) => setWritingAnswer(e.target.value)}
+                    placeholder="Schreiben Sie hier Ihre Antwort..."
+                    className="min-h-[300px] text-base leading-relaxed resize-none border-0 focus-visible:ring-0 bg-transparent"
+                  />
+                </div>
+
+                <div className="flex justify-end">
+                  <Button onClick={submitWriting} disabled={isGenerating} className="bg-success hover:bg-success/90">
+                    {isGenerating ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Wird bewertet...
+                      </>
+                    ) : (
+                      "Abgeben"
+                    )}
+                  </Button>
+                </div>
+              </>
+            )}
           </div>
         </main>
       </div>
@@ -646,7 +1030,14 @@ Score out of 5 for each category.`;
       <div className="min-h-screen flex flex-col bg-background">
         <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/80 backdrop-blur-xl">
           <div className="flex h-16 items-center justify-between px-4 md:px-6">
-            <span className="font-medium">Sprechen - Aufgabe {speakingTask}</span>
+            <div className="flex items-center gap-3">
+              <span className="font-medium">Sprechen - Aufgabe {speakingTask}</span>
+              {fullMock && (
+                <span className="text-xs px-2 py-1 rounded-lg bg-muted text-muted-foreground">
+                  Modul {fullMock.moduleIndex + 1}/{mockModuleOrder.length}
+                </span>
+              )}
+            </div>
             <StatusIndicator status={status} />
           </div>
         </header>
@@ -720,24 +1111,131 @@ Score out of 5 for each category.`;
                 </div>
               </motion.div>
             )}
+
+            {fullMock && (
+              <Button
+                onClick={() => completeMockModule("sprechen", getSpeakingPercentage())}
+                disabled={isGenerating || isListening}
+                className="bg-success hover:bg-success/90"
+              >
+                Prüfung abschließen
+              </Button>
+            )}
           </motion.div>
         </main>
       </div>
     );
   }
 
-  // Default listening module placeholder
-  return (
-    <div className="min-h-screen flex flex-col bg-background items-center justify-center">
-      <div className="text-center">
-        <Headphones className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
-        <h2 className="text-2xl font-semibold mb-2">Hören</h2>
-        <p className="text-muted-foreground mb-6">Coming soon with audio-based practice</p>
-        <Button variant="outline" onClick={() => setSelectedModule(null)}>
-          <ArrowLeft className="w-4 h-4 mr-2" />
-          Zurück
-        </Button>
+  // Render Listening Test
+  const section = hoerenSections[currentSection];
+
+  if (!section) {
+    return (
+      <div className="min-h-screen flex flex-col bg-background items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="w-12 h-12 mx-auto mb-4 animate-spin text-primary" />
+          <h2 className="text-2xl font-semibold mb-2">Hören</h2>
+          <p className="text-muted-foreground mb-6">Hörtexte werden vorbereitet...</p>
+          {!fullMock && (
+            <Button variant="outline" onClick={() => setIsStarted(false)}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Zurück
+            </Button>
+          )}
+        </div>
       </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/80 backdrop-blur-xl">
+        <div className="flex h-16 items-center justify-between px-4 md:px-6">
+          <div className="flex items-center gap-3">
+            <span className="font-medium">Hören - Teil {section.teil.teil} ({currentSection + 1}/{hoerenSections.length})</span>
+            {fullMock && (
+              <span className="text-xs px-2 py-1 rounded-lg bg-muted text-muted-foreground">
+                Modul {fullMock.moduleIndex + 1}/{mockModuleOrder.length}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2 px-3 py-1.5 rounded-xl bg-primary/10 text-primary">
+              <Clock className="w-4 h-4" />
+              <span className="font-mono font-medium">{formatTime(timeRemaining)}</span>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 p-4 md:p-6">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div className="glass-card rounded-2xl p-6">
+            <h3 className="font-semibold mb-2">Teil {section.teil.teil}: {section.teil.title}</h3>
+            <p className="text-muted-foreground">{section.teil.description}</p>
+          </div>
+
+          <GoetheHoerenAudio
+            text={section.script}
+            maxPlays={section.teil.plays}
+            playsUsed={playsUsed[section.teil.teil] || 0}
+            onPlayStarted={() =>
+              setPlaysUsed(prev => ({ ...prev, [section.teil.teil]: (prev[section.teil.teil] || 0) + 1 }))
+            }
+          />
+
+          <div className="space-y-4">
+            {section.questions.map((q, index) => (
+              <div key={q.id} className="glass-card rounded-2xl p-4">
+                <h4 className="font-medium mb-3">{index + 1}. {q.question}</h4>
+                {q.options && q.options.length > 0 ? (
+                  <RadioGroup
+                    value={answers[q.id] || ""}
+                    onValueChange={(value) => handleAnswer(q.id, value)}
+                    className={q.options.length === 2 ? "grid grid-cols-2 gap-3" : "space-y-2"}
+                  >
+                    {q.options.map((option, i) => (
+                      <div key={i} className="flex items-center space-x-3 p-3 rounded-xl border border-border/50 hover:border-primary/50 transition-colors">
+                        <RadioGroupItem value={option} id={`${q.id}-option-${i}`} />
+                        <Label htmlFor={`${q.id}-option-${i}`} className="flex-1 cursor-pointer">
+                          {option}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                ) : (
+                  <Input
+                    value={answers[q.id] || ""}
+                    onChange={(e) => handleAnswer(q.id, e.target.value)}
+                    placeholder="Stichwort..."
+                    className="rounded-xl"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Navigation */}
+          <div className="flex items-center justify-between">
+            <Button variant="outline" onClick={() => setCurrentSection(prev => prev - 1)} disabled={currentSection === 0}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Zurück
+            </Button>
+
+            {currentSection === hoerenSections.length - 1 ? (
+              <Button onClick={submitTest} className="bg-success hover:bg-success/90">
+                Abgeben
+              </Button>
+            ) : (
+              <Button onClick={() => setCurrentSection(prev => prev + 1)}>
+                Nächster Teil
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </main>
     </div>
   );
 };
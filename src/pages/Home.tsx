@@ -19,10 +19,13 @@ import {
   Eye,
   Lock,
   Star,
-  Baby
+  Baby,
+  Flame,
+  Heart
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/AuthContext";
+import { useLearningProgress } from "@/hooks/useLearningProgress";
 import ConversationHistory from "@/components/ConversationHistory";
 import Footer from "@/components/Footer";
 import { toast } from "sonner";
@@ -87,6 +90,7 @@ const whyBlitix = [
 const Home = () => {
   const { user, signOut } = useAuth();
   const [historyOpen, setHistoryOpen] = useState(false);
+  const { streak, totalXP, hearts, maxHearts } = useLearningProgress();
 
   const handleSelectConversation = (conversationId: string, messages: any[]) => {
     toast.success(`Loaded conversation with ${messages.length} messages`);
@@ -209,6 +213,34 @@ const Home = () => {
           </motion.div>
         </motion.div>
 
+        {/* Learning Progress */}
+        {totalXP > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6, delay: 0.55 }}
+            className="mb-10"
+          >
+            <Link
+              to="/language"
+              className="flex items-center gap-5 glass-subtle px-6 py-3 rounded-full hover:bg-white/10 transition-colors"
+            >
+              <span className="flex items-center gap-1.5 text-sm font-medium">
+                <Flame className="w-4 h-4 text-warning" />
+                {streak} day streak
+              </span>
+              <span className="flex items-center gap-1.5 text-sm font-medium">
+                <Zap className="w-4 h-4 text-primary" />
+                {totalXP} XP
+              </span>
+              <span className="flex items-center gap-1.5 text-sm font-medium">
+                <Heart className="w-4 h-4 text-destructive" />
+                {hearts}/{maxHearts}
+              </span>
+            </Link>
+          </motion.div>
+        )}
+
         {/* Feature Cards */}
         <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 w-full max-w-7xl px-4">
           {features.map((feature, index) => (
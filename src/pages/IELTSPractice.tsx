@@ -4,7 +4,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { 
   ArrowLeft, ArrowRight, GraduationCap, Mic, Volume2, FileText, 
   BookOpen, Headphones, Clock, Trophy, Target, CheckCircle2, 
-  XCircle, ChevronRight, Play, Pause, RotateCcw
+  XCircle, ChevronRight, Play, Pause, RotateCcw, Loader2
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
@@ -13,13 +13,21 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useChat } from "@/hooks/useChat";
+import { useStructuredGeneration } from "@/hooks/useStructuredGeneration";
 import { useReliableSpeechRecognition } from "@/hooks/useReliableSpeechRecognition";
 import { useNaturalTTS } from "@/hooks/useNaturalTTS";
+import { useIELTSAttempts } from "@/hooks/useIELTSAttempts";
+import { useWritingEvaluation } from "@/hooks/useWritingEvaluation";
+import { calculateObjectiveBand, roundToHalfBand, toRawScore, RAW_SCORE_MAX, type IELTSTestFormat } from "@/lib/ieltsScoring";
 import VoiceOrb from "@/components/VoiceOrb";
 import StatusIndicator from "@/components/StatusIndicator";
 import WaveformVisualizer from "@/components/WaveformVisualizer";
 import IELTSListeningAudio from "@/components/IELTSListeningAudio";
 import IELTSWritingChart from "@/components/IELTSWritingChart";
+import { TASK1_TOPICS, chartSpecToText, task1Prompt, type IELTSChartSpec, type IELTSChartType } from "@/lib/ieltsChart";
+import { verifyTask1Figures, type Task1Verification } from "@/lib/task1Verification";
+import IELTSBandHistory from "@/components/IELTSBandHistory";
+import IELTSWritingReview from "@/components/IELTSWritingReview";
 import { toast } from "sonner";
 
 // IELTS Types
@@ -63,17 +71,68 @@ const readingQuestionTypes: { id: ReadingQuestionType; name: string }[] = [
   { id: "short-answer", name: "Short Answer Questions" },
 ];
 
+const testFormats: { id: IELTSTestFormat; name: string }[] = [
+  { id: "academic", name: "Academic" },
+  { id: "general", name: "General Training" },
+];
+
 const testModes: { id: TestMode; name: string; questions: number; time: string }[] = [
   { id: "practice", name: "Practice Mode", questions: 10, time: "15 min" },
   { id: "half-mock", name: "Half Mock", questions: 20, time: "30 min" },
   { id: "full-mock", name: "Full Mock Test", questions: 40, time: "60 min" },
 ];
 
+// Sample listening section used until audio sets are generated per attempt
+const sampleListeningText = `Welcome to the IELTS Listening test. You will hear a conversation between two students discussing their university project. 
+
+Sarah: Hi Tom, have you started working on our environmental science project yet?
+
+Tom: Yes, I've been researching renewable energy sources. I think we should focus on solar and wind power.
+
+Sarah: That sounds good. I found some interesting statistics about solar panel efficiency. Did you know that modern panels can convert up to 22 percent of sunlight into electricity?
+
+Tom: That's impressive. I read that wind turbines are becoming more cost-effective too. The global capacity has doubled in the last five years.
+
+Sarah: We should also mention the challenges. What about energy storage?
+
+Tom: Good point. Battery technology is improving, but it's still the main obstacle for renewable energy adoption.`;
+
+const listeningQs: IELTSQuestion[] = [
+  {
+    id: "l1",
+    type: "multiple-choice",
+    question: "What is the main topic of the students' project?",
+    options: ["Climate change", "Renewable energy sources", "Battery technology", "Environmental pollution"],
+    correctAnswer: "Renewable energy sources"
+  },
+  {
+    id: "l2",
+    type: "short-answer",
+    question: "What percentage of sunlight can modern solar panels convert to electricity?",
+    correctAnswer: "22 percent"
+  },
+  {
+    id: "l3",
+    type: "multiple-choice",
+    question: "According to Tom, what has happened to global wind turbine capacity?",
+    options: ["It has tripled", "It has doubled", "It has remained stable", "It has decreased"],
+    correctAnswer: "It has doubled"
+  },
+  {
+    id: "l4",
+    type: "short-answer",
+    question: "What does Tom identify as the main obstacle for renewable energy adoption?",
+    correctAnswer: "Battery technology"
+  }
+];
+
 const IELTSPractice = () => {
   // Module & Mode State
   const [selectedModule, setSelectedModule] = useState<IELTSModule | null>(null);
   const [testMode, setTestMode] = useState<TestMode>("practice");
+  const [testFormat, setTestFormat] = useState<IELTSTestFormat>("academic");
   const [selectedQuestionType, setSelectedQuestionType] = useState<ReadingQuestionType | null>(null);
+  const [showResults, setShowResults] = useState(false);
   
   // Test State
   const [isStarted, setIsStarted] = useState(false);
@@ -82,6 +141,7 @@ const IELTSPractice = () => {
   const [questions, setQuestions] = useState<IELTSQuestion[]>([]);
   const [answers, setAnswers] = useState<Record<string, string>>({});
   const [timeRemaining, setTimeRemaining] = useState(0);
+  const [testDuration, setTestDuration] = useState(0);
   const [isPaused, setIsPaused] = useState(false);
   
   // Speaking State
@@ -96,9 +156,10 @@ const IELTSPractice = () => {
   const [writingTask, setWritingTask] = useState<1 | 2>(1);
   const [writingPrompt, setWritingPrompt] = useState("");
   const [writingAnswer, setWritingAnswer] = useState("");
-  const [graphImage, setGraphImage] = useState("");
-  const [chartType, setChartType] = useState<"bar" | "line" | "pie" | "table" | "process" | "map">("bar");
-  const [chartDescription, setChartDescription] = useState("");
+  const [chartType, setChartType] = useState<IELTSChartType>("bar");
+  const [chartTopic, setChartTopic] = useState("");
+  const [chartSpec, setChartSpec] = useState<IELTSChartSpec | null>(null);
+  const [task1Verification, setTask1Verification] = useState<Task1Verification | null>(null);
   
   // Listening State
   const [listeningAudioText, setListeningAudioText] = useState("");
@@ -109,8 +170,16 @@ const IELTSPractice = () => {
   const [status, setStatus] = useState<"idle" | "listening" | "thinking" | "speaking">("idle");
   
   const { sendMessage, isLoading } = useChat();
+  const { generate, isGenerating } = useStructuredGeneration();
   const { isListening, transcript, startListening, stopListening, resetTranscript, isSupported, hasResult } = useReliableSpeechRecognition();
   const { speak, stop: stopSpeaking, isSpeaking, isLoading: isTTSLoading } = useNaturalTTS();
+  const { attempts, isLoading: isAttemptsLoading, isSignedIn, saveAttempt } = useIELTSAttempts();
+  const {
+    evaluation: writingEvaluation,
+    isEvaluating: isEvaluatingWriting,
+    evaluateWriting,
+    reset: resetWritingEvaluation,
+  } = useWritingEvaluation();
   
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -146,10 +215,10 @@ const IELTSPractice = () => {
   // Update status
   useEffect(() => {
     if (isListening) setStatus("listening");
-    else if (isLoading) setStatus("thinking");
+    else if (isLoading || isGenerating) setStatus("thinking");
     else if (isSpeaking || isTTSLoading) setStatus("speaking");
     else setStatus("idle");
-  }, [isListening, isLoading, isSpeaking, isTTSLoading]);
+  }, [isListening, isLoading, isGenerating, isSpeaking, isTTSLoading]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -164,27 +233,14 @@ const IELTSPractice = () => {
     const prompt = `Generate ${questionCount} authentic IELTS Reading questions. 
 Type: ${questionType}
 Include a reading passage (200-300 words) and questions.
-
-Return JSON array:
-[{
-  "id": "q1",
-  "type": "${questionType}",
-  "passage": "The passage text...",
-  "question": "Question text",
-  "options": ["A", "B", "C", "D"] (if applicable),
-  "correctAnswer": "The correct answer"
-}]`;
+Use ids "q1", "q2", ... and set every question's type to "${questionType}".
+Include options only for question types that have fixed choices.`;
 
     try {
-      const response = await sendMessage(prompt, "studybuddy", {
-        conversationContext: "You are an IELTS exam question generator. Create authentic IELTS-style questions.",
+      const parsedQuestions = await generate<IELTSQuestion[]>("ieltsQuestions", prompt, {
+        systemPrompt: "You are an IELTS exam question generator. Create authentic IELTS-style questions.",
       });
-      
-      const jsonMatch = response.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        const parsedQuestions = JSON.parse(jsonMatch[0]) as IELTSQuestion[];
-        setQuestions(parsedQuestions);
-      }
+      setQuestions(parsedQuestions);
     } catch (error) {
       console.error("Question generation error:", error);
       // Fallback questions
@@ -208,7 +264,7 @@ Return JSON array:
 
     try {
       const response = await sendMessage(partPrompts[speakingPart as keyof typeof partPrompts], "studybuddy", {
-        conversationContext: "You are an IELTS Speaking examiner. Generate authentic questions.",
+        instructions: "You are an IELTS Speaking examiner. Generate authentic questions.",
       });
       
       if (speakingPart === 2) {
@@ -227,26 +283,9 @@ Return JSON array:
 
   const generateWritingTask = async () => {
     if (writingTask === 1) {
-      // Task 1 - Graph/Chart description
-      const prompt = `Generate an IELTS Academic Writing Task 1 prompt. Include:
-1. Type of visual (bar chart, line graph, pie chart, table, or process diagram)
-2. Description of what the visual shows
-3. The task instruction
-
-Format:
-"The [type] below shows [description]. Summarise the information by selecting and reporting the main features, and make comparisons where relevant. Write at least 150 words."`;
-
-      try {
-        const response = await sendMessage(prompt, "studybuddy", {
-          conversationContext: "You are an IELTS examiner creating Writing Task 1 prompts.",
-        });
-        setWritingPrompt(response);
-        // Generate a placeholder graph description
-        setGraphImage("📊 [Visual representation would appear here - imagine a bar chart showing data]");
-      } catch (error) {
-        setWritingPrompt("The bar chart below shows the percentage of households with internet access in four different countries between 2000 and 2020. Summarise the information by selecting and reporting the main features.");
-        setGraphImage("📊 Bar Chart: Internet Access by Country (2000-2020)");
-      }
+      // Task 1 - the chart generates its own dataset and the prompt is built from it
+      setWritingPrompt("");
+      setChartTopic(TASK1_TOPICS[Math.floor(Math.random() * TASK1_TOPICS.length)]);
     } else {
       // Task 2 - Essay
       const prompt = `Generate an IELTS Academic Writing Task 2 essay question. Topics: education, technology, environment, society, health.
@@ -259,7 +298,7 @@ Include: Write at least 250 words.`;
 
       try {
         const response = await sendMessage(prompt, "studybuddy", {
-          conversationContext: "You are an IELTS examiner creating Writing Task 2 prompts.",
+          instructions: "You are an IELTS examiner creating Writing Task 2 prompts.",
         });
         setWritingPrompt(response);
       } catch (error) {
@@ -270,6 +309,7 @@ Include: Write at least 250 words.`;
 
   const startTest = async () => {
     setIsStarted(true);
+    resetWritingEvaluation();
     setCurrentQuestion(0);
     setAnswers({});
     setFeedback(null);
@@ -277,6 +317,7 @@ Include: Write at least 250 words.`;
     const time = testModes.find(m => m.id === testMode)?.time || "15 min";
     const minutes = parseInt(time);
     setTimeRemaining(minutes * 60);
+    setTestDuration(minutes * 60);
     
     if (selectedModule === "reading") {
       await generateQuestions();
@@ -303,49 +344,65 @@ Include: Write at least 250 words.`;
     }
   };
 
+  const getTimeUsed = () => Math.max(0, testDuration - timeRemaining);
+
   const submitTest = async () => {
+    const scoredQuestions = selectedModule === "listening" ? listeningQs : questions;
+    if (scoredQuestions.length === 0) {
+      setIsStarted(false);
+      return;
+    }
+
     // Calculate score
     let correct = 0;
-    questions.forEach(q => {
+    scoredQuestions.forEach(q => {
       if (answers[q.id]?.toLowerCase().trim() === q.correctAnswer.toLowerCase().trim()) {
         correct++;
       }
     });
     
-    const percentage = Math.round((correct / questions.length) * 100);
-    const bandScore = Math.min(9, Math.max(1, Math.round((percentage / 100) * 9)));
+    const rawScore = toRawScore(correct, scoredQuestions.length);
+    const bandScore = calculateObjectiveBand(selectedModule as "listening" | "reading", correct, scoredQuestions.length, testFormat);
     
-    toast.success(`Test Complete! Score: ${correct}/${questions.length} (Band ${bandScore})`);
+    toast.success(`Test Complete! Score: ${correct}/${scoredQuestions.length} (${rawScore}/${RAW_SCORE_MAX} • Band ${bandScore.toFixed(1)})`);
     setIsStarted(false);
+
+    await saveAttempt({
+      module: selectedModule!,
+      testMode,
+      questionType: selectedModule === "reading" ? selectedQuestionType || "multiple-choice" : null,
+      format: selectedModule === "reading" ? testFormat : null,
+      answers,
+      correctCount: correct,
+      totalQuestions: scoredQuestions.length,
+      timeUsedSeconds: getTimeUsed(),
+      bandScore,
+    });
   };
 
   const submitSpeakingAnswer = async (spokenText: string) => {
     const feedbackPrompt = `Rate this IELTS Speaking Part ${speakingPart} response:
 "${spokenText}"
 
-Return JSON:
-{
-  "fluency": 6,
-  "vocabulary": 5,
-  "grammar": 6,
-  "pronunciation": 7,
-  "overallBand": 6,
-  "suggestion": "Specific improvement tip"
-}`;
+Score fluency, vocabulary, grammar and pronunciation as IELTS bands, give an overall band and one specific improvement tip.`;
 
     try {
-      const response = await sendMessage(feedbackPrompt, "studybuddy", {
-        conversationContext: "You are an IELTS Speaking examiner providing band score feedback.",
+      const parsedFeedback = await generate<IELTSFeedback>("ieltsFeedback", feedbackPrompt, {
+        systemPrompt: "You are an IELTS Speaking examiner providing band score feedback.",
       });
+      setFeedback(parsedFeedback);
       
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsedFeedback = JSON.parse(jsonMatch[0]) as IELTSFeedback;
-        setFeedback(parsedFeedback);
-        
-        const feedbackText = `Your estimated band score is ${parsedFeedback.overallBand}. ${parsedFeedback.suggestion}`;
-        speak(feedbackText, "english");
-      }
+      const feedbackText = `Your estimated band score is ${parsedFeedback.overallBand}. ${parsedFeedback.suggestion}`;
+      speak(feedbackText, "english");
+
+      await saveAttempt({
+        module: "speaking",
+        testMode,
+        questionType: `part-${speakingPart}`,
+        answers: { part: speakingPart, transcript: spokenText, feedback: parsedFeedback },
+        timeUsedSeconds: getTimeUsed(),
+        bandScore: roundToHalfBand(parsedFeedback.overallBand),
+      });
     } catch (error) {
       console.error("Feedback error:", error);
     }
@@ -361,45 +418,52 @@ Return JSON:
   };
 
   const submitWriting = async () => {
-    const wordCount = writingAnswer.trim().split(/\s+/).length;
+    const wordCount = writingAnswer.trim().split(/\s+/).filter(Boolean).length;
     const minWords = writingTask === 1 ? 150 : 250;
     
+    if (wordCount === 0) {
+      toast.error("Write your response before submitting");
+      return;
+    }
+
     if (wordCount < minWords) {
       toast.warning(`Your response has ${wordCount} words. Minimum required: ${minWords}`);
     }
     
-    const feedbackPrompt = `Evaluate this IELTS Writing Task ${writingTask} response:
-
-Prompt: "${writingPrompt}"
-
-Response (${wordCount} words):
-"${writingAnswer}"
-
-Provide band score feedback for:
-- Task Achievement
-- Coherence & Cohesion
-- Lexical Resource
-- Grammatical Range & Accuracy
-
-Return JSON:
-{
-  "taskAchievement": 6,
-  "coherence": 6,
-  "vocabulary": 6,
-  "grammar": 6,
-  "overallBand": 6,
-  "feedback": "Detailed feedback"
-}`;
-
-    try {
-      const response = await sendMessage(feedbackPrompt, "studybuddy", {
-        conversationContext: "You are an IELTS Writing examiner.",
-      });
-      
-      toast.success("Writing submitted! Check your feedback below.");
-    } catch (error) {
-      console.error("Writing feedback error:", error);
+    const taskPrompt = writingPrompt;
+    const chartData = writingTask === 1 && chartSpec ? chartSpecToText(chartSpec) : undefined;
+    const verification = writingTask === 1 && chartSpec ? verifyTask1Figures(writingAnswer, chartSpec) : null;
+    setTask1Verification(verification);
+    const result = await evaluateWriting(writingTask as 1 | 2, taskPrompt, writingAnswer, chartData);
+
+    if (!result) {
+      toast.error("Couldn't evaluate your writing. Please try again.");
+      return;
     }
+
+    await saveAttempt({
+      module: "writing",
+      testMode,
+      questionType: `task-${writingTask}`,
+      answers: {
+        prompt: taskPrompt,
+        chart: writingTask === 1 ? chartSpec : null,
+        response: writingAnswer,
+        wordCount,
+        criteria: result.criteria,
+        annotationCount: result.annotations.length,
+        figureCheck: verification && {
+          figures: verification.figures.length,
+          misreported: verification.figures.filter((f) => f.status === "misreported").length,
+          unsupported: verification.figures.filter((f) => f.status === "unsupported").length,
+          missingFeatures: verification.keyFeatures.filter((f) => !f.covered).map((f) => f.description),
+        },
+      },
+      timeUsedSeconds: getTimeUsed(),
+      bandScore: result.overallBand,
+    });
+    
+    toast.success(`Writing assessed: Band ${result.overallBand.toFixed(1)}`);
   };
 
   const toggleListening = useCallback(() => {
@@ -420,6 +484,34 @@ Return JSON:
     }
   }, [isListening, isSupported, startListening, stopListening, transcript, stopSpeaking]);
 
+  // Render Band History
+  if (showResults) {
+    return (
+      <div className="min-h-screen flex flex-col bg-background">
+        <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/80 backdrop-blur-xl">
+          <div className="flex h-16 items-center justify-between px-4 md:px-6">
+            <div className="flex items-center gap-3">
+              <Button variant="ghost" size="icon" className="rounded-xl" onClick={() => setShowResults(false)}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <h1 className="text-lg font-semibold">My IELTS Results</h1>
+            </div>
+          </div>
+        </header>
+
+        <main className="flex-1 p-4 md:p-6">
+          <motion.div
+            className="max-w-4xl mx-auto"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            <IELTSBandHistory attempts={attempts} isLoading={isAttemptsLoading} isSignedIn={isSignedIn} />
+          </motion.div>
+        </main>
+      </div>
+    );
+  }
+
   // Render Module Selection
   if (!selectedModule) {
     return (
@@ -504,7 +596,7 @@ Return JSON:
                   <span>Half Mock</span>
                   <span className="text-xs text-muted-foreground">2 sections</span>
                 </Button>
-                <Button variant="outline" className="h-24 flex-col gap-2 rounded-2xl">
+                <Button variant="outline" className="h-24 flex-col gap-2 rounded-2xl" onClick={() => setShowResults(true)}>
                   <Trophy className="w-6 h-6 text-primary" />
                   <span>My Results</span>
                   <span className="text-xs text-muted-foreground">View progress</span>
@@ -562,6 +654,30 @@ Return JSON:
                 </div>
               </div>
 
+              {/* Test Format Selection (Reading only) */}
+              {selectedModule === "reading" && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground mb-3 block">
+                    Test Format
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {testFormats.map((format) => (
+                      <button
+                        key={format.id}
+                        onClick={() => setTestFormat(format.id)}
+                        className={`p-3 rounded-xl border-2 transition-all text-sm font-medium ${
+                          testFormat === format.id
+                            ? "border-primary bg-primary/10"
+                            : "border-border/50 hover:border-border"
+                        }`}
+                      >
+                        {format.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Question Type Selection (Reading only) */}
               {selectedModule === "reading" && (
                 <div>
@@ -787,16 +903,17 @@ Return JSON:
                     {/* AI Generated Chart */}
                     <IELTSWritingChart
                       chartType={chartType}
-                      topic={writingPrompt}
-                      onChartGenerated={(desc) => setChartDescription(desc)}
+                      topic={chartTopic}
+                      onChartGenerated={(spec) => {
+                        setChartSpec(spec);
+                        setWritingPrompt(task1Prompt(spec));
+                      }}
                     />
                   </div>
                 )}
                 
                 <p className="text-muted-foreground leading-relaxed">
-                  {writingTask === 1 
-                    ? chartDescription || writingPrompt 
-                    : writingPrompt}
+                  {writingPrompt}
                 </p>
                 
                 <p className="mt-4 text-sm text-primary">
@@ -805,37 +922,61 @@ Return JSON:
               </div>
             </div>
 
-            {/* Writing Area */}
-            <div className="space-y-4">
-              <div className="glass-card rounded-2xl p-6 min-h-[500px] flex flex-col">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="font-semibold">Your Response</h3>
-                  <span className={`text-sm px-3 py-1 rounded-full ${
-                    wordCount >= minWords 
-                      ? "bg-success/20 text-success" 
-                      : "bg-muted text-muted-foreground"
-                  }`}>
-                    {wordCount} words
-                  </span>
-                </div>
-                
-                <Textarea
-                  value={writingAnswer}
-                  onChange={(e) => setWritingAnswer(e.target.value)}
-                  placeholder="Start writing your response here..."
-                  className="flex-1 min-h-[400px] text-base leading-relaxed resize-none border-0 focus-visible:ring-0 bg-transparent"
+            {/* Writing Area / Examiner Review */}
+            {writingEvaluation ? (
+              <div className="space-y-4">
+                <IELTSWritingReview
+                  essay={writingAnswer}
+                  evaluation={writingEvaluation}
+                  verification={writingTask === 1 ? task1Verification : null}
+                  chartUnit={chartSpec?.unit}
                 />
+                <div className="flex justify-end">
+                  <Button variant="outline" onClick={resetWritingEvaluation}>
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Revise Response
+                  </Button>
+                </div>
               </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="glass-card rounded-2xl p-6 min-h-[500px] flex flex-col">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="font-semibold">Your Response</h3>
+                    <span className={`text-sm px-3 py-1 rounded-full ${
+                      wordCount >= minWords 
+                        ? "bg-success/20 text-success" 
+                        : "bg-muted text-muted-foreground"
+                    }`}>
+                      {wordCount} words
+                    </span>
+                  </div>
+                
+                  <Textarea
+                    value={writingAnswer}
+                    onChange={(e) => setWritingAnswer(e.target.value)}
+                    placeholder="Start writing your response here..."
+                    className="flex-1 min-h-[400px] text-base leading-relaxed resize-none border-0 focus-visible:ring-0 bg-transparent"
+                  />
+                </div>
 
-              <div className="flex justify-end gap-3">
-                <Button variant="outline" onClick={() => setWritingAnswer("")}>
-                  Clear
-                </Button>
-                <Button onClick={submitWriting} className="bg-success hover:bg-success/90">
-                  Submit Writing
-                </Button>
+                <div className="flex justify-end gap-3">
+                  <Button variant="outline" onClick={() => setWritingAnswer("")} disabled={isEvaluatingWriting}>
+                    Clear
+                  </Button>
+                  <Button onClick={submitWriting} className="bg-success hover:bg-success/90" disabled={isEvaluatingWriting}>
+                    {isEvaluatingWriting ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Evaluating...
+                      </>
+                    ) : (
+                      "Submit Writing"
+                    )}
+                  </Button>
+                </div>
               </div>
-            </div>
+            )}
           </div>
         </main>
       </div>
@@ -955,49 +1096,6 @@ Return JSON:
 
   // Render Listening Module
   if (selectedModule === "listening" && isStarted) {
-    const sampleListeningText = `Welcome to the IELTS Listening test. You will hear a conversation between two students discussing their university project. 
-    
-    Sarah: Hi Tom, have you started working on our environmental science project yet?
-    
-    Tom: Yes, I've been researching renewable energy sources. I think we should focus on solar and wind power.
-    
-    Sarah: That sounds good. I found some interesting statistics about solar panel efficiency. Did you know that modern panels can convert up to 22 percent of sunlight into electricity?
-    
-    Tom: That's impressive. I read that wind turbines are becoming more cost-effective too. The global capacity has doubled in the last five years.
-    
-    Sarah: We should also mention the challenges. What about energy storage?
-    
-    Tom: Good point. Battery technology is improving, but it's still the main obstacle for renewable energy adoption.`;
-
-    const listeningQs: IELTSQuestion[] = [
-      {
-        id: "l1",
-        type: "multiple-choice",
-        question: "What is the main topic of the students' project?",
-        options: ["Climate change", "Renewable energy sources", "Battery technology", "Environmental pollution"],
-        correctAnswer: "Renewable energy sources"
-      },
-      {
-        id: "l2",
-        type: "short-answer",
-        question: "What percentage of sunlight can modern solar panels convert to electricity?",
-        correctAnswer: "22 percent"
-      },
-      {
-        id: "l3",
-        type: "multiple-choice",
-        question: "According to Tom, what has happened to global wind turbine capacity?",
-        options: ["It has tripled", "It has doubled", "It has remained stable", "It has decreased"],
-        correctAnswer: "It has doubled"
-      },
-      {
-        id: "l4",
-        type: "short-answer",
-        question: "What does Tom identify as the main obstacle for renewable energy adoption?",
-        correctAnswer: "Battery technology"
-      }
-    ];
-
     return (
       <div className="min-h-screen flex flex-col bg-background">
         <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/80 backdrop-blur-xl">
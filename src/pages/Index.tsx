@@ -14,7 +14,6 @@ import { useSilenceDetection } from "@/hooks/useSilenceDetection";
 import { toast } from "sonner";
 
 const Index = () => {
-  const [mode, setMode] = useState<ConversationMode>("friend");
   const [showTextInput, setShowTextInput] = useState(false);
   const [displayText, setDisplayText] = useState("");
   const [voiceEnabled, setVoiceEnabled] = useState(true);
@@ -22,7 +21,8 @@ const Index = () => {
   const { sendMessage, isLoading, currentResponse, clearHistory } = useChat();
   const { isListening, transcript, startListening, stopListening, resetTranscript, isSupported: speechRecognitionSupported } = useSpeechRecognition();
   const { speak, stop: stopSpeaking, isSpeaking, isLoading: isVoiceLoading } = useElevenLabsTTS();
-  const { userName, setUserName, addMessage, getConversationContext, clearMemory, isLoading: isMemoryLoading } = useConversationMemory();
+  // The mode lives with the conversation so a resumed conversation restores the ModeSelector
+  const { conversationId, userName, setUserName, mode, setMode, addMessage, clearMemory, isLoading: isMemoryLoading } = useConversationMemory();
 
   // Silence detection - gentle prompt after inactivity
   const { resetSilenceTimer, stopSilenceTimer, hasPrompted } = useSilenceDetection({
@@ -71,16 +71,16 @@ const Index = () => {
       setDisplayText("");
       resetSilenceTimer();
       
-      // Save user message to memory
-      await addMessage({ role: "user", content: message });
+      // Turns in a saved conversation are stored by the chat function itself
+      const persisted = Boolean(conversationId);
+      await addMessage({ role: "user", content: message }, { persisted });
       
       const response = await sendMessage(message, mode, {
         userName,
-        conversationContext: getConversationContext(),
+        conversationId,
       });
       
-      // Save assistant response to memory
-      await addMessage({ role: "assistant", content: response });
+      await addMessage({ role: "assistant", content: response }, { persisted });
       
       // Add natural pause before speaking
       setTimeout(() => {
@@ -126,6 +126,7 @@ const Index = () => {
       mentor: "I'm here to help you learn and grow. What would you like to explore?",
       studybuddy: "Ready to study together! What subject are we tackling today?",
       therapist: "I'm here to listen. Take your time and share whatever feels right.",
+      language: "Let's practice a language together! Which one are you learning?",
     };
     
     setTimeout(() => {
@@ -138,7 +139,7 @@ const Index = () => {
         speak(greeting);
       }
     }, 500);
-  }, [clearHistory, stopSpeaking, speak, voiceEnabled, userName]);
+  }, [setMode, clearHistory, stopSpeaking, speak, voiceEnabled, userName]);
 
   const handleClearHistory = useCallback(() => {
     clearHistory();
@@ -1,7 +1,7 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 import { Link } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
-import { ArrowLeft, Video, VideoOff, User, Briefcase, Brain, Building, Users, FileText, Sparkles, CheckCircle2, Loader2, Award, Check, RotateCcw } from "lucide-react";
+import { ArrowLeft, Video, VideoOff, User, Briefcase, Brain, Building, Users, FileText, Sparkles, CheckCircle2, Loader2, Award, Check, RotateCcw, Upload, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -9,16 +9,27 @@ import { Progress } from "@/components/ui/progress";
 import { Textarea } from "@/components/ui/textarea";
 import Avatar3D from "@/components/Avatar3D";
 import { useChat } from "@/hooks/useChat";
+import { useStructuredGeneration } from "@/hooks/useStructuredGeneration";
 import { useReliableSpeechRecognition } from "@/hooks/useReliableSpeechRecognition";
 import { useNaturalTTS } from "@/hooks/useNaturalTTS";
 import { useCamera } from "@/hooks/useCamera";
+import { useInterviewEvaluation } from "@/hooks/useInterviewEvaluation";
 import VoiceOrb from "@/components/VoiceOrb";
 import StatusIndicator from "@/components/StatusIndicator";
 import WaveformVisualizer from "@/components/WaveformVisualizer";
 import InterviewReport from "@/components/InterviewReport";
-import InterviewStages, { getInterviewStagePrompt } from "@/components/InterviewStages";
+import InterviewAnswerFeedback from "@/components/InterviewAnswerFeedback";
+import InterviewStages, { CODING_STAGE_START, getInterviewStagePrompt } from "@/components/InterviewStages";
+import CodingRound from "@/components/CodingRound";
+import type { AnswerFeedback } from "@/lib/interviewScoring";
+import { analyzeStarAnswer, type StarAnalysis } from "@/lib/starAnalysis";
+import { extractResumeText, summarizeResume, trimResumeForPrompt, type ResumeAnalysis, type ResumeGapAnalysis } from "@/lib/resume";
+import { codingLanguages, pickCodingProblem, type CodingProblem, type CodingRoundResult } from "@/lib/codingProblems";
 import { toast } from "sonner";
 
+// Behavioural interview types whose answers get a STAR breakdown
+const starInterviewTypes = ["hr", "management"];
+
 const interviewTypes = [
   { id: "jd", name: "Job Description", description: "Custom interview from JD", icon: FileText, color: "from-rose-500 to-pink-500" },
   { id: "hr", name: "HR Interview", description: "Behavioral & culture fit", icon: Users, color: "from-blue-500 to-indigo-500" },
@@ -39,11 +50,10 @@ interface Message {
   id: string;
   role: "user" | "interviewer";
   content: string;
-  feedback?: {
-    communication: number;
-    confidence: number;
-    clarity: number;
-  };
+  feedback?: AnswerFeedback;
+  star?: StarAnalysis;
+  // Code submissions are shown in the coding panel rather than as spoken answers
+  coding?: boolean;
 }
 
 const InterviewPractice = () => {
@@ -55,6 +65,8 @@ const InterviewPractice = () => {
   const [status, setStatus] = useState<"idle" | "listening" | "thinking" | "speaking">("idle");
   const [pendingVoiceConfirm, setPendingVoiceConfirm] = useState<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const listeningStartedAtRef = useRef<number | null>(null);
+  const answerSecondsRef = useRef<number | undefined>(undefined);
   
   // JD-based interview states
   const [jobDescription, setJobDescription] = useState("");
@@ -63,10 +75,24 @@ const InterviewPractice = () => {
   const [showJDInput, setShowJDInput] = useState(false);
   const [showReport, setShowReport] = useState(false);
 
+  // Optional resume for JD interviews
+  const [resumeFileName, setResumeFileName] = useState<string | null>(null);
+  const [resumeAnalysis, setResumeAnalysis] = useState<ResumeAnalysis | null>(null);
+  const [resumeGaps, setResumeGaps] = useState<ResumeGapAnalysis | null>(null);
+  const [isAnalyzingResume, setIsAnalyzingResume] = useState(false);
+  const resumeInputRef = useRef<HTMLInputElement>(null);
+
+  // Coding round for technical interviews
+  const [codingProblem, setCodingProblem] = useState<CodingProblem | null>(null);
+  const [codingResult, setCodingResult] = useState<CodingRoundResult | null>(null);
+  const [pendingFeedback, setPendingFeedback] = useState<string[]>([]);
+
   const { sendMessage, isLoading, currentResponse, clearHistory } = useChat();
+  const { generate } = useStructuredGeneration();
   const { isListening, transcript, startListening, stopListening, resetTranscript, isSupported, hasResult, error: speechError, failedAttempts } = useReliableSpeechRecognition();
   const { speak, stop: stopSpeaking, isSpeaking, isLoading: isTTSLoading } = useNaturalTTS();
   const { videoRef, isEnabled: cameraEnabled, isLoading: cameraLoading, toggleCamera } = useCamera();
+  const { evaluateAnswer } = useInterviewEvaluation();
 
   const selectedType = interviewTypes.find((t) => t.id === interviewType);
 
@@ -86,6 +112,10 @@ const InterviewPractice = () => {
   // Handle voice input completion - show confirmation
   useEffect(() => {
     if (!isListening && hasResult && transcript.trim() && isStarted) {
+      if (listeningStartedAtRef.current !== null) {
+        answerSecondsRef.current = (Date.now() - listeningStartedAtRef.current) / 1000;
+        listeningStartedAtRef.current = null;
+      }
       setPendingVoiceConfirm(transcript.trim());
     }
   }, [isListening, hasResult, transcript, isStarted]);
@@ -106,28 +136,16 @@ const InterviewPractice = () => {
 
     setIsAnalyzingJD(true);
     try {
-      const analysisPrompt = `Analyze this job description and extract structured information. Return ONLY valid JSON with this exact structure:
-{
-  "role": "job title",
-  "skills": ["skill1", "skill2", ...],
-  "responsibilities": ["resp1", "resp2", ...],
-  "experienceLevel": "entry/mid/senior/executive",
-  "keywords": ["keyword1", "keyword2", ...]
-}
+      const analysisPrompt = `Analyze this job description and extract the job title, required skills, key responsibilities, experience level (entry, mid, senior or executive) and important keywords.
 
 Job Description:
 ${jobDescription}`;
 
-      const response = await sendMessage(analysisPrompt, "friend", {});
-      
-      // Parse the JSON from response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const analysis = JSON.parse(jsonMatch[0]) as JDAnalysis;
-        setJdAnalysis(analysis);
-        toast.success("Job description analyzed successfully!");
-      } else {
-        throw new Error("Could not parse analysis");
+      const analysis = await generate<JDAnalysis>("jdAnalysis", analysisPrompt);
+      setJdAnalysis(analysis);
+      toast.success("Job description analyzed successfully!");
+      if (resumeAnalysis) {
+        await analyzeResumeGaps(analysis, resumeAnalysis);
       }
     } catch (error) {
       console.error("JD analysis error:", error);
@@ -137,16 +155,70 @@ ${jobDescription}`;
     }
   };
 
+  // Compares resume with JD; the interview still works without it
+  const analyzeResumeGaps = async (jd: JDAnalysis, resume: ResumeAnalysis) => {
+    try {
+      const gapPrompt = `Compare this candidate's resume with the job requirements. List the required skills the resume shows, the required skills it does not show, and the most important gaps an interviewer should probe (missing skills, thin or short experience, unexplained breaks between roles, seniority mismatch).
+
+Job: ${jd.role} (${jd.experienceLevel} level)
+Required skills: ${jd.skills.join(", ")}
+Responsibilities: ${jd.responsibilities.join("; ")}
+
+Resume:
+${JSON.stringify(trimResumeForPrompt(resume))}`;
+
+      const gaps = await generate<ResumeGapAnalysis>("resumeGapAnalysis", gapPrompt);
+      setResumeGaps(gaps);
+    } catch (error) {
+      console.error("Resume gap analysis error:", error);
+      toast.error("Couldn't compare your resume with the job. Questions will use your resume only.");
+    }
+  };
+
+  const handleResumeUpload = async (file: File) => {
+    setIsAnalyzingResume(true);
+    setResumeGaps(null);
+    try {
+      const text = await extractResumeText(file);
+      const resumePrompt = `Extract the work history (job title, company, start and end dates, key achievements), projects (name, description, technologies, date) and skills from this resume. Keep dates as written when they cannot be normalized.
+
+Resume:
+${text}`;
+
+      const analysis = await generate<ResumeAnalysis>("resumeAnalysis", resumePrompt);
+      setResumeAnalysis(analysis);
+      setResumeFileName(file.name);
+      toast.success("Resume analyzed!");
+      if (jdAnalysis) {
+        await analyzeResumeGaps(jdAnalysis, analysis);
+      }
+    } catch (error) {
+      console.error("Resume analysis error:", error);
+      toast.error(error instanceof Error && error.message ? error.message : "Failed to read resume. Please try again.");
+    } finally {
+      setIsAnalyzingResume(false);
+      if (resumeInputRef.current) resumeInputRef.current.value = "";
+    }
+  };
+
+  const clearResume = () => {
+    setResumeFileName(null);
+    setResumeAnalysis(null);
+    setResumeGaps(null);
+  };
+
   const startInterview = async () => {
     clearHistory();
     setMessages([]);
     setQuestionCount(0);
+    setCodingProblem(null);
+    setCodingResult(null);
     setIsStarted(true);
 
     let greeting: string;
     
     if (interviewType === "jd" && jdAnalysis) {
-      greeting = `Hello and welcome! I'm your interviewer for the ${jdAnalysis.role} position today. I've reviewed the job requirements carefully. Take a moment to relax, and when you're ready, let's begin. First, can you walk me through your background and why you're interested in this ${jdAnalysis.role} role?`;
+      greeting = `Hello and welcome! I'm your interviewer for the ${jdAnalysis.role} position today. I've reviewed the job requirements${resumeAnalysis ? " and your resume" : ""} carefully. Take a moment to relax, and when you're ready, let's begin. First, can you walk me through your background and why you're interested in this ${jdAnalysis.role} role?`;
     } else {
       greeting = `Hello and welcome! I'm your ${selectedType?.name} interviewer today. Take a moment to relax and when you're ready, let's begin. First, can you tell me a little about yourself and your background?`;
     }
@@ -157,13 +229,58 @@ ${jobDescription}`;
     speak(greeting);
   };
 
-  const handleUserResponse = async (userText: string) => {
-    setMessages((prev) => [...prev, { id: crypto.randomUUID(), role: "user", content: userText }]);
+  // Scores one answer in the background and attaches the result to its message
+  const requestAnswerFeedback = (messageId: string, question: string, answer: string) => {
+    setPendingFeedback((prev) => [...prev, messageId]);
+    const context = interviewType === "jd" && jdAnalysis
+      ? { role: jdAnalysis.role, experienceLevel: jdAnalysis.experienceLevel, skills: jdAnalysis.skills }
+      : { role: selectedType?.name ?? "Interview", experienceLevel: "", skills: [] };
+
+    evaluateAnswer(context, { question: question.slice(-2000), answer: answer.slice(0, 5000) })
+      .then((feedback) => {
+        if (feedback) {
+          setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, feedback } : m)));
+        }
+      })
+      .finally(() => setPendingFeedback((prev) => prev.filter((id) => id !== messageId)));
+  };
+
+  const handleUserResponse = async (userText: string, durationSeconds?: number) => {
+    const messageId = crypto.randomUUID();
+    const question = messages.filter((m) => m.role === "interviewer").at(-1)?.content ?? currentQuestion;
+    const star = starInterviewTypes.includes(interviewType) ? analyzeStarAnswer(userText, durationSeconds) : undefined;
+    setMessages((prev) => [...prev, { id: messageId, role: "user", content: userText, star }]);
     setCurrentQuestion("");
+    requestAnswerFeedback(messageId, question, userText);
+    await askInterviewer(userText);
+  };
 
+  const submitCodingSolution = async (result: CodingRoundResult) => {
+    setCodingResult(result);
+    const languageName = codingLanguages.find((l) => l.id === result.language)?.name ?? result.language;
+    const summary = `Submitted my ${languageName} solution to ${result.title}: ${result.passed}/${result.total} tests passed.`;
+    setMessages((prev) => [...prev, { id: crypto.randomUUID(), role: "user", content: summary, coding: true }]);
+    setCurrentQuestion("");
+    await askInterviewer(summary, result);
+  };
+
+  // Sends the candidate's turn and plays the interviewer's reply; a code submission
+  // is passed along so the interviewer can see the code
+  const askInterviewer = async (userText: string, submission: CodingRoundResult | null = null) => {
     try {
+      // The technical interview switches to the coding round at a fixed question
+      let problem = codingProblem;
+      if (!problem && interviewType === "technical" && questionCount + 1 === CODING_STAGE_START) {
+        problem = pickCodingProblem();
+        setCodingProblem(problem);
+      }
+
       // Get stage-specific prompt for structured interview flow
-      const stagePrompt = getInterviewStagePrompt(questionCount + 1, jdAnalysis);
+      const resumeContext = interviewType === "jd" && resumeAnalysis ? { resume: resumeAnalysis, gaps: resumeGaps } : null;
+      const codingContext = problem
+        ? { problem, submission: submission ?? codingResult, justSubmitted: submission !== null }
+        : null;
+      const stagePrompt = getInterviewStagePrompt(questionCount + 1, jdAnalysis, resumeContext, codingContext);
       
       let systemContext: string;
       
@@ -176,7 +293,11 @@ JOB CONTEXT:
 - Role: ${jdAnalysis.role}
 - Skills: ${jdAnalysis.skills.slice(0, 5).join(", ")}
 - Level: ${jdAnalysis.experienceLevel}
-
+${resumeAnalysis ? `
+CANDIDATE RESUME:
+${summarizeResume(resumeAnalysis)}${resumeGaps?.missingSkills.length ? `\n- Not shown on resume: ${resumeGaps.missingSkills.slice(0, 5).join(", ")}` : ""}
+Refer to their resume by name (roles, companies, projects) when you ask about it.
+` : ""}
 INTERVIEW STYLE (CRITICAL):
 1. Sound like a REAL HUMAN interviewer, not AI
 2. Ask ONE clear question at a time
@@ -206,7 +327,7 @@ Question ${questionCount + 1} of ~7. Focus on: ${selectedType?.description?.toLo
       }
 
       const response = await sendMessage(userText, "interviewer", {
-        conversationContext: systemContext,
+        instructions: systemContext,
       });
 
       setCurrentQuestion(response);
@@ -229,13 +350,15 @@ Question ${questionCount + 1} of ~7. Focus on: ${selectedType?.description?.toLo
       stopSpeaking();
       setPendingVoiceConfirm(null);
       resetTranscript();
+      listeningStartedAtRef.current = Date.now();
       startListening();
     }
   }, [isListening, isSupported, startListening, stopListening, stopSpeaking, resetTranscript]);
 
   const confirmVoiceInput = () => {
     if (pendingVoiceConfirm) {
-      handleUserResponse(pendingVoiceConfirm);
+      handleUserResponse(pendingVoiceConfirm, answerSecondsRef.current);
+      answerSecondsRef.current = undefined;
       setPendingVoiceConfirm(null);
       resetTranscript();
     }
@@ -244,6 +367,7 @@ Question ${questionCount + 1} of ~7. Focus on: ${selectedType?.description?.toLo
   const retryVoiceInput = () => {
     setPendingVoiceConfirm(null);
     resetTranscript();
+    listeningStartedAtRef.current = Date.now();
     startListening();
   };
 
@@ -252,7 +376,8 @@ Question ${questionCount + 1} of ~7. Focus on: ${selectedType?.description?.toLo
     stopListening();
     setPendingVoiceConfirm(null);
     
-    if (showReportModal && interviewType === "jd" && jdAnalysis && questionCount >= 2) {
+    const hasReport = (interviewType === "jd" && jdAnalysis) || interviewType === "technical";
+    if (showReportModal && hasReport && questionCount >= 2) {
       setShowReport(true);
     } else {
       resetInterviewState();
@@ -266,8 +391,12 @@ Question ${questionCount + 1} of ~7. Focus on: ${selectedType?.description?.toLo
     setShowJDInput(false);
     setJdAnalysis(null);
     setJobDescription("");
+    clearResume();
+    setCodingProblem(null);
+    setCodingResult(null);
     setShowReport(false);
     setPendingVoiceConfirm(null);
+    setPendingFeedback([]);
     clearHistory();
     toast.success("Interview session ended. Great practice!");
   };
@@ -280,6 +409,7 @@ Question ${questionCount + 1} of ~7. Focus on: ${selectedType?.description?.toLo
       setShowJDInput(false);
       setJdAnalysis(null);
       setJobDescription("");
+      clearResume();
     }
   };
 
@@ -460,6 +590,7 @@ Question ${questionCount + 1} of ~7. Focus on: ${selectedType?.description?.toLo
                           onClick={() => {
                             setJdAnalysis(null);
                             setJobDescription("");
+                            setResumeGaps(null);
                           }}
                           className="w-full mt-2 rounded-xl text-xs"
                         >
@@ -467,6 +598,80 @@ Question ${questionCount + 1} of ~7. Focus on: ${selectedType?.description?.toLo
                         </Button>
                       </motion.div>
                     )}
+
+                    {/* Resume Upload */}
+                    <div className="p-4 rounded-2xl bg-muted/30 border border-border/50 space-y-3">
+                      <div className="flex items-center gap-2">
+                        <Upload className="w-4 h-4 text-primary" />
+                        <span className="text-sm font-medium">Resume</span>
+                        <span className="text-xs text-muted-foreground">(optional, PDF or DOCX)</span>
+                      </div>
+                      <input
+                        ref={resumeInputRef}
+                        type="file"
+                        accept=".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) handleResumeUpload(file);
+                        }}
+                      />
+
+                      {resumeAnalysis ? (
+                        <div className="space-y-2">
+                          <p className="text-sm">
+                            <span className="font-medium">{resumeFileName}</span>
+                            <span className="text-muted-foreground"> · {resumeAnalysis.roles.length} roles, {resumeAnalysis.projects.length} projects</span>
+                          </p>
+                          {resumeGaps && (
+                            <div className="flex flex-wrap gap-1">
+                              {resumeGaps.matchedSkills.slice(0, 4).map((skill, i) => (
+                                <span key={`m-${i}`} className="text-xs px-2 py-0.5 rounded-full bg-emerald-500/15 text-emerald-600 dark:text-emerald-400">
+                                  {skill}
+                                </span>
+                              ))}
+                              {resumeGaps.missingSkills.slice(0, 4).map((skill, i) => (
+                                <span key={`g-${i}`} className="text-xs px-2 py-0.5 rounded-full border border-dashed border-amber-500/50 text-amber-600 dark:text-amber-400">
+                                  {skill}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                          {resumeGaps && resumeGaps.gaps.length > 0 && (
+                            <ul className="space-y-1">
+                              {resumeGaps.gaps.slice(0, 3).map((gap, i) => (
+                                <li key={i} className="flex items-start gap-2 text-xs text-muted-foreground">
+                                  <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0 text-amber-500" />
+                                  <span><span className="font-medium text-foreground">{gap.area}:</span> {gap.detail}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          <Button variant="outline" size="sm" onClick={clearResume} className="w-full rounded-xl text-xs">
+                            Remove Resume
+                          </Button>
+                        </div>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          onClick={() => resumeInputRef.current?.click()}
+                          disabled={isAnalyzingResume}
+                          className="w-full rounded-xl"
+                        >
+                          {isAnalyzingResume ? (
+                            <>
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                              Reading resume...
+                            </>
+                          ) : (
+                            <>
+                              <Upload className="w-4 h-4 mr-2" />
+                              Upload Resume
+                            </>
+                          )}
+                        </Button>
+                      )}
+                    </div>
                   </motion.div>
                 )}
               </AnimatePresence>
@@ -489,7 +694,7 @@ Question ${questionCount + 1} of ~7. Focus on: ${selectedType?.description?.toLo
           >
             {/* Interview Stages Progress */}
             <div className="mb-4">
-              <InterviewStages currentStage="" questionCount={questionCount} />
+              <InterviewStages currentStage="" questionCount={questionCount} includeCoding={interviewType === "technical"} />
             </div>
 
             {/* Progress */}
@@ -590,6 +795,28 @@ Question ${questionCount + 1} of ~7. Focus on: ${selectedType?.description?.toLo
               )}
             </AnimatePresence>
 
+            {/* Coding round */}
+            {codingProblem && (
+              <CodingRound problem={codingProblem} submission={codingResult} onSubmit={submitCodingSolution} />
+            )}
+
+            {/* Answers with per-answer feedback */}
+            {messages.some((m) => m.role === "user" && !m.coding) && (
+              <div ref={scrollRef} className="mb-6 w-full max-w-2xl mx-auto max-h-72 overflow-y-auto space-y-3">
+                {messages
+                  .filter((m) => m.role === "user" && !m.coding)
+                  .map((m) => (
+                    <InterviewAnswerFeedback
+                      key={m.id}
+                      answer={m.content}
+                      feedback={m.feedback}
+                      star={m.star}
+                      isEvaluating={pendingFeedback.includes(m.id)}
+                    />
+                  ))}
+              </div>
+            )}
+
             {/* Loading indicator */}
             {isLoading && !currentResponse && (
               <motion.div
@@ -713,12 +940,14 @@ Question ${questionCount + 1} of ~7. Focus on: ${selectedType?.description?.toLo
 
       {/* Interview Report Modal */}
       <AnimatePresence>
-        {showReport && jdAnalysis && (
+        {showReport && (jdAnalysis || interviewType === "technical") && (
           <InterviewReport
-            role={jdAnalysis.role}
-            experienceLevel={jdAnalysis.experienceLevel}
+            role={jdAnalysis?.role ?? selectedType?.name ?? "Interview"}
+            experienceLevel={jdAnalysis?.experienceLevel ?? ""}
+            skills={jdAnalysis?.skills ?? []}
             questionCount={questionCount}
-            messages={messages}
+            messages={messages.filter((m) => !m.coding)}
+            codingResult={codingResult}
             onClose={resetInterviewState}
           />
         )}
@@ -4,7 +4,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { 
   ArrowLeft, Globe, RefreshCw, Trophy, Flame, Target, BookOpen, Sparkles, 
   Mic, Volume2, CheckCircle2, XCircle, Star, Zap, Heart, Award, 
-  GraduationCap, MessageCircle, FileText, Pause, Play, RotateCcw, Check, Image
+  GraduationCap, MessageCircle, FileText, Pause, Play, RotateCcw, Check, Image, Loader2
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -12,19 +12,26 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Progress } from "@/components/ui/progress";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { useChat } from "@/hooks/useChat";
+import { useStructuredGeneration } from "@/hooks/useStructuredGeneration";
 import { useReliableSpeechRecognition } from "@/hooks/useReliableSpeechRecognition";
 import { useNaturalTTS } from "@/hooks/useNaturalTTS";
+import { useLearningProgress } from "@/hooks/useLearningProgress";
+import { useCEFRLevels } from "@/hooks/useCEFRLevels";
+import { usePronunciationAssessment } from "@/hooks/usePronunciationAssessment";
+import { PASSING_SCORE } from "@/lib/pronunciation";
+import { PLACEMENT_ITEM_COUNT, type CEFRLevel } from "@/lib/cefrPlacement";
+import { useVocabularyDeck, type VocabularyActivityType, type VocabularyCard } from "@/hooks/useVocabularyDeck";
 import VoiceOrb from "@/components/VoiceOrb";
 import StatusIndicator from "@/components/StatusIndicator";
 import WaveformVisualizer from "@/components/WaveformVisualizer";
 import VisualLearningActivity from "@/components/VisualLearningActivity";
+import CEFRPlacementTest from "@/components/CEFRPlacementTest";
+import PronunciationBreakdown from "@/components/PronunciationBreakdown";
 import { toast } from "sonner";
 
 // Learning Mode Types
-type LearningMode = "ielts" | "german" | "general";
+type LearningMode = "ielts" | "german" | "general" | "review";
 type IELTSSkill = "speaking" | "writing" | "reading" | "listening";
-type GermanLevel = "A1" | "A2" | "B1" | "B2" | "C1";
 type ActivityType = "fill_blank" | "choose_option" | "translate" | "yes_no" | "type_sentence" | "speaking";
 
 // Supported Languages
@@ -53,6 +60,7 @@ interface IELTSFeedback {
   vocabulary: number;
   grammar: number;
   pronunciation: number;
+  overallBand: number;
   suggestion: string;
 }
 
@@ -60,8 +68,12 @@ const learningModes = [
   { id: "ielts" as const, label: "IELTS Preparation", icon: GraduationCap, description: "Speaking, Writing, Reading, Listening", color: "from-blue-500 to-indigo-500", path: "/ielts" },
   { id: "german" as const, label: "German Goethe Exam", icon: Globe, description: "A1 to C1 Level Preparation", color: "from-amber-500 to-orange-500", path: "/goethe" },
   { id: "general" as const, label: "General Language Practice", icon: MessageCircle, description: "Daily practice & confidence in any language", color: "from-emerald-500 to-teal-500", path: null },
+  { id: "review" as const, label: "Review Due", icon: RefreshCw, description: "Revisit the lesson items you missed", color: "from-rose-500 to-pink-500", path: null },
 ];
 
+// Activity types whose missed items are worth drilling again from the deck
+const reviewableTypes: ActivityType[] = ["fill_blank", "choose_option", "translate"];
+
 const targetLanguages: { id: TargetLanguage; name: string; flag: string }[] = [
   { id: "english", name: "English", flag: "🇬🇧" },
   { id: "german", name: "German", flag: "🇩🇪" },
@@ -75,7 +87,7 @@ const targetLanguages: { id: TargetLanguage; name: string; flag: string }[] = [
   { id: "chinese", name: "Chinese", flag: "🇨🇳" },
 ];
 
-const germanLevels: { id: GermanLevel; name: string; description: string }[] = [
+const germanLevels: { id: CEFRLevel; name: string; description: string }[] = [
   { id: "A1", name: "A1 - Beginner", description: "Basic phrases & greetings" },
   { id: "A2", name: "A2 - Elementary", description: "Simple conversations" },
   { id: "B1", name: "B1 - Intermediate", description: "Independent speaker" },
@@ -111,7 +123,7 @@ const LanguageLearning = () => {
   // Mode & Setup State
   const [selectedMode, setSelectedMode] = useState<LearningMode | null>(null);
   const [targetLanguage, setTargetLanguage] = useState<TargetLanguage>("english");
-  const [germanLevel, setGermanLevel] = useState<GermanLevel>("A1");
+  const [germanLevel, setGermanLevel] = useState<CEFRLevel>("A1");
   const [ieltsSkill, setIeltsSkill] = useState<IELTSSkill>("speaking");
   const [ieltsPart, setIeltsPart] = useState(1);
   
@@ -119,9 +131,7 @@ const LanguageLearning = () => {
   const [isStarted, setIsStarted] = useState(false);
   const [conversation, setConversation] = useState<Message[]>([]);
   const [status, setStatus] = useState<"idle" | "listening" | "thinking" | "speaking">("idle");
-  const [streak, setStreak] = useState(3);
   const [sessionXP, setSessionXP] = useState(0);
-  const [hearts, setHearts] = useState(5);
   const [lessonProgress, setLessonProgress] = useState(0);
   const [currentActivity, setCurrentActivity] = useState<Activity | null>(null);
   const [userAnswer, setUserAnswer] = useState("");
@@ -133,30 +143,61 @@ const LanguageLearning = () => {
   const [slowMode, setSlowMode] = useState(false);
   const [showVisualActivity, setShowVisualActivity] = useState(false);
   const [visualActivityMode, setVisualActivityMode] = useState(false);
+  const [showPlacement, setShowPlacement] = useState(false);
   
   // Voice Control State - Using confirmation flow
   const [pendingVoiceConfirm, setPendingVoiceConfirm] = useState<string | null>(null);
   
   const scrollRef = useRef<HTMLDivElement>(null);
 
-  const { sendMessage, isLoading, currentResponse, clearHistory } = useChat();
+  // Review State - the queue lives in a ref because activities advance from timeouts
+  const reviewQueueRef = useRef<VocabularyCard[]>([]);
+  const [reviewTotal, setReviewTotal] = useState(0);
+  const [reviewCardId, setReviewCardId] = useState<string | null>(null);
+
+  const { generate, isGenerating } = useStructuredGeneration();
   const { isListening, transcript, startListening, stopListening, resetTranscript, isSupported, hasResult, error: speechError, failedAttempts } = useReliableSpeechRecognition();
   const { speak, stop: stopSpeaking, isSpeaking, isLoading: isTTSLoading } = useNaturalTTS();
+  const { getDueCards, addMissedItem, reviewCard } = useVocabularyDeck();
+  const { streak, hearts, todayXP, nextHeartAt, recordActivity, loseHeart } = useLearningProgress();
+  const { levels: cefrLevels, saveLevel } = useCEFRLevels();
+  const {
+    assessment: pronunciation,
+    isAssessing: isAssessingPronunciation,
+    startRecording,
+    assess: assessPronunciation,
+    reset: resetPronunciation,
+  } = usePronunciationAssessment();
+
+  // "Say this" activities are scored on pronunciation instead of transcript matching
+  const isPronunciationActivity = currentActivity?.type === "speaking"
+    && !!currentActivity.correctAnswer
+    && !(selectedMode === "ielts" && ieltsSkill === "speaking");
+
+  const dueCount = getDueCards(targetLanguage).length;
+
+  // Preselect the German level from the placement test once it has loaded
+  const placedGermanLevel = cefrLevels.german?.level;
+  useEffect(() => {
+    if (placedGermanLevel) {
+      setGermanLevel(placedGermanLevel);
+    }
+  }, [placedGermanLevel]);
 
   // Auto-scroll
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTo({ top: scrollRef.current.scrollHeight, behavior: "smooth" });
     }
-  }, [conversation, currentResponse]);
+  }, [conversation, isGenerating]);
 
   // Update status
   useEffect(() => {
     if (isListening) setStatus("listening");
-    else if (isLoading) setStatus("thinking");
+    else if (isGenerating) setStatus("thinking");
     else if (isSpeaking || isTTSLoading) setStatus("speaking");
     else setStatus("idle");
-  }, [isListening, isLoading, isSpeaking, isTTSLoading]);
+  }, [isListening, isGenerating, isSpeaking, isTTSLoading]);
 
   // Handle voice input completion - show confirmation
   useEffect(() => {
@@ -177,6 +218,7 @@ const LanguageLearning = () => {
     setPendingVoiceConfirm(null);
     resetTranscript();
     startListening();
+    if (isPronunciationActivity) startRecording();
   };
 
   const getModeSystemPrompt = (): string => {
@@ -218,7 +260,8 @@ Always respond in German first, then provide English help if needed.
 Encourage the user warmly after every attempt.`;
     }
     
-    return `You are a Duolingo-style ${langName} tutor. Focus on:
+    const placedLevel = cefrLevels[targetLanguage]?.level;
+    return `You are a Duolingo-style ${langName} tutor${placedLevel ? ` for a learner at CEFR ${placedLevel}` : ""}. Focus on:
 - Daily conversation in ${langName}
 - Vocabulary building
 - Grammar practice
@@ -234,10 +277,8 @@ Use activities: fill blanks, choose option, translate, speak.`;
       return;
     }
 
-    clearHistory();
     setConversation([]);
     setSessionXP(0);
-    setHearts(5);
     setLessonProgress(0);
     setActivityCount(0);
     setIsStarted(true);
@@ -245,10 +286,21 @@ Use activities: fill blanks, choose option, translate, speak.`;
     setIeltsPart(1);
     setPendingVoiceConfirm(null);
 
+    if (hearts === 0) {
+      const minutes = nextHeartAt ? Math.max(1, Math.ceil((nextHeartAt.getTime() - Date.now()) / 60000)) : 0;
+      toast.info(`Out of hearts! Next heart in ${minutes} min - practising in slow revision mode`);
+      setSlowMode(true);
+    }
+
     const langName = targetLanguages.find(l => l.id === targetLanguage)?.name || "English";
     let greeting = "";
     
-    if (selectedMode === "ielts") {
+    if (selectedMode === "review") {
+      const dueCards = getDueCards(targetLanguage);
+      reviewQueueRef.current = dueCards;
+      setReviewTotal(dueCards.length);
+      greeting = `🔁 Time to review!\n\nYou have ${dueCards.length} ${langName} item${dueCards.length === 1 ? "" : "s"} due from earlier lessons.\n\nLet's lock them in! 💪`;
+    } else if (selectedMode === "ielts") {
       greeting = `🎓 Welcome to IELTS ${ieltsSkill.charAt(0).toUpperCase() + ieltsSkill.slice(1)} Practice!\n\nI'll help you prepare exactly like the real exam. Let's start with Part 1.\n\nReady? 💪`;
     } else if (selectedMode === "german") {
       greeting = `🇩🇪 Willkommen! Welcome to German ${germanLevel} Practice!\n\nI'm your Goethe exam coach. We'll practice Sprechen, Hören, Lesen, and Schreiben.\n\nLass uns anfangen! (Let's begin!) 🎯`;
@@ -267,8 +319,15 @@ Use activities: fill blanks, choose option, translate, speak.`;
 
   const generateNextActivity = async () => {
     setShowFeedback(false);
+    resetPronunciation();
     setUserAnswer("");
     setCurrentActivity(null);
+    setReviewCardId(null);
+
+    if (selectedMode === "review") {
+      serveNextReviewCard();
+      return;
+    }
     
     // If visual mode is enabled, show visual activity every 2nd activity
     if (visualActivityMode && activityCount % 2 === 1) {
@@ -292,50 +351,28 @@ Use activities: fill blanks, choose option, translate, speak.`;
       let activityPrompt = "";
       
       if (selectedMode === "ielts" && ieltsSkill === "speaking") {
-        activityPrompt = `Generate an IELTS Speaking Part ${ieltsPart} question. Return JSON:
-{
-  "type": "speaking",
-  "instruction": "${ieltsPart === 2 ? "Here's your cue card. Speak for 1-2 minutes." : "Please answer this question."}",
-  "content": "The question or cue card topic",
-  "correctAnswer": "A model answer for band 7+"
-}`;
+        activityPrompt = `Generate an IELTS Speaking Part ${ieltsPart} question.
+Use type "speaking" and the instruction "${ieltsPart === 2 ? "Here's your cue card. Speak for 1-2 minutes." : "Please answer this question."}".
+Put the question or cue card topic in content and a model answer for band 7+ in correctAnswer.`;
       } else if (selectedMode === "german") {
-        activityPrompt = `Generate a German ${germanLevel} activity. Return JSON:
-{
-  "type": "${randomType}",
-  "instruction": "Brief instruction",
-  "content": "German question or prompt",
-  "options": ["option1", "option2", "option3"] (if applicable),
-  "correctAnswer": "The correct answer"
-}`;
+        activityPrompt = `Generate a German ${germanLevel} activity of type "${randomType}".
+Give a brief instruction, the German question or prompt as content, options only if the type needs them, and the correct answer.`;
       } else {
-        activityPrompt = `Generate a ${randomType} activity. Return JSON:
-{
-  "type": "${randomType}",
-  "instruction": "Brief instruction",
-  "content": "The question",
-  "options": ["option1", "option2", "option3"] (if applicable),
-  "correctAnswer": "The correct answer"
-}`;
+        const placedLevel = cefrLevels[targetLanguage]?.level;
+        activityPrompt = `Generate a ${randomType} activity${placedLevel ? ` at CEFR ${placedLevel}` : ""}.
+Give a brief instruction, the question as content, options only if the type needs them, and the correct answer.`;
       }
 
-      const response = await sendMessage(activityPrompt, "studybuddy", {
-        conversationContext: systemPrompt,
-      });
-
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const activity = JSON.parse(jsonMatch[0]) as Activity;
-        activity.isSpeaking = shouldSpeak;
-        activity.feedbackType = selectedMode || "general";
-        setCurrentActivity(activity);
-        
-        const activityMessage = formatActivityMessage(activity, shouldSpeak);
-        setConversation(prev => [...prev, { id: crypto.randomUUID(), role: "ai", text: activityMessage }]);
-        
-        if (!slowMode) {
-          speak(activity.instruction + ". " + activity.content, targetLanguage);
-        }
+      const activity = await generate<Activity>("activity", activityPrompt, { systemPrompt });
+      activity.isSpeaking = shouldSpeak;
+      activity.feedbackType = selectedMode || "general";
+      setCurrentActivity(activity);
+      
+      const activityMessage = formatActivityMessage(activity, shouldSpeak);
+      setConversation(prev => [...prev, { id: crypto.randomUUID(), role: "ai", text: activityMessage }]);
+      
+      if (!slowMode) {
+        speak(activity.instruction + ". " + activity.content, targetLanguage);
       }
     } catch (error) {
       console.error("Activity generation error:", error);
@@ -351,6 +388,37 @@ Use activities: fill blanks, choose option, translate, speak.`;
     }
   };
 
+  const serveNextReviewCard = () => {
+    const [card, ...rest] = reviewQueueRef.current;
+    if (!card) {
+      endSession();
+      return;
+    }
+    reviewQueueRef.current = rest;
+
+    const activity: Activity = {
+      type: card.activityType,
+      instruction: card.instruction,
+      content: card.content,
+      options: card.options ?? undefined,
+      correctAnswer: card.correctAnswer,
+      isSpeaking: talkOnlyMode,
+      feedbackType: "general",
+    };
+    setIsSpeakingMode(talkOnlyMode);
+    setReviewCardId(card.id);
+    setCurrentActivity(activity);
+    setConversation(prev => [...prev, { id: crypto.randomUUID(), role: "ai", text: formatActivityMessage(activity, talkOnlyMode) }]);
+
+    if (!slowMode) {
+      speak(activity.instruction + ". " + activity.content, targetLanguage);
+    }
+  };
+
+  // Lessons in the exam modes are always in that exam's language
+  const getActivityLanguage = (): TargetLanguage =>
+    selectedMode === "german" ? "german" : selectedMode === "ielts" ? "english" : targetLanguage;
+
   const formatActivityMessage = (activity: Activity, isSpeaking: boolean): string => {
     let message = "";
     
@@ -385,32 +453,19 @@ Use activities: fill blanks, choose option, translate, speak.`;
 
 User's answer: "${answer}"
 
-Provide JSON feedback:
-{
-  "fluency": 6,
-  "vocabulary": 5,
-  "grammar": 6,
-  "pronunciation": 7,
-  "overallBand": 6,
-  "suggestion": "Specific improvement tip"
-}`;
+Score fluency, vocabulary, grammar and pronunciation as IELTS bands, give an overall band and one specific improvement tip.`;
 
     try {
-      const response = await sendMessage(feedbackPrompt, "studybuddy", {
-        conversationContext: getModeSystemPrompt(),
+      const feedback = await generate<IELTSFeedback>("ieltsFeedback", feedbackPrompt, {
+        systemPrompt: getModeSystemPrompt(),
       });
-      
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const feedback = JSON.parse(jsonMatch[0]);
-        return `📊 **IELTS Feedback:**\n\n` +
-          `• Fluency: ${feedback.fluency}/9\n` +
-          `• Vocabulary: ${feedback.vocabulary}/9\n` +
-          `• Grammar: ${feedback.grammar}/9\n` +
-          `• Pronunciation: ${feedback.pronunciation}/9\n\n` +
-          `**Estimated Band: ${feedback.overallBand}**\n\n` +
-          `💡 ${feedback.suggestion}`;
-      }
+      return `📊 **IELTS Feedback:**\n\n` +
+        `• Fluency: ${feedback.fluency}/9\n` +
+        `• Vocabulary: ${feedback.vocabulary}/9\n` +
+        `• Grammar: ${feedback.grammar}/9\n` +
+        `• Pronunciation: ${feedback.pronunciation}/9\n\n` +
+        `**Estimated Band: ${feedback.overallBand}**\n\n` +
+        `💡 ${feedback.suggestion}`;
     } catch (e) {
       console.error("Feedback error:", e);
     }
@@ -418,7 +473,23 @@ Provide JSON feedback:
     return "Good attempt! Keep practicing to improve your band score.";
   };
 
-  const checkAnswer = async (answer: string) => {
+  const completePlacement = (level: CEFRLevel) => {
+    const language = getActivityLanguage();
+    saveLevel(language, level);
+    if (language === "german") {
+      setGermanLevel(level);
+    }
+    setShowPlacement(false);
+    toast.success(`Level set to ${level}`);
+  };
+
+  const awardXP = (xp: number) => {
+    setSessionXP(prev => prev + xp);
+    recordActivity(getActivityLanguage(), xp);
+  };
+
+  // pronunciationPassed overrides text matching when a spoken answer was scored
+  const checkAnswer = async (answer: string, pronunciationPassed?: boolean) => {
     if (!currentActivity) return;
 
     setShowFeedback(true);
@@ -430,7 +501,7 @@ Provide JSON feedback:
       const feedback = await getIELTSFeedback(answer);
       setIsCorrectAnswer(true);
       const xpGain = 20;
-      setSessionXP(prev => prev + xpGain);
+      awardXP(xpGain);
       setLessonProgress(prev => Math.min(prev + 20, 100));
       setActivityCount(prev => prev + 1);
       
@@ -449,19 +520,31 @@ Provide JSON feedback:
       }
     } else {
       // Standard correct/incorrect checking
-      const isCorrect = normalizedAnswer === normalizedCorrect || 
+      const isCorrect = pronunciationPassed ?? (normalizedAnswer === normalizedCorrect ||
                         normalizedCorrect.includes(normalizedAnswer) ||
                         normalizedAnswer.includes(normalizedCorrect) ||
                         (currentActivity.options && 
                          currentActivity.options.some(opt => 
                            opt.toLowerCase().includes(normalizedAnswer) && 
-                           opt.toLowerCase() === normalizedCorrect));
+                           opt.toLowerCase() === normalizedCorrect)));
 
       setIsCorrectAnswer(isCorrect);
+
+      if (reviewCardId) {
+        reviewCard(reviewCardId, isCorrect ? 4 : 1);
+      } else if (!isCorrect && currentActivity.correctAnswer && reviewableTypes.includes(currentActivity.type)) {
+        addMissedItem(getActivityLanguage(), {
+          activityType: currentActivity.type as VocabularyActivityType,
+          instruction: currentActivity.instruction,
+          content: currentActivity.content,
+          options: currentActivity.options,
+          correctAnswer: currentActivity.correctAnswer,
+        });
+      }
       
       if (isCorrect) {
         const xpGain = isSpeakingMode ? 15 : 10;
-        setSessionXP(prev => prev + xpGain);
+        awardXP(xpGain);
         setLessonProgress(prev => Math.min(prev + 15, 100));
         setActivityCount(prev => prev + 1);
         
@@ -477,7 +560,7 @@ Provide JSON feedback:
           speak(encouragement, targetLanguage);
         }
       } else {
-        setHearts(prev => Math.max(prev - 1, 0));
+        loseHeart();
         const correction = corrections[Math.floor(Math.random() * corrections.length)];
         const feedbackMsg = `${correction}\n\nThe correct answer was: **${currentActivity.correctAnswer}**`;
         
@@ -490,11 +573,18 @@ Provide JSON feedback:
           speak(correction, targetLanguage);
         }
       }
+
+      if (reviewCardId) {
+        setLessonProgress(Math.round(((reviewTotal - reviewQueueRef.current.length) / Math.max(reviewTotal, 1)) * 100));
+      }
     }
 
     // Continue to next activity after delay
     setTimeout(() => {
-      if (lessonProgress >= 100 || activityCount >= 8) {
+      if (selectedMode === "review") {
+        // Review sessions run until the due queue is empty
+        generateNextActivity();
+      } else if (lessonProgress >= 100 || activityCount >= 8) {
         endSession();
       } else if (hearts === 0) {
         // Slow revision mode when out of hearts
@@ -504,13 +594,20 @@ Provide JSON feedback:
       } else {
         generateNextActivity();
       }
-    }, 2500);
+    }, pronunciationPassed === undefined ? 2500 : 6000);
   };
 
-  const handleVoiceAnswer = (spokenText: string) => {
+  const handleVoiceAnswer = async (spokenText: string) => {
     setUserAnswer(spokenText);
-    checkAnswer(spokenText);
     setIsSpeakingMode(false);
+
+    if (isPronunciationActivity && currentActivity?.correctAnswer) {
+      const result = await assessPronunciation(currentActivity.correctAnswer, getActivityLanguage(), spokenText);
+      checkAnswer(spokenText, result ? result.overall >= PASSING_SCORE : undefined);
+      return;
+    }
+
+    checkAnswer(spokenText);
   };
 
   const handleTextSubmit = () => {
@@ -538,6 +635,10 @@ Provide JSON feedback:
       setPendingVoiceConfirm(null);
       resetTranscript();
       startListening();
+      if (isPronunciationActivity) {
+        resetPronunciation();
+        startRecording();
+      }
       // Auto-stop after 5 seconds max
       setTimeout(() => {
         if (isListening) {
@@ -545,7 +646,7 @@ Provide JSON feedback:
         }
       }, 5000);
     }
-  }, [isListening, isSupported, startListening, stopListening, stopSpeaking]);
+  }, [isListening, isSupported, startListening, stopListening, stopSpeaking, isPronunciationActivity, resetPronunciation, startRecording]);
 
   const repeatLastMessage = () => {
     const lastAiMessage = [...conversation].reverse().find((m) => m.role === "ai");
@@ -567,7 +668,6 @@ Provide JSON feedback:
     
     setTimeout(() => {
       setConversation([]);
-      clearHistory();
       setSelectedMode(null);
     }, 3000);
   };
@@ -590,6 +690,7 @@ Provide JSON feedback:
               <h1 className="text-lg font-semibold">
                 {selectedMode === "ielts" ? "IELTS Coach" : 
                  selectedMode === "german" ? "German Coach" : 
+                 selectedMode === "review" ? "Review Coach" : 
                  selectedMode === "general" ? "English Coach" : "Language Coach"}
               </h1>
             </div>
@@ -668,7 +769,9 @@ Provide JSON feedback:
               {learningModes.map((mode, index) => {
                 const Icon = mode.icon;
                 const handleClick = () => {
-                  if (mode.path) {
+                  if (mode.id === "review" && dueCount === 0) {
+                    toast.info("Nothing due for review yet. Missed lesson items will show up here.");
+                  } else if (mode.path) {
                     navigate(mode.path);
                   } else {
                     setSelectedMode(mode.id);
@@ -690,6 +793,13 @@ Provide JSON feedback:
                       <div className="flex-1">
                         <h3 className="text-xl font-semibold mb-1">{mode.label}</h3>
                         <p className="text-muted-foreground">{mode.description}</p>
+                        {mode.id === "review" && (
+                          <span className={`text-xs mt-1 block ${dueCount > 0 ? "text-primary" : "text-muted-foreground"}`}>
+                            {dueCount > 0
+                              ? `${dueCount} ${targetLanguages.find(l => l.id === targetLanguage)?.name} item${dueCount === 1 ? "" : "s"} due`
+                              : "All caught up"}
+                          </span>
+                        )}
                         {mode.path && (
                           <span className="text-xs text-primary mt-1 block">Opens dedicated practice page →</span>
                         )}
@@ -711,7 +821,10 @@ Provide JSON feedback:
             <Button
               variant="ghost"
               className="self-start mb-4"
-              onClick={() => setSelectedMode(null)}
+              onClick={() => {
+                setShowPlacement(false);
+                setSelectedMode(null);
+              }}
             >
               <ArrowLeft className="w-4 h-4 mr-2" />
               Back to modes
@@ -721,6 +834,7 @@ Provide JSON feedback:
               <h2 className="text-2xl font-bold mb-2">
                 {selectedMode === "ielts" ? "IELTS Preparation" :
                  selectedMode === "german" ? "German Goethe Exam" :
+                 selectedMode === "review" ? "Review Due" :
                  "General English Practice"}
               </h2>
               <p className="text-muted-foreground">Configure your session</p>
@@ -736,112 +850,142 @@ Provide JSON feedback:
               <div className="glass-card rounded-2xl p-4 text-center">
                 <Heart className="h-6 w-6 mx-auto mb-2 text-destructive" />
                 <p className="text-2xl font-bold">{hearts}</p>
-                <p className="text-xs text-muted-foreground">Hearts</p>
+                <p className="text-xs text-muted-foreground">
+                  {nextHeartAt ? `+1 in ${Math.max(1, Math.ceil((nextHeartAt.getTime() - Date.now()) / 60000))} min` : "Hearts"}
+                </p>
               </div>
               <div className="glass-card rounded-2xl p-4 text-center">
                 <Zap className="h-6 w-6 mx-auto mb-2 text-primary" />
-                <p className="text-2xl font-bold">{sessionXP}</p>
+                <p className="text-2xl font-bold">{todayXP}</p>
                 <p className="text-xs text-muted-foreground">XP Today</p>
               </div>
             </div>
 
-            <div className="glass-card rounded-3xl p-6 space-y-6">
-              {/* IELTS Skill Selection */}
-              {selectedMode === "ielts" && (
-                <div>
-                  <label className="text-sm font-medium text-muted-foreground mb-3 block">
-                    Select IELTS Skill
-                  </label>
-                  <div className="grid grid-cols-2 gap-2">
-                    {ieltsSkills.map((skill) => {
-                      const Icon = skill.icon;
-                      return (
-                        <button
-                          key={skill.id}
-                          onClick={() => setIeltsSkill(skill.id)}
-                          className={`p-4 rounded-xl border-2 transition-all flex items-center gap-3 ${
-                            ieltsSkill === skill.id
-                              ? "border-primary bg-primary/10"
-                              : "border-border/50 hover:border-border"
-                          }`}
-                        >
-                          <Icon className="w-5 h-5" />
-                          <span className="font-medium">{skill.name}</span>
-                        </button>
-                      );
-                    })}
+            {showPlacement ? (
+              <CEFRPlacementTest
+                languageName={targetLanguages.find(l => l.id === getActivityLanguage())?.name || "English"}
+                onComplete={completePlacement}
+                onCancel={() => setShowPlacement(false)}
+              />
+            ) : (
+              <div className="glass-card rounded-3xl p-6 space-y-6">
+                {/* Placement Level */}
+                {(selectedMode === "german" || selectedMode === "general") && (
+                  <div className="flex items-center justify-between gap-3 p-4 rounded-2xl bg-muted/50">
+                    <div className="flex items-center gap-3">
+                      <Target className="w-5 h-5 text-primary" />
+                      <div>
+                        <p className="font-medium">
+                          {cefrLevels[getActivityLanguage()]
+                            ? `Your level: ${cefrLevels[getActivityLanguage()].level}`
+                            : "Not sure of your level?"}
+                        </p>
+                        <p className="text-xs text-muted-foreground">{PLACEMENT_ITEM_COUNT} adaptive questions, about 5 minutes</p>
+                      </div>
+                    </div>
+                    <Button variant="outline" size="sm" className="rounded-xl" onClick={() => setShowPlacement(true)}>
+                      {cefrLevels[getActivityLanguage()] ? "Retake test" : "Find my level"}
+                    </Button>
                   </div>
-                </div>
-              )}
+                )}
+
+                {/* IELTS Skill Selection */}
+                {selectedMode === "ielts" && (
+                  <div>
+                    <label className="text-sm font-medium text-muted-foreground mb-3 block">
+                      Select IELTS Skill
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {ieltsSkills.map((skill) => {
+                        const Icon = skill.icon;
+                        return (
+                          <button
+                            key={skill.id}
+                            onClick={() => setIeltsSkill(skill.id)}
+                            className={`p-4 rounded-xl border-2 transition-all flex items-center gap-3 ${
+                              ieltsSkill === skill.id
+                                ? "border-primary bg-primary/10"
+                                : "border-border/50 hover:border-border"
+                            }`}
+                          >
+                            <Icon className="w-5 h-5" />
+                            <span className="font-medium">{skill.name}</span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
 
-              {/* German Level Selection */}
-              {selectedMode === "german" && (
-                <div>
-                  <label className="text-sm font-medium text-muted-foreground mb-3 block">
-                    Select Your Level
+                {/* German Level Selection */}
+                {selectedMode === "german" && (
+                  <div>
+                    <label className="text-sm font-medium text-muted-foreground mb-3 block">
+                      Select Your Level
+                    </label>
+                    <Select value={germanLevel} onValueChange={(v) => setGermanLevel(v as CEFRLevel)}>
+                      <SelectTrigger className="h-14 rounded-2xl text-lg">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {germanLevels.map((lvl) => (
+                          <SelectItem key={lvl.id} value={lvl.id}>
+                            <span className="flex flex-col">
+                              <span className="font-medium">{lvl.name}</span>
+                              <span className="text-xs text-muted-foreground">{lvl.description}</span>
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {/* Mode Options */}
+                <div className="space-y-3">
+                  <label className="text-sm font-medium text-muted-foreground block">
+                    Session Options
                   </label>
-                  <Select value={germanLevel} onValueChange={(v) => setGermanLevel(v as GermanLevel)}>
-                    <SelectTrigger className="h-14 rounded-2xl text-lg">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {germanLevels.map((lvl) => (
-                        <SelectItem key={lvl.id} value={lvl.id}>
-                          <span className="flex flex-col">
-                            <span className="font-medium">{lvl.name}</span>
-                            <span className="text-xs text-muted-foreground">{lvl.description}</span>
-                          </span>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => setVisualActivityMode(!visualActivityMode)}
+                      className={`px-4 py-2 rounded-xl border-2 text-sm font-medium transition-all flex items-center gap-2 ${
+                        visualActivityMode ? "border-primary bg-primary/10 text-primary" : "border-border/50"
+                      }`}
+                    >
+                      <Image className="w-4 h-4" />
+                      Visual Mode
+                    </button>
+                    <button
+                      onClick={() => setTalkOnlyMode(!talkOnlyMode)}
+                      className={`px-4 py-2 rounded-xl border-2 text-sm font-medium transition-all flex items-center gap-2 ${
+                        talkOnlyMode ? "border-primary bg-primary/10 text-primary" : "border-border/50"
+                      }`}
+                    >
+                      <Mic className="w-4 h-4" />
+                      Talk-Only Mode
+                    </button>
+                    <button
+                      onClick={() => setSlowMode(!slowMode)}
+                      className={`px-4 py-2 rounded-xl border-2 text-sm font-medium transition-all flex items-center gap-2 ${
+                        slowMode ? "border-primary bg-primary/10 text-primary" : "border-border/50"
+                      }`}
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Slow Mode
+                    </button>
+                  </div>
                 </div>
-              )}
 
-              {/* Mode Options */}
-              <div className="space-y-3">
-                <label className="text-sm font-medium text-muted-foreground block">
-                  Session Options
-                </label>
-                <div className="flex flex-wrap gap-2">
-                  <button
-                    onClick={() => setVisualActivityMode(!visualActivityMode)}
-                    className={`px-4 py-2 rounded-xl border-2 text-sm font-medium transition-all flex items-center gap-2 ${
-                      visualActivityMode ? "border-primary bg-primary/10 text-primary" : "border-border/50"
-                    }`}
-                  >
-                    <Image className="w-4 h-4" />
-                    Visual Mode
-                  </button>
-                  <button
-                    onClick={() => setTalkOnlyMode(!talkOnlyMode)}
-                    className={`px-4 py-2 rounded-xl border-2 text-sm font-medium transition-all flex items-center gap-2 ${
-                      talkOnlyMode ? "border-primary bg-primary/10 text-primary" : "border-border/50"
-                    }`}
-                  >
-                    <Mic className="w-4 h-4" />
-                    Talk-Only Mode
-                  </button>
-                  <button
-                    onClick={() => setSlowMode(!slowMode)}
-                    className={`px-4 py-2 rounded-xl border-2 text-sm font-medium transition-all flex items-center gap-2 ${
-                      slowMode ? "border-primary bg-primary/10 text-primary" : "border-border/50"
-                    }`}
-                  >
-                    <RotateCcw className="w-4 h-4" />
-                    Slow Mode
-                  </button>
-                </div>
+                <Button
+                  className="w-full h-14 rounded-2xl text-lg font-semibold bg-gradient-to-r from-success to-emerald-400 hover:from-success/90 hover:to-emerald-400/90 shadow-lg"
+                  onClick={startSession}
+                >
+                  <Sparkles className="w-5 h-5 mr-2" />
+                  {selectedMode === "review" ? `Start Review (${dueCount})` : "Start Lesson"}
+                </Button>
               </div>
-
-              <Button
-                className="w-full h-14 rounded-2xl text-lg font-semibold bg-gradient-to-r from-success to-emerald-400 hover:from-success/90 hover:to-emerald-400/90 shadow-lg"
-                onClick={startSession}
-              >
-                <Sparkles className="w-5 h-5 mr-2" />
-                Start Lesson
-              </Button>
-            </div>
+            )}
           </motion.div>
         ) : (
           /* Lesson Screen */
@@ -857,6 +1001,7 @@ Provide JSON feedback:
                   <span className="font-medium">
                     {selectedMode === "ielts" ? `IELTS ${ieltsSkill} - Part ${ieltsPart}` :
                      selectedMode === "german" ? `German ${germanLevel}` :
+                     selectedMode === "review" ? `Review ${Math.min(reviewTotal - reviewQueueRef.current.length, reviewTotal)}/${reviewTotal}` :
                      "English Practice"}
                   </span>
                 </div>
@@ -888,9 +1033,10 @@ Provide JSON feedback:
                   onComplete={(isCorrect, answer) => {
                     if (isCorrect) {
                       setSessionXP(prev => prev + 15);
+                      recordActivity(targetLanguage, 15);
                       setLessonProgress(prev => Math.min(prev + 15, 100));
                     } else {
-                      setHearts(prev => Math.max(prev - 1, 0));
+                      loseHeart();
                     }
                     setActivityCount(prev => prev + 1);
                     
@@ -942,14 +1088,14 @@ Provide JSON feedback:
                     ))}
                   </AnimatePresence>
 
-                  {currentResponse && (
+                  {isGenerating && (
                     <motion.div
                       initial={{ opacity: 0 }}
                       animate={{ opacity: 1 }}
                       className="flex justify-start"
                     >
-                      <div className="glass-card rounded-2xl rounded-bl-md px-4 py-3 max-w-[85%]">
-                        <p className="whitespace-pre-wrap leading-relaxed">{currentResponse}</p>
+                      <div className="glass-card rounded-2xl rounded-bl-md px-4 py-3">
+                        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
                       </div>
                     </motion.div>
                   )}
@@ -1047,6 +1193,16 @@ Provide JSON feedback:
               )}
             </AnimatePresence>
 
+            {isAssessingPronunciation && (
+              <p className="mb-4 text-sm text-muted-foreground text-center animate-pulse">Scoring your pronunciation...</p>
+            )}
+
+            {showFeedback && pronunciation && (
+              <div className="mb-4">
+                <PronunciationBreakdown assessment={pronunciation} />
+              </div>
+            )}
+
             {/* Voice Error Display */}
             <AnimatePresence>
               {speechError && (
@@ -0,0 +1,283 @@
+// Provider layer for chat completions. Every provider's stream is normalized to
+// OpenAI-style SSE ("data: {choices:[{delta:{content}}]}" ... "data: [DONE]"),
+// which is what the browser client already parses.
+//
+// Configuration (environment):
+//   LLM_PROVIDER       lovable (default) | openai | anthropic | local
+//   LLM_BASE_URL       API base URL; defaults per provider, e.g. http://localhost:11434/v1
+//                      for a local Ollama or llama.cpp server
+//   LLM_API_KEY        key for openai/anthropic (lovable uses LOVABLE_API_KEY, local needs none)
+//   LLM_MODEL          default model for the provider
+//   LLM_MODEL_<MODE>   per-mode override, e.g. LLM_MODEL_THERAPIST
+
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+
+export type LLMProvider = "lovable" | "openai" | "anthropic" | "local";
+
+export type LLMMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export interface LLMConfig {
+  provider: LLMProvider;
+  baseUrl: string;
+  apiKey: string | null;
+  model: string;
+}
+
+const providerDefaults: Record<LLMProvider, { baseUrl: string; model: string | null; keyEnv: string | null }> = {
+  lovable: { baseUrl: "https://ai.gateway.lovable.dev/v1", model: "google/gemini-2.5-flash", keyEnv: "LOVABLE_API_KEY" },
+  openai: { baseUrl: "https://api.openai.com/v1", model: null, keyEnv: "LLM_API_KEY" },
+  anthropic: { baseUrl: "https://api.anthropic.com/v1", model: null, keyEnv: "LLM_API_KEY" },
+  local: { baseUrl: "http://localhost:11434/v1", model: null, keyEnv: null },
+};
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const ANTHROPIC_MAX_TOKENS = 1024;
+
+/**
+ * Reads the provider settings for a request. Throws when the configuration is
+ * incomplete so callers can log it and answer with a generic service error.
+ */
+export const resolveLLMConfig = (mode?: string): LLMConfig => {
+  const provider = (Deno.env.get("LLM_PROVIDER") || "lovable") as LLMProvider;
+  const defaults = providerDefaults[provider];
+  if (!defaults) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}"`);
+  }
+
+  const modeModel = mode ? Deno.env.get(`LLM_MODEL_${mode.toUpperCase()}`) : undefined;
+  const model = modeModel || Deno.env.get("LLM_MODEL") || defaults.model;
+  if (!model) {
+    throw new Error(`LLM_MODEL is required for provider "${provider}"`);
+  }
+
+  const apiKey = defaults.keyEnv ? Deno.env.get(defaults.keyEnv) ?? null : Deno.env.get("LLM_API_KEY") ?? null;
+  if (defaults.keyEnv && !apiKey) {
+    throw new Error(`${defaults.keyEnv} is required for provider "${provider}"`);
+  }
+
+  return {
+    provider,
+    baseUrl: (Deno.env.get("LLM_BASE_URL") || defaults.baseUrl).replace(/\/$/, ""),
+    apiKey,
+    model,
+  };
+};
+
+const encodeDelta = (encoder: TextEncoder, content: string) =>
+  encoder.encode(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content } }] })}\n\n`);
+
+// Anthropic streams typed events; only text deltas matter for the chat
+const normalizeAnthropicStream = (body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> => {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = "";
+
+  const handleLine = (line: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (!line.startsWith("data: ")) return;
+    try {
+      const event = JSON.parse(line.slice(6));
+      if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+        controller.enqueue(encodeDelta(encoder, event.delta.text));
+      }
+    } catch {
+      // Ignore keep-alives and partial lines
+    }
+  };
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach(line => handleLine(line.replace(/\r$/, ""), controller));
+    },
+    flush(controller) {
+      handleLine(buffer.replace(/\r$/, ""), controller);
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+    },
+  }));
+};
+
+/**
+ * Runs a non-streaming completion that should answer with a JSON object.
+ * Resolves with the provider status and, on success, the raw message text.
+ */
+export const completeJSON = async (
+  config: LLMConfig,
+  messages: LLMMessage[],
+  options: { temperature?: number } = {},
+): Promise<{ status: number; content: string }> => {
+  if (config.provider === "anthropic") {
+    const system = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+    const response = await fetch(`${config.baseUrl}/messages`, {
+      method: "POST",
+      headers: {
+        "x-api-key": config.apiKey ?? "",
+        "anthropic-version": ANTHROPIC_VERSION,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: config.model,
+        max_tokens: ANTHROPIC_MAX_TOKENS * 4,
+        system: system || undefined,
+        messages: messages.filter((m) => m.role !== "system"),
+        temperature: options.temperature,
+      }),
+    });
+
+    if (!response.ok) return { status: response.status, content: "" };
+    const message = await response.json();
+    const text = Array.isArray(message.content)
+      ? message.content.filter((block: { type?: string }) => block.type === "text").map((block: { text: string }) => block.text).join("")
+      : "";
+    return { status: response.status, content: text };
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
+  const response = await fetch(`${config.baseUrl}/chat/completions`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      model: config.model,
+      messages,
+      response_format: { type: "json_object" },
+      temperature: options.temperature,
+    }),
+  });
+
+  if (!response.ok) return { status: response.status, content: "" };
+  const completion = await response.json();
+  return { status: response.status, content: completion.choices?.[0]?.message?.content ?? "" };
+};
+
+const MAX_JSON_ATTEMPTS = 3;
+
+export type ValidatedJSONResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; status: number; error: string; issues?: string };
+
+const parseModelJson = (content: string): unknown => {
+  // Models occasionally wrap JSON mode output in a code fence
+  const unfenced = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  return JSON.parse(unfenced);
+};
+
+const formatIssues = (error: z.ZodError): string =>
+  error.issues
+    .slice(0, 10)
+    .map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ");
+
+/**
+ * Asks for JSON matching a zod schema and feeds validation errors back to the
+ * model, up to three attempts. Provider errors map to the status the client
+ * should see (429, 402 or 500); output that never validates gives 422.
+ *
+ * `shape` is the human-readable shape repeated in the repair prompt, `prepare`
+ * adjusts the parsed JSON before validation and `check` reports problems the
+ * schema cannot express.
+ */
+export const completeValidatedJSON = async <S extends z.ZodTypeAny>(
+  config: LLMConfig,
+  messages: LLMMessage[],
+  schema: S,
+  options: {
+    shape: string;
+    requestId: string;
+    temperature?: number;
+    prepare?: (candidate: unknown) => unknown;
+    check?: (data: z.infer<S>) => string | null;
+  },
+): Promise<ValidatedJSONResult<z.infer<S>>> => {
+  const conversation = [...messages];
+  let lastIssues = "";
+
+  for (let attempt = 1; attempt <= MAX_JSON_ATTEMPTS; attempt++) {
+    const { status, content } = await completeJSON(config, conversation, { temperature: options.temperature });
+
+    if (status < 200 || status >= 300) {
+      console.error(`[${options.requestId}] LLM provider error: ${status}`);
+      if (status === 429) return { ok: false, status, error: "Rate limit exceeded. Please try again in a moment." };
+      if (status === 402) return { ok: false, status, error: "Usage limit reached. Please check your account." };
+      return { ok: false, status: 500, error: "Failed to get AI response" };
+    }
+
+    let candidate: unknown;
+    try {
+      candidate = parseModelJson(content);
+    } catch {
+      lastIssues = "Response was not valid JSON";
+      console.warn(`[${options.requestId}] Attempt ${attempt}: invalid JSON`);
+      conversation.push(
+        { role: "assistant", content },
+        { role: "user", content: `That was not valid JSON. Reply again with only the JSON object matching:\n${options.shape}` },
+      );
+      continue;
+    }
+
+    const result = schema.safeParse(options.prepare ? options.prepare(candidate) : candidate);
+    const problem = result.success ? options.check?.(result.data) ?? null : formatIssues(result.error);
+    if (result.success && !problem) {
+      console.log(`[${options.requestId}] Valid output on attempt ${attempt}`);
+      return { ok: true, data: result.data };
+    }
+
+    lastIssues = problem ?? "";
+    console.warn(`[${options.requestId}] Attempt ${attempt}: schema mismatch`);
+    conversation.push(
+      { role: "assistant", content },
+      { role: "user", content: `Your JSON did not match the required shape (${lastIssues}). Reply again with only the corrected JSON object.` },
+    );
+  }
+
+  console.error(`[${options.requestId}] Giving up after ${MAX_JSON_ATTEMPTS} attempts`);
+  return { ok: false, status: 422, error: "Model output did not match schema", issues: lastIssues };
+};
+
+/**
+ * Starts a streaming chat completion. The returned response keeps the
+ * provider's status code; on success its body is normalized SSE.
+ */
+export const streamChatCompletion = async (config: LLMConfig, messages: LLMMessage[]): Promise<Response> => {
+  if (config.provider === "anthropic") {
+    const system = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+    const response = await fetch(`${config.baseUrl}/messages`, {
+      method: "POST",
+      headers: {
+        "x-api-key": config.apiKey ?? "",
+        "anthropic-version": ANTHROPIC_VERSION,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: config.model,
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        system: system || undefined,
+        messages: messages.filter((m) => m.role !== "system"),
+        stream: true,
+      }),
+    });
+
+    if (!response.ok || !response.body) return response;
+    return new Response(normalizeAnthropicStream(response.body), { status: response.status });
+  }
+
+  // Lovable, OpenAI, Ollama and llama.cpp all speak the OpenAI chat completions API
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
+  return fetch(`${config.baseUrl}/chat/completions`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      model: config.model,
+      messages,
+      stream: true,
+    }),
+  });
+};
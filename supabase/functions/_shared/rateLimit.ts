@@ -0,0 +1,121 @@
+// Fixed-window rate limiting backed by the consume_rate_limit RPC. Signed-in
+// users are keyed by their user ID, guests by a salted hash of their IP.
+//
+// Configuration (environment):
+//   RATE_LIMIT_SALT      salt for hashing guest IPs
+//   TRUSTED_PROXY_HOPS   proxies in front of the function that append to
+//                        X-Forwarded-For (default 1)
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Requests allowed per window, per function
+export const RATE_LIMITS = {
+  chat: {
+    guest: { perMinute: 10, perDay: 100 },
+    user: { perMinute: 30, perDay: 1000 },
+  },
+  "text-to-speech": {
+    guest: { perMinute: 5, perDay: 30 },
+    user: { perMinute: 20, perDay: 300 },
+  },
+  "assess-pronunciation": {
+    guest: { perMinute: 10, perDay: 60 },
+    user: { perMinute: 20, perDay: 400 },
+  },
+  "generate-structured": {
+    guest: { perMinute: 10, perDay: 100 },
+    user: { perMinute: 30, perDay: 600 },
+  },
+  "evaluate-writing": {
+    guest: { perMinute: 3, perDay: 10 },
+    user: { perMinute: 10, perDay: 60 },
+  },
+  "generate-chart": {
+    guest: { perMinute: 5, perDay: 20 },
+    user: { perMinute: 10, perDay: 100 },
+  },
+  "evaluate-interview": {
+    guest: { perMinute: 5, perDay: 20 },
+    user: { perMinute: 10, perDay: 100 },
+  },
+};
+
+export type RateLimitedFunction = keyof typeof RATE_LIMITS;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter: number;
+  headers: Record<string, string>;
+}
+
+export const hashIdentifier = async (value: string): Promise<string> => {
+  const data = new TextEncoder().encode(`${Deno.env.get("RATE_LIMIT_SALT") ?? ""}:${value}`);
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, "0")).join("");
+};
+
+// Clients can prepend anything to X-Forwarded-For, so only the entry our own
+// proxy appended is trusted: the Nth from the right for N trusted hops
+const getClientIp = (req: Request): string | null => {
+  const hops = Math.max(1, Number(Deno.env.get("TRUSTED_PROXY_HOPS")) || 1);
+  const forwarded = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  return forwarded.length >= hops ? forwarded[forwarded.length - hops] : null;
+};
+
+export const checkRateLimit = async (
+  req: Request,
+  functionName: RateLimitedFunction,
+  userId: string | null,
+): Promise<RateLimitResult> => {
+  const limits = userId ? RATE_LIMITS[functionName].user : RATE_LIMITS[functionName].guest;
+  // Guests without a forwarded IP share one bucket rather than picking their own key
+  const subject = userId
+    ? `user:${userId}`
+    : `guest:${await hashIdentifier(getClientIp(req) ?? "unknown")}`;
+
+  const serviceClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  const { data, error } = await serviceClient.rpc("consume_rate_limit", {
+    _subject: subject,
+    _function_name: functionName,
+    _minute_limit: limits.perMinute,
+    _day_limit: limits.perDay,
+  });
+
+  const usage = Array.isArray(data) ? data[0] : data;
+  if (error || !usage) {
+    // Fail open: a counter outage should not take the feature down with it
+    console.error(`Rate limit check failed: ${error?.message ?? "no result"}`);
+    return { allowed: true, retryAfter: 0, headers: {} };
+  }
+
+  const now = Date.now();
+  const minuteReset = Math.max(1, Math.ceil((new Date(usage.minute_reset).getTime() - now) / 1000));
+  const dayReset = Math.max(1, Math.ceil((new Date(usage.day_reset).getTime() - now) / 1000));
+
+  // Report the window that runs out first (or already has)
+  const dayIsTighter = usage.day_remaining === 0 || usage.day_remaining < usage.minute_remaining;
+  const limit = dayIsTighter ? limits.perDay : limits.perMinute;
+  const remaining = dayIsTighter ? usage.day_remaining : usage.minute_remaining;
+  const reset = dayIsTighter ? dayReset : minuteReset;
+
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(limit),
+    "RateLimit-Remaining": String(remaining),
+    "RateLimit-Reset": String(reset),
+    "RateLimit-Policy": `${limits.perMinute};w=60, ${limits.perDay};w=86400`,
+    "Access-Control-Expose-Headers": "RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy, Retry-After",
+  };
+
+  if (!usage.allowed) {
+    headers["Retry-After"] = String(reset);
+  }
+
+  return { allowed: usage.allowed, retryAfter: usage.allowed ? 0 : reset, headers };
+};
@@ -0,0 +1,16 @@
+// Azure reads the Pronunciation-Assessment header as base64 of UTF-8 JSON.
+// btoa only accepts Latin-1, so the JSON is encoded to UTF-8 bytes first.
+const encodeBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+export const buildAssessmentConfig = (referenceText: string): string =>
+  encodeBase64(new TextEncoder().encode(JSON.stringify({
+    ReferenceText: referenceText,
+    GradingSystem: "HundredMark",
+    Granularity: "Phoneme",
+    Dimension: "Comprehensive",
+    EnableMiscue: true,
+  })));
@@ -0,0 +1,268 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { checkRateLimit } from "../_shared/rateLimit.ts";
+import { buildAssessmentConfig } from "./assessmentConfig.ts";
+
+// Dynamic CORS configuration - restrict origins in production
+const getAllowedOrigin = (requestOrigin: string | null): string => {
+  const allowedOrigins = [
+    Deno.env.get("ALLOWED_ORIGIN") || "",
+    "https://lovable.dev",
+    "https://gptengineer.app",
+  ].filter(Boolean);
+
+  // In production, validate against allowed origins list
+  if (requestOrigin && allowedOrigins.some(allowed => requestOrigin.startsWith(allowed.replace(/\/$/, '')))) {
+    return requestOrigin;
+  }
+
+  // Fallback for development - if ALLOWED_ORIGIN not set, use request origin
+  if (!Deno.env.get("ALLOWED_ORIGIN") && requestOrigin) {
+    return requestOrigin;
+  }
+
+  return allowedOrigins[0] || "*";
+};
+
+const getCorsHeaders = (req: Request) => ({
+  "Access-Control-Allow-Origin": getAllowedOrigin(req.headers.get("Origin")),
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Credentials": "true",
+});
+
+// Scorer selection (environment):
+//   PRONUNCIATION_PROVIDER   azure (default) | local
+//   AZURE_SPEECH_KEY, AZURE_SPEECH_REGION   for Azure pronunciation assessment
+//   PRONUNCIATION_SCORER_URL                for a self-hosted open-source scorer
+//
+// A local scorer receives the same JSON body as this function at POST /assess and
+// answers with { overall, accuracy, completeness, fluency, words } (scores 0-100).
+
+const SUPPORTED_LOCALES = ["en-US", "de-DE", "fr-FR", "es-ES", "it-IT", "ja-JP", "ko-KR", "hi-IN", "pt-BR", "zh-CN"];
+
+// About 30 seconds of 16 kHz mono 16-bit WAV, base64 encoded
+const MAX_AUDIO_BASE64 = 1_400_000;
+
+type WordErrorType = "none" | "mispronunciation" | "omission" | "insertion";
+
+interface Assessment {
+  overall: number;
+  accuracy: number;
+  completeness: number;
+  fluency: number | null;
+  words: { word: string; score: number; errorType: WordErrorType; phonemes: { phoneme: string; score: number }[] }[];
+  source: "service" | "local";
+}
+
+interface AzureWord {
+  Word?: string;
+  PronunciationAssessment?: { AccuracyScore?: number; ErrorType?: string };
+  Phonemes?: { Phoneme?: string; PronunciationAssessment?: { AccuracyScore?: number } }[];
+}
+
+const clampScore = (value: unknown): number => {
+  const num = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? Math.min(100, Math.max(0, Math.round(num))) : 0;
+};
+
+const toErrorType = (value: unknown): WordErrorType => {
+  const normalized = String(value || "none").toLowerCase();
+  return normalized === "mispronunciation" || normalized === "omission" || normalized === "insertion" ? normalized : "none";
+};
+
+const decodeBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const assessWithAzure = async (audio: Uint8Array, referenceText: string, locale: string): Promise<Assessment | number> => {
+  const key = Deno.env.get("AZURE_SPEECH_KEY");
+  const region = Deno.env.get("AZURE_SPEECH_REGION");
+  if (!key || !region) {
+    throw new Error("AZURE_SPEECH_KEY and AZURE_SPEECH_REGION are required");
+  }
+
+  const config = buildAssessmentConfig(referenceText);
+
+  const response = await fetch(
+    `https://${region}.stt.speech.microsoft.com/speech/recognition/conversation/cognitiveservices/v1?language=${locale}&format=detailed`,
+    {
+      method: "POST",
+      headers: {
+        "Ocp-Apim-Subscription-Key": key,
+        "Pronunciation-Assessment": config,
+        "Content-Type": "audio/wav; codecs=audio/pcm; samplerate=16000",
+        Accept: "application/json",
+      },
+      body: audio,
+    }
+  );
+
+  if (!response.ok) return response.status;
+
+  const data = await response.json();
+  const best = data.NBest?.[0];
+  const scores = best?.PronunciationAssessment ?? best ?? {};
+  const words: AzureWord[] = Array.isArray(best?.Words) ? best.Words : [];
+
+  return {
+    overall: clampScore(scores.PronScore),
+    accuracy: clampScore(scores.AccuracyScore),
+    completeness: clampScore(scores.CompletenessScore),
+    fluency: scores.FluencyScore === undefined ? null : clampScore(scores.FluencyScore),
+    words: words.map((word) => ({
+      word: String(word.Word || ""),
+      score: clampScore(word.PronunciationAssessment?.AccuracyScore),
+      errorType: toErrorType(word.PronunciationAssessment?.ErrorType),
+      phonemes: (word.Phonemes ?? []).map((phoneme) => ({
+        phoneme: String(phoneme.Phoneme || ""),
+        score: clampScore(phoneme.PronunciationAssessment?.AccuracyScore),
+      })),
+    })),
+    source: "service",
+  };
+};
+
+const assessWithLocalScorer = async (audioBase64: string, referenceText: string, locale: string): Promise<Assessment | number> => {
+  const baseUrl = Deno.env.get("PRONUNCIATION_SCORER_URL");
+  if (!baseUrl) {
+    throw new Error("PRONUNCIATION_SCORER_URL is required for the local provider");
+  }
+
+  const response = await fetch(`${baseUrl.replace(/\/$/, "")}/assess`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ audio: audioBase64, referenceText, language: locale }),
+  });
+
+  if (!response.ok) return response.status;
+
+  const data = await response.json();
+  return {
+    overall: clampScore(data.overall),
+    accuracy: clampScore(data.accuracy),
+    completeness: clampScore(data.completeness),
+    fluency: data.fluency === null || data.fluency === undefined ? null : clampScore(data.fluency),
+    words: (Array.isArray(data.words) ? data.words : []).map((word: Record<string, unknown>) => ({
+      word: String(word.word || ""),
+      score: clampScore(word.score),
+      errorType: toErrorType(word.errorType),
+      phonemes: (Array.isArray(word.phonemes) ? word.phonemes : []).map((phoneme: Record<string, unknown>) => ({
+        phoneme: String(phoneme.phoneme || ""),
+        score: clampScore(phoneme.score),
+      })),
+    })),
+    source: "local",
+  };
+};
+
+serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Log request ID for correlation (no PII)
+    const requestId = crypto.randomUUID().slice(0, 8);
+
+    // Optional authentication: allow guests (no Authorization header)
+    const authHeader = req.headers.get("Authorization");
+    let user: { id: string } | null = null;
+
+    if (authHeader) {
+      const supabaseClient = createClient(
+        Deno.env.get("SUPABASE_URL") ?? "",
+        Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+        { global: { headers: { Authorization: authHeader } } }
+      );
+
+      const { data, error } = await supabaseClient.auth.getUser();
+      if (!error) {
+        user = data.user;
+      }
+    }
+
+    const rateLimit = await checkRateLimit(req, "assess-pronunciation", user?.id ?? null);
+    if (!rateLimit.allowed) {
+      console.log(`[${requestId}] Rate limited, retry after ${rateLimit.retryAfter}s`);
+      return new Response(JSON.stringify({
+        error: `Too many pronunciation checks. Please try again in ${rateLimit.retryAfter} seconds.`,
+        retryAfter: rateLimit.retryAfter,
+      }), {
+        status: 429,
+        headers: { ...corsHeaders, ...rateLimit.headers, "Content-Type": "application/json" },
+      });
+    }
+
+    const { audio, referenceText, language } = await req.json();
+
+    // Input validation
+    if (!audio || typeof audio !== "string" || audio.length > MAX_AUDIO_BASE64) {
+      return new Response(JSON.stringify({ error: "Audio must be a base64 WAV clip of at most 30 seconds" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!referenceText || typeof referenceText !== "string" || referenceText.length > 500) {
+      return new Response(JSON.stringify({ error: "Invalid referenceText (max 500 chars)" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!SUPPORTED_LOCALES.includes(language)) {
+      return new Response(JSON.stringify({ error: `Language must be one of ${SUPPORTED_LOCALES.join(", ")}` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    let audioBytes: Uint8Array;
+    try {
+      audioBytes = decodeBase64(audio);
+    } catch {
+      return new Response(JSON.stringify({ error: "Audio is not valid base64" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const provider = Deno.env.get("PRONUNCIATION_PROVIDER") || "azure";
+    console.log(`[${requestId}] Pronunciation assessment: ${provider}, ${language} (${user ? "authed" : "guest"})`);
+
+    let result: Assessment | number;
+    try {
+      result = provider === "local"
+        ? await assessWithLocalScorer(audio, referenceText, language)
+        : await assessWithAzure(audioBytes, referenceText, language);
+    } catch (configError) {
+      console.error(`[${requestId}] Configuration error: ${configError instanceof Error ? configError.message : "scorer"}`);
+      throw new Error("Service configuration error");
+    }
+
+    if (typeof result === "number") {
+      console.error(`[${requestId}] Scorer error: ${result}`);
+      return new Response(JSON.stringify({ error: "Failed to assess pronunciation" }), {
+        status: result === 429 ? 429 : 502,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`[${requestId}] Assessment complete, ${result.words.length} words`);
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, ...rateLimit.headers, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Assess pronunciation function error:", error instanceof Error ? error.message : "Unknown");
+    return new Response(JSON.stringify({ error: "Service temporarily unavailable" }), {
+      status: 500,
+      headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
+    });
+  }
+});
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveLLMConfig, streamChatCompletion, type LLMConfig } from "../_shared/llm.ts";
+import { checkRateLimit } from "../_shared/rateLimit.ts";
 
 // Dynamic CORS configuration - restrict origins in production
 const getAllowedOrigin = (requestOrigin: string | null): string => {
@@ -114,6 +116,179 @@ function getEmotionalAdjustment(emotion: string): string {
   }
 }
 
+// Clients only ever supply user and assistant turns; the system prompt is built here
+type ChatMessage = { role: "user" | "assistant"; content: string };
+
+const MAX_INSTRUCTIONS_LENGTH = 4000;
+
+// Rough budget for prior turns; ~4 characters per token is close enough for trimming
+const HISTORY_TOKEN_BUDGET = 6000;
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Loads the most recent turns of a conversation that fit in the token budget.
+// Returns null when the conversation does not exist or belongs to someone else.
+async function loadHistory(
+  supabaseClient: ReturnType<typeof createClient>,
+  conversationId: string,
+): Promise<ChatMessage[] | null> {
+  const { data: conversation, error: conversationError } = await supabaseClient
+    .from("conversations")
+    .select("id")
+    .eq("id", conversationId)
+    .maybeSingle();
+
+  if (conversationError) throw conversationError;
+  if (!conversation) return null;
+
+  const { data, error } = await supabaseClient
+    .from("messages")
+    .select("role, content")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: false })
+    .limit(200);
+
+  if (error) throw error;
+
+  const history: ChatMessage[] = [];
+  let tokens = 0;
+  for (const row of (data || []) as ChatMessage[]) {
+    if (row.role !== "user" && row.role !== "assistant") continue;
+    tokens += estimateTokens(row.content);
+    if (tokens > HISTORY_TOKEN_BUDGET) break;
+    history.unshift({ role: row.role, content: row.content });
+  }
+
+  return history;
+}
+
+// Passes the SSE stream through untouched while collecting the assistant's
+// text, then stores it once the model has finished. If the client disconnects
+// the rest of the reply is still read from the provider, so the turn is saved.
+function persistAssistantTurn(
+  body: ReadableStream<Uint8Array>,
+  supabaseClient: ReturnType<typeof createClient>,
+  conversationId: string,
+  mode: string,
+  requestId: string,
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let content = "";
+  let saved = false;
+
+  const collect = (line: string) => {
+    if (!line.startsWith("data: ")) return;
+    const jsonStr = line.slice(6).trim();
+    if (jsonStr === "[DONE]") return;
+    try {
+      const delta = JSON.parse(jsonStr).choices?.[0]?.delta?.content;
+      if (typeof delta === "string") content += delta;
+    } catch {
+      // Partial or non-JSON lines are ignored; the client gets them unchanged
+    }
+  };
+
+  const consume = (chunk: Uint8Array) => {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(line => collect(line.replace(/\r$/, "")));
+  };
+
+  const save = async () => {
+    if (saved) return;
+    saved = true;
+    collect(buffer.replace(/\r$/, ""));
+    if (!content) return;
+
+    const { error } = await supabaseClient.from("messages").insert({
+      conversation_id: conversationId,
+      role: "assistant",
+      content,
+      mode,
+    });
+    if (error) {
+      console.error(`[${requestId}] Failed to save assistant message`);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          await save();
+          return;
+        }
+        consume(value);
+        controller.enqueue(value);
+      } catch (error) {
+        // Keep whatever arrived before the provider failed
+        await save();
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          consume(value);
+        }
+      } catch {
+        console.warn(`[${requestId}] Provider stream ended early after client disconnect`);
+      }
+      await save();
+    },
+  });
+}
+
+// Assembles what the companion remembers: durable facts about the user and, in
+// a saved conversation, its rolling summary. Both are maintained by
+// summarize-conversation, so nothing here comes from the client.
+async function loadLongTermMemory(
+  supabaseClient: ReturnType<typeof createClient>,
+  userId: string,
+  conversationId: string | null,
+  requestId: string,
+): Promise<string> {
+  const [factsResult, conversationResult] = await Promise.all([
+    supabaseClient
+      .from("user_facts")
+      .select("category, content")
+      .eq("user_id", userId)
+      .order("category")
+      .limit(30),
+    conversationId
+      ? supabaseClient
+          .from("conversations")
+          .select("summary")
+          .eq("id", conversationId)
+          .maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+  ]);
+
+  if (factsResult.error || conversationResult.error) {
+    console.warn(`[${requestId}] Could not load long-term memory`);
+    return "";
+  }
+
+  let memory = "";
+  const facts = (factsResult.data || []) as { category: string; content: string }[];
+  if (facts.length > 0) {
+    memory += `\n\nWhat you know about the user from previous conversations (use naturally, don't recite):\n${facts.map(f => `- ${f.content}`).join("\n")}`;
+  }
+
+  const summary = (conversationResult.data as { summary: string | null } | null)?.summary;
+  if (summary) {
+    memory += `\n\nSummary of this conversation so far: ${summary}`;
+  }
+
+  return memory;
+}
+
 serve(async (req) => {
   const corsHeaders = getCorsHeaders(req);
   
@@ -128,9 +303,10 @@ serve(async (req) => {
     // Optional authentication: allow guests (no Authorization header)
     const authHeader = req.headers.get("Authorization");
     let user: any = null;
+    let supabaseClient: ReturnType<typeof createClient> | null = null;
 
     if (authHeader) {
-      const supabaseClient = createClient(
+      supabaseClient = createClient(
         Deno.env.get("SUPABASE_URL") ?? "",
         Deno.env.get("SUPABASE_ANON_KEY") ?? "",
         { global: { headers: { Authorization: authHeader } } }
@@ -144,43 +320,110 @@ serve(async (req) => {
 
     console.log(`[${requestId}] Processing chat request (${user ? "authed" : "guest"})`);
 
+    const rateLimit = await checkRateLimit(req, "chat", user?.id ?? null);
+    if (!rateLimit.allowed) {
+      console.log(`[${requestId}] Rate limited, retry after ${rateLimit.retryAfter}s`);
+      return new Response(JSON.stringify({
+        error: `Too many messages. Please try again in ${rateLimit.retryAfter} seconds.`,
+        retryAfter: rateLimit.retryAfter,
+      }), {
+        status: 429,
+        headers: { ...corsHeaders, ...rateLimit.headers, "Content-Type": "application/json" },
+      });
+    }
+
     const body = await req.json();
-    const { messages, mode = "friend", userName, conversationContext } = body;
+    const { messages, message, mode = "friend", userName, conversationId, instructions } = body;
 
-    // Input validation
-    if (!Array.isArray(messages) || messages.length === 0) {
-      return new Response(JSON.stringify({ error: "Messages must be a non-empty array" }), {
+    // Task instructions from the page (interview setup, examiner role, search
+    // assistant) go into the system prompt below rather than into the messages
+    if (instructions !== undefined && instructions !== null &&
+        (typeof instructions !== "string" || instructions.length > MAX_INSTRUCTIONS_LENGTH)) {
+      return new Response(JSON.stringify({ error: `Invalid instructions (max ${MAX_INSTRUCTIONS_LENGTH} chars)` }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    if (messages.length > 100) {
-      return new Response(JSON.stringify({ error: "Too many messages (max 100)" }), {
+    if (conversationId !== undefined && conversationId !== null &&
+        (typeof conversationId !== "string" || !/^[0-9a-f-]{36}$/i.test(conversationId))) {
+      return new Response(JSON.stringify({ error: "Invalid conversationId" }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    for (const msg of messages) {
-      if (!msg.content || typeof msg.content !== "string") {
-        return new Response(JSON.stringify({ error: "Invalid message format" }), {
+    // Conversation-aware requests send only the new turn; history comes from the database
+    let chatMessages: ChatMessage[];
+
+    if (conversationId) {
+      if (!user || !supabaseClient) {
+        return new Response(JSON.stringify({ error: "Sign in to continue a saved conversation" }), {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      if (!message || typeof message !== "string") {
+        return new Response(JSON.stringify({ error: "Message must be a non-empty string" }), {
           status: 400,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
-      if (msg.content.length > 10000) {
+      if (message.length > 10000) {
         return new Response(JSON.stringify({ error: "Message too long (max 10000 chars)" }), {
           status: 400,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
-      if (msg.role && !["user", "assistant", "system"].includes(msg.role)) {
-        return new Response(JSON.stringify({ error: "Invalid message role" }), {
+
+      const history = await loadHistory(supabaseClient, conversationId);
+      if (!history) {
+        return new Response(JSON.stringify({ error: "Conversation not found" }), {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      chatMessages = [...history, { role: "user", content: message }];
+    } else {
+      // Input validation
+      if (!Array.isArray(messages) || messages.length === 0) {
+        return new Response(JSON.stringify({ error: "Messages must be a non-empty array" }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      if (messages.length > 100) {
+        return new Response(JSON.stringify({ error: "Too many messages (max 100)" }), {
           status: 400,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
+
+      for (const msg of messages) {
+        if (!msg.content || typeof msg.content !== "string") {
+          return new Response(JSON.stringify({ error: "Invalid message format" }), {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        if (msg.content.length > 10000) {
+          return new Response(JSON.stringify({ error: "Message too long (max 10000 chars)" }), {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        if (msg.role !== "user" && msg.role !== "assistant") {
+          return new Response(JSON.stringify({ error: "Invalid message role" }), {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+      }
+
+      chatMessages = messages.map((msg: ChatMessage) => ({ role: msg.role, content: msg.content }));
     }
 
     if (userName && (typeof userName !== "string" || userName.length > 100)) {
@@ -190,15 +433,6 @@ serve(async (req) => {
       });
     }
 
-    // Safely trim conversationContext if too long (keep last 1000 chars for most recent context)
-    let safeConversationContext = conversationContext;
-    if (conversationContext && typeof conversationContext === "string" && conversationContext.length > 1000) {
-      safeConversationContext = conversationContext.slice(-1000);
-      console.log(`[${requestId}] Trimmed conversationContext from ${conversationContext.length} to 1000 chars`);
-    } else if (conversationContext && typeof conversationContext !== "string") {
-      safeConversationContext = "";
-    }
-
     const validModes = ["friend", "interviewer", "mentor", "studybuddy", "therapist", "language"];
     if (mode && !validModes.includes(mode)) {
       return new Response(JSON.stringify({ error: "Invalid mode" }), {
@@ -207,17 +441,18 @@ serve(async (req) => {
       });
     }
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      console.error(`[${requestId}] Configuration error: API key missing`);
+    let llm: LLMConfig;
+    try {
+      llm = resolveLLMConfig(mode);
+    } catch (configError) {
+      console.error(`[${requestId}] Configuration error: ${configError instanceof Error ? configError.message : "LLM provider"}`);
       throw new Error("Service configuration error");
     }
 
     const systemPrompt = modePrompts[mode as keyof typeof modePrompts] || modePrompts.friend;
     
     // Detect emotion from the latest user message
-    const latestUserMessage = messages.filter((m: any) => m.role === "user").pop()?.content || "";
+    const latestUserMessage = chatMessages.filter((m) => m.role === "user").pop()?.content || "";
     const detectedEmotion = detectEmotion(latestUserMessage);
     const emotionalAdjustment = getEmotionalAdjustment(detectedEmotion);
     
@@ -226,32 +461,24 @@ serve(async (req) => {
     if (userName) {
       memoryContext += `\n\nThe user's name is ${userName}. Use their name occasionally (but not every message) to make the conversation more personal.`;
     }
-    if (safeConversationContext) {
-      memoryContext += `\n\nContext from earlier in this conversation: ${safeConversationContext}`;
+    if (user && supabaseClient) {
+      memoryContext += await loadLongTermMemory(supabaseClient, user.id, conversationId ?? null, requestId);
     }
 
-    const enhancedSystemPrompt = systemPrompt + memoryContext + emotionalAdjustment;
+    const taskInstructions = instructions
+      ? `\n\nInstructions for this chat (these take precedence over the style guidance above):\n${instructions}`
+      : "";
+    const enhancedSystemPrompt = systemPrompt + taskInstructions + memoryContext + emotionalAdjustment;
 
-    console.log(`[${requestId}] Mode: ${mode}, Messages: ${messages.length}`);
+    console.log(`[${requestId}] Mode: ${mode}, Provider: ${llm.provider}, Messages: ${chatMessages.length}${conversationId ? " (from history)" : ""}`);
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: enhancedSystemPrompt },
-          ...messages,
-        ],
-        stream: true,
-      }),
-    });
+    const response = await streamChatCompletion(llm, [
+      { role: "system", content: enhancedSystemPrompt },
+      ...chatMessages,
+    ]);
 
     if (!response.ok) {
-      console.error(`[${requestId}] AI gateway error: ${response.status}`);
+      console.error(`[${requestId}] LLM provider error: ${response.status}`);
       
       if (response.status === 429) {
         return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }), {
@@ -272,11 +499,30 @@ serve(async (req) => {
       });
     }
 
+    let responseBody = response.body;
+
+    if (conversationId && supabaseClient && response.body) {
+      // Only store the user turn once the model has accepted the request
+      const { error: insertError } = await supabaseClient.from("messages").insert({
+        conversation_id: conversationId,
+        role: "user",
+        content: latestUserMessage,
+        emotional_tone: detectedEmotion,
+        mode,
+      });
+      if (insertError) {
+        console.error(`[${requestId}] Failed to save user message`);
+      }
+
+      responseBody = persistAssistantTurn(response.body, supabaseClient, conversationId, mode, requestId);
+    }
+
     console.log(`[${requestId}] Streaming response`);
 
-    return new Response(response.body, {
+    return new Response(responseBody, {
       headers: { 
         ...corsHeaders, 
+        ...rateLimit.headers,
         "Content-Type": "text/event-stream",
         "X-Detected-Emotion": detectedEmotion,
       },
@@ -0,0 +1,237 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { checkRateLimit } from "../_shared/rateLimit.ts";
+import { completeValidatedJSON, resolveLLMConfig, type LLMConfig, type LLMMessage } from "../_shared/llm.ts";
+
+// Dynamic CORS configuration - restrict origins in production
+const getAllowedOrigin = (requestOrigin: string | null): string => {
+  const allowedOrigins = [
+    Deno.env.get("ALLOWED_ORIGIN") || "",
+    "https://lovable.dev",
+    "https://gptengineer.app",
+  ].filter(Boolean);
+
+  // In production, validate against allowed origins list
+  if (requestOrigin && allowedOrigins.some(allowed => requestOrigin.startsWith(allowed.replace(/\/$/, '')))) {
+    return requestOrigin;
+  }
+
+  // Fallback for development - if ALLOWED_ORIGIN not set, use request origin
+  if (!Deno.env.get("ALLOWED_ORIGIN") && requestOrigin) {
+    return requestOrigin;
+  }
+
+  return allowedOrigins[0] || "*";
+};
+
+const getCorsHeaders = (req: Request) => ({
+  "Access-Control-Allow-Origin": getAllowedOrigin(req.headers.get("Origin")),
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Credentials": "true",
+});
+
+// Longer interviews are sent in batches (MAX_ANSWERS_PER_EVALUATION in src/lib/interviewScoring.ts)
+const MAX_ANSWERS = 15;
+
+const rubricPrompt = `You are a hiring panel scoring mock interview answers against a fixed rubric. Score every answer independently on each criterion from 0 to 4:
+
+- relevance: 0 = off-topic, 2 = partly answers the question, 4 = answers exactly what was asked
+- star: 0 = no structure, 2 = some of Situation/Task/Action/Result, 4 = all four clearly present (for purely technical questions, judge whether the reasoning is laid out step by step)
+- specificity: 0 = generic claims only, 2 = some concrete detail, 4 = names concrete projects, tools, decisions and the candidate's own role
+- technical: 0 = incorrect or no relevant skill shown, 2 = basic but correct, 4 = accurate and deep use of the role's required skills
+
+For every score, "evidence" must be copied EXACTLY from the candidate's answer (at most 25 words) and be the passage that justifies the score. Use "" when nothing in the answer supports the criterion. Be strict and consistent: identical answers must receive identical scores.`;
+
+const criterionScore = z.object({
+  score: z.coerce.number().int().min(0).max(4),
+  evidence: z.string().max(400).default(""),
+});
+
+const rubricItem = z.object({
+  relevance: criterionScore,
+  star: criterionScore,
+  specificity: criterionScore,
+  technical: criterionScore,
+});
+
+const rubricSchema = z.object({ items: z.array(rubricItem) });
+
+// Per-answer coaching adds a model answer and a one-line tip to each item
+const feedbackSchema = z.object({
+  items: z.array(rubricItem.extend({
+    modelAnswer: z.string().min(1).max(1500),
+    tip: z.string().min(1).max(250),
+  })),
+});
+
+const rubricShape = `{ "items": [{ "relevance": { "score": 0-4, "evidence": string }, "star": { ... }, "specificity": { ... }, "technical": { ... } }] } (one item per answer, in order)`;
+
+const feedbackShape = `{ "items": [{ "relevance": { "score": 0-4, "evidence": string }, "star": { ... }, "specificity": { ... }, "technical": { ... }, "modelAnswer": string, "tip": string }] } (one item per answer, in order)`;
+
+const feedbackPrompt = `Also coach the candidate on every answer:
+- modelAnswer: a strong answer to the same question for this role, 4-6 sentences, first person, following STAR where it fits and including one measurable result
+- tip: ONE sentence naming the single change that would most improve the candidate's answer`;
+
+// Numbers with a unit of impact: percentages, money, counts of people or time saved
+const IMPACT_PATTERN = /([$€£₹]\s?\d[\d,.]*\s?(k|m|bn|million|billion)?|\b\d[\d,.]*\s?(%|percent|x\b|k\b|million|billion|users|customers|clients|people|hours|days|weeks|months|ms|seconds))/gi;
+
+// Quantified impact is counted rather than judged, so it never varies between runs
+const scoreImpact = (answer: string) => {
+  const matches = Array.from(answer.matchAll(IMPACT_PATTERN));
+  if (matches.length === 0) return { score: 0, evidence: "" };
+
+  const first = matches[0].index ?? 0;
+  const sentenceStart = Math.max(answer.lastIndexOf(".", first) + 1, 0);
+  const sentenceEnd = answer.indexOf(".", first + matches[0][0].length);
+  const evidence = answer.slice(sentenceStart, sentenceEnd === -1 ? undefined : sentenceEnd + 1).trim().slice(0, 300);
+
+  return { score: Math.min(4, matches.length + 1), evidence };
+};
+
+// Keep only excerpts that really occur in the answer, returned as written there
+const verifyEvidence = (answer: string, evidence: string): string => {
+  const quote = evidence.trim().replace(/^["“']|["”']$/g, "");
+  if (!quote) return "";
+  const index = answer.toLowerCase().indexOf(quote.toLowerCase());
+  return index === -1 ? "" : answer.slice(index, index + quote.length);
+};
+
+serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Log request ID for correlation (no PII)
+    const requestId = crypto.randomUUID().slice(0, 8);
+
+    // Optional authentication: allow guests (no Authorization header)
+    const authHeader = req.headers.get("Authorization");
+    let user: { id: string } | null = null;
+
+    if (authHeader) {
+      const supabaseClient = createClient(
+        Deno.env.get("SUPABASE_URL") ?? "",
+        Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+        { global: { headers: { Authorization: authHeader } } }
+      );
+
+      const { data, error } = await supabaseClient.auth.getUser();
+      if (!error) {
+        user = data.user;
+      }
+    }
+
+    const rateLimit = await checkRateLimit(req, "evaluate-interview", user?.id ?? null);
+    if (!rateLimit.allowed) {
+      console.log(`[${requestId}] Rate limited, retry after ${rateLimit.retryAfter}s`);
+      return new Response(JSON.stringify({
+        error: `Too many interview evaluations. Please try again in ${rateLimit.retryAfter} seconds.`,
+        retryAfter: rateLimit.retryAfter,
+      }), {
+        status: 429,
+        headers: { ...corsHeaders, ...rateLimit.headers, "Content-Type": "application/json" },
+      });
+    }
+
+    const { role, experienceLevel, skills, answers, feedback } = await req.json();
+
+    // Input validation
+    if (!role || typeof role !== "string" || role.length > 200) {
+      return new Response(JSON.stringify({ error: "Invalid role (max 200 chars)" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (skills !== undefined && (!Array.isArray(skills) || skills.length > 30 || skills.some((s: unknown) => typeof s !== "string" || s.length > 100))) {
+      return new Response(JSON.stringify({ error: "Skills must be at most 30 short strings" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const validAnswers = Array.isArray(answers) && answers.length > 0 && answers.length <= MAX_ANSWERS && answers.every(
+      (a: { question?: unknown; answer?: unknown }) =>
+        typeof a?.question === "string" && a.question.length <= 2000
+        && typeof a?.answer === "string" && a.answer.trim().length > 0 && a.answer.length <= 5000
+    );
+    if (!validAnswers) {
+      return new Response(JSON.stringify({ error: `Answers must be 1-${MAX_ANSWERS} question/answer pairs (answers max 5000 chars)` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    let llm: LLMConfig;
+    try {
+      llm = resolveLLMConfig("interviewer");
+    } catch (configError) {
+      console.error(`[${requestId}] Configuration error: ${configError instanceof Error ? configError.message : "LLM provider"}`);
+      throw new Error("Service configuration error");
+    }
+
+    const pairs = answers as { question: string; answer: string }[];
+    const withFeedback = feedback === true;
+    const schema = withFeedback ? feedbackSchema : rubricSchema;
+    const shape = withFeedback ? feedbackShape : rubricShape;
+    console.log(`[${requestId}] Interview evaluation: ${pairs.length} answers${withFeedback ? " with feedback" : ""} (${user ? "authed" : "guest"})`);
+
+    const messages: LLMMessage[] = [
+      {
+        role: "system",
+        content: `${rubricPrompt}${withFeedback ? `\n\n${feedbackPrompt}` : ""}\n\nRespond with a single JSON object and nothing else. It must match this shape exactly:\n${shape}`,
+      },
+      {
+        role: "user",
+        content: `Role: ${role}${experienceLevel && typeof experienceLevel === "string" ? ` (${experienceLevel.slice(0, 40)} level)` : ""}
+Required skills: ${(skills as string[] | undefined)?.join(", ") || "not specified"}
+
+${pairs.map((p, i) => `Answer ${i + 1}\nQuestion: ${p.question}\nCandidate: ${p.answer}`).join("\n\n")}`,
+      },
+    ];
+
+    const result = await completeValidatedJSON(llm, messages, schema, {
+      shape,
+      requestId,
+      temperature: 0,
+      check: (data) => (data.items.length === pairs.length ? null : `expected ${pairs.length} items, one per answer`),
+    });
+
+    if (!result.ok) {
+      return new Response(JSON.stringify({ error: result.error, issues: result.issues }), {
+        status: result.status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const scored = result.data.items.map((item, index) => {
+      const answer = pairs[index].answer;
+      const withEvidence = (criterion: { score: number; evidence: string }) => ({
+        score: criterion.score,
+        evidence: verifyEvidence(answer, criterion.evidence),
+      });
+      return {
+        relevance: withEvidence(item.relevance),
+        star: withEvidence(item.star),
+        specificity: withEvidence(item.specificity),
+        impact: scoreImpact(answer),
+        technical: withEvidence(item.technical),
+        ...("modelAnswer" in item && "tip" in item ? { modelAnswer: item.modelAnswer, tip: item.tip } : {}),
+      };
+    });
+
+    return new Response(JSON.stringify({ answers: scored }), {
+      headers: { ...corsHeaders, ...rateLimit.headers, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Evaluate interview function error:", error instanceof Error ? error.message : "Unknown");
+    return new Response(JSON.stringify({ error: "Service temporarily unavailable" }), {
+      status: 500,
+      headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
+    });
+  }
+});
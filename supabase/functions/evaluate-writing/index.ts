@@ -0,0 +1,261 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { checkRateLimit } from "../_shared/rateLimit.ts";
+import { completeValidatedJSON, resolveLLMConfig, type LLMConfig } from "../_shared/llm.ts";
+
+// Dynamic CORS configuration - restrict origins in production
+const getAllowedOrigin = (requestOrigin: string | null): string => {
+  const allowedOrigins = [
+    Deno.env.get("ALLOWED_ORIGIN") || "",
+    "https://lovable.dev",
+    "https://gptengineer.app",
+  ].filter(Boolean);
+
+  // In production, validate against allowed origins list
+  if (requestOrigin && allowedOrigins.some(allowed => requestOrigin.startsWith(allowed.replace(/\/$/, '')))) {
+    return requestOrigin;
+  }
+
+  // Fallback for development - if ALLOWED_ORIGIN not set, use request origin
+  if (!Deno.env.get("ALLOWED_ORIGIN") && requestOrigin) {
+    return requestOrigin;
+  }
+
+  return allowedOrigins[0] || "*";
+};
+
+const getCorsHeaders = (req: Request) => ({
+  "Access-Control-Allow-Origin": getAllowedOrigin(req.headers.get("Origin")),
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Credentials": "true",
+});
+
+const annotationCategories = ["grammar", "vocabulary", "spelling", "punctuation", "cohesion", "task"];
+
+const examinerPrompt = (task: number) => `You are a certified IELTS Writing examiner. Assess the candidate's Task ${task} response strictly against the public IELTS band descriptors.
+
+Score each criterion from 0 to 9 in half bands:
+- ${task === 1 ? "Task Achievement" : "Task Response"}
+- Coherence & Cohesion
+- Lexical Resource
+- Grammatical Range & Accuracy
+
+${task === 1 ? `When the data behind the visual is provided, check every figure, trend and comparison the candidate reports against it. Misreported figures and missing key features lower Task Achievement; annotate each misreported figure with category "task" and give the correct value in the suggestion.
+
+` : ""}Then list specific errors. For every error, "quote" must be copied EXACTLY from the essay (same spelling, casing and punctuation) and be as short as possible while still unique. Give a short explanation and a suggested rewrite of the quoted text. Report at most 25 errors, in the order they appear.`;
+
+const assessmentShape = `{
+  "taskAchievement": number, "taskAchievementComment": string,
+  "coherenceCohesion": number, "coherenceCohesionComment": string,
+  "lexicalResource": number, "lexicalResourceComment": string,
+  "grammaticalRange": number, "grammaticalRangeComment": string,
+  "summary": string,
+  "annotations": [{ "quote": string, "category": "${annotationCategories.join("|")}", "explanation": string, "suggestion": string }]
+}`;
+
+// Bands are clamped to half bands afterwards, so the schema only checks the shape
+const criterionBand = z.coerce.number();
+
+const assessmentSchema = z.object({
+  taskAchievement: criterionBand,
+  taskAchievementComment: z.string(),
+  coherenceCohesion: criterionBand,
+  coherenceCohesionComment: z.string(),
+  lexicalResource: criterionBand,
+  lexicalResourceComment: z.string(),
+  grammaticalRange: criterionBand,
+  grammaticalRangeComment: z.string(),
+  summary: z.string(),
+  annotations: z.array(z.object({
+    quote: z.string(),
+    category: z.string(),
+    explanation: z.string(),
+    suggestion: z.string(),
+  })).max(40),
+});
+
+const toHalfBand = (value: unknown): number => {
+  const num = typeof value === "number" ? value : parseFloat(String(value));
+  if (!Number.isFinite(num)) return 0;
+  return Math.min(9, Math.max(0, Math.round(num * 2) / 2));
+};
+
+// IELTS rounds the criteria mean down to the nearest half band for Writing
+const overallFromCriteria = (bands: number[]): number => {
+  const mean = bands.reduce((sum, band) => sum + band, 0) / bands.length;
+  return Math.floor(mean * 2 + 1e-9) / 2;
+};
+
+// Resolve quoted error text to character offsets in the essay. Quotes are searched
+// forward from the previous match so repeated phrases land on the right occurrence.
+const resolveAnnotations = (essay: string, raw: z.infer<typeof assessmentSchema>["annotations"]) => {
+  const resolved: { start: number; end: number; text: string; category: string; explanation: string; suggestion: string }[] = [];
+  let cursor = 0;
+
+  for (const item of raw) {
+    const quote = typeof item?.quote === "string" ? item.quote.trim() : "";
+    if (!quote) continue;
+
+    let start = essay.indexOf(quote, cursor);
+    if (start === -1) start = essay.indexOf(quote);
+    if (start === -1) {
+      const lowerStart = essay.toLowerCase().indexOf(quote.toLowerCase());
+      if (lowerStart === -1) continue;
+      start = lowerStart;
+    }
+    const end = start + quote.length;
+
+    // Skip spans that overlap an earlier annotation
+    if (resolved.some(a => start < a.end && end > a.start)) continue;
+
+    resolved.push({
+      start,
+      end,
+      text: essay.slice(start, end),
+      category: annotationCategories.includes(item.category) ? item.category : "grammar",
+      explanation: String(item.explanation || "").slice(0, 500),
+      suggestion: String(item.suggestion || "").slice(0, 500),
+    });
+    cursor = end;
+  }
+
+  return resolved.sort((a, b) => a.start - b.start);
+};
+
+serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Log request ID for correlation (no PII)
+    const requestId = crypto.randomUUID().slice(0, 8);
+
+    // Optional authentication: allow guests (no Authorization header)
+    const authHeader = req.headers.get("Authorization");
+    let user: { id: string } | null = null;
+
+    if (authHeader) {
+      const supabaseClient = createClient(
+        Deno.env.get("SUPABASE_URL") ?? "",
+        Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+        { global: { headers: { Authorization: authHeader } } }
+      );
+
+      const { data, error } = await supabaseClient.auth.getUser();
+      if (!error) {
+        user = data.user;
+      }
+    }
+
+    console.log(`[${requestId}] Processing writing evaluation (${user ? "authed" : "guest"})`);
+
+    const rateLimit = await checkRateLimit(req, "evaluate-writing", user?.id ?? null);
+    if (!rateLimit.allowed) {
+      console.log(`[${requestId}] Rate limited, retry after ${rateLimit.retryAfter}s`);
+      return new Response(JSON.stringify({
+        error: `Too many writing evaluations. Please try again in ${rateLimit.retryAfter} seconds.`,
+        retryAfter: rateLimit.retryAfter,
+      }), {
+        status: 429,
+        headers: { ...corsHeaders, ...rateLimit.headers, "Content-Type": "application/json" },
+      });
+    }
+
+    const { task, prompt, essay, chartData } = await req.json();
+
+    // Input validation
+    if (task !== 1 && task !== 2) {
+      return new Response(JSON.stringify({ error: "Task must be 1 or 2" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!prompt || typeof prompt !== "string" || prompt.length > 3000) {
+      return new Response(JSON.stringify({ error: "Invalid prompt (max 3000 chars)" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!essay || typeof essay !== "string" || essay.trim().length === 0) {
+      return new Response(JSON.stringify({ error: "Essay must be a non-empty string" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (chartData !== undefined && (typeof chartData !== "string" || chartData.length > 4000)) {
+      return new Response(JSON.stringify({ error: "Invalid chartData (max 4000 chars)" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (essay.length > 10000) {
+      return new Response(JSON.stringify({ error: "Essay too long (max 10000 chars)" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    let llm: LLMConfig;
+    try {
+      llm = resolveLLMConfig("studybuddy");
+    } catch (configError) {
+      console.error(`[${requestId}] Configuration error: ${configError instanceof Error ? configError.message : "LLM provider"}`);
+      throw new Error("Service configuration error");
+    }
+
+    const wordCount = essay.trim().split(/\s+/).length;
+
+    const result = await completeValidatedJSON(llm, [
+      {
+        role: "system",
+        content: `${examinerPrompt(task)}\n\nRespond with a single JSON object and nothing else. It must match this shape exactly:\n${assessmentShape}`,
+      },
+      { role: "user", content: `Task prompt:\n${prompt}\n\n${task === 1 && chartData ? `Data shown in the visual:\n${chartData}\n\n` : ""}Candidate response (${wordCount} words):\n${essay}` },
+    ], assessmentSchema, { shape: assessmentShape, requestId });
+
+    if (!result.ok) {
+      return new Response(JSON.stringify({ error: result.error, issues: result.issues }), {
+        status: result.status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const args = result.data;
+
+    const criteria = {
+      taskAchievement: { band: toHalfBand(args.taskAchievement), comment: String(args.taskAchievementComment || "") },
+      coherenceCohesion: { band: toHalfBand(args.coherenceCohesion), comment: String(args.coherenceCohesionComment || "") },
+      lexicalResource: { band: toHalfBand(args.lexicalResource), comment: String(args.lexicalResourceComment || "") },
+      grammaticalRange: { band: toHalfBand(args.grammaticalRange), comment: String(args.grammaticalRangeComment || "") },
+    };
+
+    const annotations = resolveAnnotations(essay, args.annotations);
+
+    console.log(`[${requestId}] Evaluation complete, ${annotations.length} annotations`);
+
+    return new Response(JSON.stringify({
+      task,
+      wordCount,
+      criteria,
+      overallBand: overallFromCriteria(Object.values(criteria).map(c => c.band)),
+      summary: String(args.summary || ""),
+      annotations,
+    }), {
+      headers: { ...corsHeaders, ...rateLimit.headers, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Evaluate writing function error:", error instanceof Error ? error.message : "Unknown");
+    return new Response(JSON.stringify({ error: "Service temporarily unavailable" }), {
+      status: 500,
+      headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
+    });
+  }
+});
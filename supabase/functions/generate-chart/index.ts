@@ -0,0 +1,218 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { checkRateLimit } from "../_shared/rateLimit.ts";
+import { completeValidatedJSON, resolveLLMConfig, type LLMConfig, type LLMMessage } from "../_shared/llm.ts";
+
+// Dynamic CORS configuration - restrict origins in production
+const getAllowedOrigin = (requestOrigin: string | null): string => {
+  const allowedOrigins = [
+    Deno.env.get("ALLOWED_ORIGIN") || "",
+    "https://lovable.dev",
+    "https://gptengineer.app",
+  ].filter(Boolean);
+
+  // In production, validate against allowed origins list
+  if (requestOrigin && allowedOrigins.some(allowed => requestOrigin.startsWith(allowed.replace(/\/$/, '')))) {
+    return requestOrigin;
+  }
+
+  // Fallback for development - if ALLOWED_ORIGIN not set, use request origin
+  if (!Deno.env.get("ALLOWED_ORIGIN") && requestOrigin) {
+    return requestOrigin;
+  }
+
+  return allowedOrigins[0] || "*";
+};
+
+const getCorsHeaders = (req: Request) => ({
+  "Access-Control-Allow-Origin": getAllowedOrigin(req.headers.get("Origin")),
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Credentials": "true",
+});
+
+const chartTypes = ["bar", "line", "pie", "table", "process", "map"] as const;
+
+// The client draws the visual from this spec, so the figures shown, the task
+// prompt and the data the examiner checks against always agree.
+const chartSpecSchema = z.object({
+  type: z.enum(chartTypes),
+  title: z.string().min(1).max(160),
+  description: z.string().min(1).max(600),
+  unit: z.string().max(40).default(""),
+  categories: z.array(z.coerce.string().min(1)).max(12).default([]),
+  series: z.array(z.object({
+    name: z.coerce.string().min(1).max(60),
+    values: z.array(z.coerce.number().finite()),
+  })).max(6).default([]),
+  steps: z.array(z.string().min(1).max(200)).max(12).default([]),
+  maps: z.array(z.object({
+    label: z.coerce.string().min(1).max(40),
+    features: z.array(z.string().min(1).max(160)).min(2).max(12),
+  })).max(2).default([]),
+}).superRefine((spec, ctx) => {
+  if (spec.type === "process") {
+    if (spec.steps.length < 4) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["steps"], message: "process diagrams need at least 4 steps" });
+    }
+    return;
+  }
+
+  if (spec.type === "map") {
+    if (spec.maps.length !== 2) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["maps"], message: "maps need exactly 2 snapshots (before and after)" });
+    }
+    return;
+  }
+
+  if (spec.categories.length < 2) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["categories"], message: "need at least 2 categories" });
+  }
+  if (spec.series.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["series"], message: "need at least 1 series" });
+  }
+
+  spec.series.forEach((series, index) => {
+    if (series.values.length !== spec.categories.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["series", index, "values"],
+        message: `expected ${spec.categories.length} values, one per category`,
+      });
+    }
+
+    if (spec.type === "pie") {
+      const total = series.values.reduce((sum, value) => sum + value, 0);
+      if (Math.abs(total - 100) > 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["series", index, "values"],
+          message: `pie percentages must add up to 100 (got ${total})`,
+        });
+      }
+    }
+  });
+});
+
+const specShape = `{
+  "type": "bar|line|pie|table|process|map",
+  "title": string,
+  "description": string (one sentence: "The <visual> shows ..."),
+  "unit": string (e.g. "%", "millions", "tonnes"; "" for process and map),
+  "categories": string[] (x-axis labels or table columns, e.g. years; for pie the segment labels),
+  "series": [{ "name": string, "values": number[] (one per category) }] (for pie, one series per pie and values are percentages adding up to 100),
+  "steps": string[] (process only, in order),
+  "maps": [{ "label": string, "features": string[] }] (map only, exactly two snapshots such as "1990" and "2020")
+}`;
+
+const chartInstructions: Record<(typeof chartTypes)[number], string> = {
+  bar: "a bar chart comparing 3-5 groups across 3-6 categories or years",
+  line: "a line graph with 2-4 lines over 5-8 points in time",
+  pie: "one or two pie charts (e.g. two years) with 4-6 segments each",
+  table: "a table with 3-6 rows and 3-5 columns of figures",
+  process: "a process diagram with 5-8 stages",
+  map: "two maps of the same place at different dates, listing what is where",
+};
+
+serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Log request ID for correlation (no PII)
+    const requestId = crypto.randomUUID().slice(0, 8);
+
+    // Optional authentication: allow guests (no Authorization header)
+    const authHeader = req.headers.get("Authorization");
+    let user: { id: string } | null = null;
+
+    if (authHeader) {
+      const supabaseClient = createClient(
+        Deno.env.get("SUPABASE_URL") ?? "",
+        Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+        { global: { headers: { Authorization: authHeader } } }
+      );
+
+      const { data, error } = await supabaseClient.auth.getUser();
+      if (!error) {
+        user = data.user;
+      }
+    }
+
+    const rateLimit = await checkRateLimit(req, "generate-chart", user?.id ?? null);
+    if (!rateLimit.allowed) {
+      console.log(`[${requestId}] Rate limited, retry after ${rateLimit.retryAfter}s`);
+      return new Response(JSON.stringify({
+        error: `Too many chart requests. Please try again in ${rateLimit.retryAfter} seconds.`,
+        retryAfter: rateLimit.retryAfter,
+      }), {
+        status: 429,
+        headers: { ...corsHeaders, ...rateLimit.headers, "Content-Type": "application/json" },
+      });
+    }
+
+    const { type, topic } = await req.json();
+
+    // Input validation
+    if (!chartTypes.includes(type)) {
+      return new Response(JSON.stringify({ error: `Chart type must be one of ${chartTypes.join(", ")}` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (topic !== undefined && (typeof topic !== "string" || topic.length > 1000)) {
+      return new Response(JSON.stringify({ error: "Invalid topic (max 1000 chars)" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    let llm: LLMConfig;
+    try {
+      llm = resolveLLMConfig("studybuddy");
+    } catch (configError) {
+      console.error(`[${requestId}] Configuration error: ${configError instanceof Error ? configError.message : "LLM provider"}`);
+      throw new Error("Service configuration error");
+    }
+
+    console.log(`[${requestId}] Chart generation: ${type} (${user ? "authed" : "guest"})`);
+
+    const messages: LLMMessage[] = [
+      {
+        role: "system",
+        content: `You are an IELTS examiner preparing the visual for an Academic Writing Task 1 question. Invent realistic, internally consistent data with clear trends and at least one notable comparison a candidate could report.\n\nRespond with a single JSON object and nothing else. It must match this shape exactly:\n${specShape}`,
+      },
+      {
+        role: "user",
+        content: `Create ${chartInstructions[type as (typeof chartTypes)[number]]}.${topic ? `\nTopic or task prompt to match: ${topic}` : " Choose a typical IELTS topic."}\nThe "type" field must be "${type}".`,
+      },
+    ];
+
+    const result = await completeValidatedJSON(llm, messages, chartSpecSchema, {
+      shape: specShape,
+      requestId,
+      check: (spec) => (spec.type === type ? null : `type must be "${type}"`),
+    });
+
+    if (!result.ok) {
+      return new Response(JSON.stringify({ error: result.error, issues: result.issues }), {
+        status: result.status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify({ data: result.data }), {
+      headers: { ...corsHeaders, ...rateLimit.headers, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Generate chart function error:", error instanceof Error ? error.message : "Unknown");
+    return new Response(JSON.stringify({ error: "Service temporarily unavailable" }), {
+      status: 500,
+      headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,302 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { checkRateLimit } from "../_shared/rateLimit.ts";
+import { completeValidatedJSON, resolveLLMConfig, type LLMConfig, type LLMMessage } from "../_shared/llm.ts";
+
+// Dynamic CORS configuration - restrict origins in production
+const getAllowedOrigin = (requestOrigin: string | null): string => {
+  const allowedOrigins = [
+    Deno.env.get("ALLOWED_ORIGIN") || "",
+    "https://lovable.dev",
+    "https://gptengineer.app",
+  ].filter(Boolean);
+
+  // In production, validate against allowed origins list
+  if (requestOrigin && allowedOrigins.some(allowed => requestOrigin.startsWith(allowed.replace(/\/$/, '')))) {
+    return requestOrigin;
+  }
+
+  // Fallback for development - if ALLOWED_ORIGIN not set, use request origin
+  if (!Deno.env.get("ALLOWED_ORIGIN") && requestOrigin) {
+    return requestOrigin;
+  }
+
+  return allowedOrigins[0] || "*";
+};
+
+const getCorsHeaders = (req: Request) => ({
+  "Access-Control-Allow-Origin": getAllowedOrigin(req.headers.get("Origin")),
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Credentials": "true",
+});
+
+const band = z.coerce.number().min(0).max(9);
+
+const questionSchema = z.object({
+  id: z.coerce.string(),
+  type: z.string(),
+  passage: z.string().optional(),
+  question: z.string().min(1),
+  options: z.array(z.coerce.string()).optional(),
+  correctAnswer: z.coerce.string().min(1),
+});
+
+const schreibenErrorCategories = [
+  "Kasus", "Verbstellung", "Genus", "Konjugation", "Präposition",
+  "Artikel", "Rechtschreibung", "Zeichensetzung", "Wortwahl", "Sonstiges",
+] as const;
+
+const criterionGrade = z.object({
+  grade: z.enum(["A", "B", "C", "D", "E"]),
+  comment: z.string(),
+});
+
+// Every schema the client may request, with a JSON shape hint for the model.
+// Array schemas are wrapped in { "items": [...] } because JSON mode requires an object.
+const schemas = {
+  activity: {
+    schema: z.object({
+      type: z.enum(["fill_blank", "choose_option", "translate", "yes_no", "type_sentence", "speaking"]),
+      instruction: z.string().min(1),
+      content: z.string().min(1),
+      options: z.array(z.coerce.string()).optional(),
+      correctAnswer: z.coerce.string().optional(),
+    }),
+    shape: `{ "type": "fill_blank|choose_option|translate|yes_no|type_sentence|speaking", "instruction": string, "content": string, "options"?: string[], "correctAnswer"?: string }`,
+    isArray: false,
+  },
+  ieltsQuestions: {
+    schema: z.array(questionSchema).min(1),
+    shape: `{ "items": [{ "id": string, "type": string, "passage"?: string, "question": string, "options"?: string[], "correctAnswer": string }] }`,
+    isArray: true,
+  },
+  goetheQuestions: {
+    schema: z.array(questionSchema).min(1),
+    shape: `{ "items": [{ "id": string, "type": string, "passage"?: string, "question": string, "options"?: string[], "correctAnswer": string }] }`,
+    isArray: true,
+  },
+  goetheListening: {
+    schema: z.object({
+      script: z.string().min(1).max(5000),
+      questions: z.array(questionSchema).min(1),
+    }),
+    shape: `{ "script": string, "questions": [{ "id": string, "type": string, "question": string, "options"?: string[], "correctAnswer": string }] }`,
+    isArray: false,
+  },
+  goetheWritingEvaluation: {
+    schema: z.object({
+      criteria: z.object({
+        erfuellung: criterionGrade,
+        kohaerenz: criterionGrade,
+        wortschatz: criterionGrade,
+        strukturen: criterionGrade,
+      }),
+      correctedText: z.string().min(1),
+      errors: z.array(z.object({
+        original: z.string(),
+        correction: z.string(),
+        category: z.enum(schreibenErrorCategories),
+        explanation: z.string(),
+      })),
+      summary: z.string(),
+    }),
+    shape: `{ "criteria": { "erfuellung": { "grade": "A|B|C|D|E", "comment": string }, "kohaerenz": {...}, "wortschatz": {...}, "strukturen": {...} }, "correctedText": string, "errors": [{ "original": string, "correction": string, "category": "${schreibenErrorCategories.join("|")}", "explanation": string }], "summary": string }`,
+    isArray: false,
+  },
+  jdAnalysis: {
+    schema: z.object({
+      role: z.string().min(1),
+      skills: z.array(z.string()),
+      responsibilities: z.array(z.string()),
+      experienceLevel: z.string(),
+      keywords: z.array(z.string()),
+    }),
+    shape: `{ "role": string, "skills": string[], "responsibilities": string[], "experienceLevel": "entry|mid|senior|executive", "keywords": string[] }`,
+    isArray: false,
+  },
+  resumeAnalysis: {
+    schema: z.object({
+      name: z.string().default(""),
+      roles: z.array(z.object({
+        title: z.string().min(1),
+        company: z.string().default(""),
+        startDate: z.string().default(""),
+        endDate: z.string().default(""),
+        highlights: z.array(z.string()).default([]),
+      })),
+      projects: z.array(z.object({
+        name: z.string().min(1),
+        description: z.string().default(""),
+        technologies: z.array(z.string()).default([]),
+        date: z.string().default(""),
+      })),
+      skills: z.array(z.string()),
+    }),
+    shape: `{ "name": string, "roles": [{ "title": string, "company": string, "startDate": "YYYY-MM" | "", "endDate": "YYYY-MM" | "present" | "", "highlights": string[] }], "projects": [{ "name": string, "description": string, "technologies": string[], "date": string }], "skills": string[] }`,
+    isArray: false,
+  },
+  resumeGapAnalysis: {
+    schema: z.object({
+      matchedSkills: z.array(z.string()),
+      missingSkills: z.array(z.string()),
+      gaps: z.array(z.object({
+        area: z.string().min(1),
+        detail: z.string().min(1),
+        probe: z.string().min(1),
+      })),
+    }),
+    shape: `{ "matchedSkills": string[], "missingSkills": string[], "gaps": [{ "area": string, "detail": string, "probe": string (one interview question that tests this gap) }] }`,
+    isArray: false,
+  },
+  ieltsFeedback: {
+    schema: z.object({
+      fluency: band,
+      vocabulary: band,
+      grammar: band,
+      pronunciation: band,
+      overallBand: band,
+      suggestion: z.string(),
+    }),
+    shape: `{ "fluency": number, "vocabulary": number, "grammar": number, "pronunciation": number, "overallBand": number, "suggestion": string } (bands 0-9)`,
+    isArray: false,
+  },
+  goetheSpeakingFeedback: {
+    schema: z.object({
+      pronunciation: z.coerce.number().min(0).max(5),
+      vocabulary: z.coerce.number().min(0).max(5),
+      grammar: z.coerce.number().min(0).max(5),
+      fluency: z.coerce.number().min(0).max(5),
+      passed: z.boolean(),
+      feedback: z.string(),
+    }),
+    shape: `{ "pronunciation": number, "vocabulary": number, "grammar": number, "fluency": number, "passed": boolean, "feedback": string } (scores 0-5)`,
+    isArray: false,
+  },
+  placementItems: {
+    schema: z.array(z.object({
+      question: z.string().min(1),
+      options: z.array(z.coerce.string()).min(3).max(4),
+      correctAnswer: z.coerce.string().min(1),
+    }).refine(item => item.options.includes(item.correctAnswer), {
+      message: "correctAnswer must be one of the options",
+    })).min(1),
+    shape: `{ "items": [{ "question": string, "options": string[] (3-4 choices), "correctAnswer": string (exactly one of options) }] }`,
+    isArray: true,
+  },
+};
+
+type SchemaName = keyof typeof schemas;
+
+serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Log request ID for correlation (no PII)
+    const requestId = crypto.randomUUID().slice(0, 8);
+
+    // Optional authentication: allow guests (no Authorization header)
+    const authHeader = req.headers.get("Authorization");
+    let user: { id: string } | null = null;
+
+    if (authHeader) {
+      const supabaseClient = createClient(
+        Deno.env.get("SUPABASE_URL") ?? "",
+        Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+        { global: { headers: { Authorization: authHeader } } }
+      );
+
+      const { data, error } = await supabaseClient.auth.getUser();
+      if (!error) {
+        user = data.user;
+      }
+    }
+
+    const rateLimit = await checkRateLimit(req, "generate-structured", user?.id ?? null);
+    if (!rateLimit.allowed) {
+      console.log(`[${requestId}] Rate limited, retry after ${rateLimit.retryAfter}s`);
+      return new Response(JSON.stringify({
+        error: `Too many generation requests. Please try again in ${rateLimit.retryAfter} seconds.`,
+        retryAfter: rateLimit.retryAfter,
+      }), {
+        status: 429,
+        headers: { ...corsHeaders, ...rateLimit.headers, "Content-Type": "application/json" },
+      });
+    }
+
+    const { schema, prompt, systemPrompt } = await req.json();
+
+    // Input validation
+    if (!schema || typeof schema !== "string" || !(schema in schemas)) {
+      return new Response(JSON.stringify({ error: "Unknown schema" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!prompt || typeof prompt !== "string" || prompt.length > 10000) {
+      return new Response(JSON.stringify({ error: "Invalid prompt (max 10000 chars)" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (systemPrompt && (typeof systemPrompt !== "string" || systemPrompt.length > 4000)) {
+      return new Response(JSON.stringify({ error: "Invalid systemPrompt (max 4000 chars)" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    let llm: LLMConfig;
+    try {
+      llm = resolveLLMConfig();
+    } catch (configError) {
+      console.error(`[${requestId}] Configuration error: ${configError instanceof Error ? configError.message : "LLM provider"}`);
+      throw new Error("Service configuration error");
+    }
+
+    const definition = schemas[schema as SchemaName];
+
+    console.log(`[${requestId}] Structured generation: ${schema} (${user ? "authed" : "guest"})`);
+
+    const messages: LLMMessage[] = [
+      {
+        role: "system",
+        content: `${systemPrompt ? systemPrompt + "\n\n" : ""}Respond with a single JSON object and nothing else. It must match this shape exactly:\n${definition.shape}`,
+      },
+      { role: "user", content: prompt },
+    ];
+
+    const result = await completeValidatedJSON(llm, messages, definition.schema, {
+      shape: definition.shape,
+      requestId,
+      // JSON mode only returns objects, so array schemas arrive wrapped in "items"
+      prepare: (candidate) =>
+        definition.isArray && candidate && typeof candidate === "object" && !Array.isArray(candidate)
+          ? (candidate as { items?: unknown }).items
+          : candidate,
+    });
+
+    if (!result.ok) {
+      return new Response(JSON.stringify({ error: result.error, issues: result.issues }), {
+        status: result.status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify({ data: result.data }), {
+      headers: { ...corsHeaders, ...rateLimit.headers, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Generate structured function error:", error instanceof Error ? error.message : "Unknown");
+    return new Response(JSON.stringify({ error: "Service temporarily unavailable" }), {
+      status: 500,
+      headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,215 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { completeValidatedJSON, resolveLLMConfig, type LLMConfig } from "../_shared/llm.ts";
+
+// Dynamic CORS configuration - restrict origins in production
+const getAllowedOrigin = (requestOrigin: string | null): string => {
+  const allowedOrigins = [
+    Deno.env.get("ALLOWED_ORIGIN") || "",
+    "https://lovable.dev",
+    "https://gptengineer.app",
+  ].filter(Boolean);
+
+  // In production, validate against allowed origins list
+  if (requestOrigin && allowedOrigins.some(allowed => requestOrigin.startsWith(allowed.replace(/\/$/, '')))) {
+    return requestOrigin;
+  }
+
+  // Fallback for development - if ALLOWED_ORIGIN not set, use request origin
+  if (!Deno.env.get("ALLOWED_ORIGIN") && requestOrigin) {
+    return requestOrigin;
+  }
+
+  return allowedOrigins[0] || "*";
+};
+
+const getCorsHeaders = (req: Request) => ({
+  "Access-Control-Allow-Origin": getAllowedOrigin(req.headers.get("Origin")),
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Credentials": "true",
+});
+
+// Only fold messages into the summary once enough new ones have piled up
+const MIN_NEW_MESSAGES = 8;
+const MAX_MESSAGES_PER_RUN = 200;
+const MAX_FACTS = 30;
+
+const factCategories = ["name", "goal", "exam", "preference", "background", "other"] as const;
+
+const memorySchema = z.object({
+  title: z.string().min(1).max(80),
+  summary: z.string().min(1).max(4000),
+  facts: z.array(z.object({
+    category: z.enum(factCategories),
+    content: z.string().min(1).max(300),
+  })).max(MAX_FACTS),
+});
+
+const requestSchema = z.object({
+  conversationId: z.string().uuid(),
+});
+
+const memoryShape = `{ "title": string, "summary": string, "facts": [{ "category": "${factCategories.join("|")}", "content": string }] }`;
+
+const memoryInstructions = `You maintain the long-term memory of a supportive AI companion.
+Given the previous summary, the facts already known about the user and the newest messages, respond with a single JSON object:
+${memoryShape}
+
+- "title": a short title for the conversation (at most 6 words, no quotes or trailing punctuation) naming its main topic.
+- "summary": a rolling summary of the whole conversation so far in at most 8 sentences, written in the third person ("The user ..."). Merge the previous summary with the new messages; keep what still matters and drop small talk.
+- "facts": the COMPLETE updated list of durable facts about the user - their name, goals, upcoming exams or interviews with dates, preferences and relevant background. Keep existing facts unless the new messages contradict them, add new ones, and never invent anything. At most ${MAX_FACTS} short facts.`;
+
+serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Log request ID for correlation (no PII)
+    const requestId = crypto.randomUUID().slice(0, 8);
+
+    // Memory is per user, so unlike the chat function this requires a signed-in user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Authentication required" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: authData, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !authData.user) {
+      return new Response(JSON.stringify({ error: "Authentication required" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    const user = authData.user;
+
+    const parsedBody = requestSchema.safeParse(await req.json());
+    if (!parsedBody.success) {
+      return new Response(JSON.stringify({ error: "Invalid conversationId" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    const { conversationId } = parsedBody.data;
+
+    // RLS limits this to the caller's own conversations
+    const { data: conversation, error: conversationError } = await supabaseClient
+      .from("conversations")
+      .select("id, summary, summarized_message_count, title_edited")
+      .eq("id", conversationId)
+      .maybeSingle();
+
+    if (conversationError) throw conversationError;
+    if (!conversation) {
+      return new Response(JSON.stringify({ error: "Conversation not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const alreadySummarized: number = conversation.summarized_message_count ?? 0;
+
+    const { data: newMessages, error: messagesError } = await supabaseClient
+      .from("messages")
+      .select("role, content")
+      .eq("conversation_id", conversationId)
+      .order("created_at", { ascending: true })
+      .range(alreadySummarized, alreadySummarized + MAX_MESSAGES_PER_RUN - 1);
+
+    if (messagesError) throw messagesError;
+
+    if (!newMessages || newMessages.length < MIN_NEW_MESSAGES) {
+      return new Response(JSON.stringify({ updated: false }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: existingFacts, error: factsError } = await supabaseClient
+      .from("user_facts")
+      .select("category, content")
+      .eq("user_id", user.id);
+
+    if (factsError) throw factsError;
+
+    let llm: LLMConfig;
+    try {
+      llm = resolveLLMConfig();
+    } catch (configError) {
+      console.error(`[${requestId}] Configuration error: ${configError instanceof Error ? configError.message : "LLM provider"}`);
+      throw new Error("Service configuration error");
+    }
+
+    console.log(`[${requestId}] Summarizing ${newMessages.length} new messages`);
+
+    const transcript = newMessages
+      .map((m: { role: string; content: string }) => `${m.role === "assistant" ? "Buddy" : "User"}: ${m.content.slice(0, 2000)}`)
+      .join("\n");
+
+    const factsList = (existingFacts || [])
+      .map((f: { category: string; content: string }) => `- [${f.category}] ${f.content}`)
+      .join("\n");
+
+    const result = await completeValidatedJSON(llm, [
+      { role: "system", content: memoryInstructions },
+      {
+        role: "user",
+        content: `Previous summary:\n${conversation.summary || "(none yet)"}\n\nKnown facts:\n${factsList || "(none yet)"}\n\nNew messages:\n${transcript}`,
+      },
+    ], memorySchema, { shape: memoryShape, requestId });
+
+    if (!result.ok) {
+      return new Response(JSON.stringify({ error: result.error, issues: result.issues }), {
+        status: result.status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const memory = result.data;
+
+    const { error: updateError } = await supabaseClient
+      .from("conversations")
+      .update({
+        summary: memory.summary,
+        summarized_message_count: alreadySummarized + newMessages.length,
+        summary_updated_at: new Date().toISOString(),
+        // Titles the user renamed themselves are never overwritten
+        ...(conversation.title_edited ? {} : { title: memory.title }),
+      })
+      .eq("id", conversationId);
+
+    if (updateError) throw updateError;
+
+    // The model returns the complete fact list; the RPC swaps it in atomically and
+    // keeps the original source of facts that did not change
+    const { error: factsUpdateError } = await supabaseClient.rpc("replace_user_facts", {
+      _facts: memory.facts,
+      _source_conversation_id: conversationId,
+    });
+
+    if (factsUpdateError) throw factsUpdateError;
+
+    console.log(`[${requestId}] Memory updated (${memory.facts.length} facts)`);
+
+    return new Response(JSON.stringify({ updated: true, factCount: memory.facts.length }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Summarize conversation function error:", error instanceof Error ? error.message : "Unknown");
+    return new Response(JSON.stringify({ error: "Service temporarily unavailable" }), {
+      status: 500,
+      headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
+    });
+  }
+});
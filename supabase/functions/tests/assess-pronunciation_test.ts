@@ -0,0 +1,21 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { buildAssessmentConfig } from "../assess-pronunciation/assessmentConfig.ts";
+
+const decodeConfig = (header: string) => {
+  const binary = atob(header);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(bytes));
+};
+
+Deno.test("assessment config round-trips non-Latin-1 reference texts as UTF-8", () => {
+  for (const text of ["こんにちは、元気ですか", "안녕하세요", "नमस्ते", "你好吗", "Un cœur d'œuf"]) {
+    assertEquals(decodeConfig(buildAssessmentConfig(text)).ReferenceText, text);
+  }
+});
+
+Deno.test("assessment config encodes German umlauts as UTF-8 bytes", () => {
+  const header = buildAssessmentConfig("Grüße");
+  // "ü" is C3 BC in UTF-8, not the single Latin-1 byte FC
+  assertEquals(atob(header).includes("Ã¼"), true);
+  assertEquals(decodeConfig(header).ReferenceText, "Grüße");
+});
@@ -0,0 +1,29 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { evaluateInBatches, MAX_ANSWERS_PER_EVALUATION } from "../../../src/lib/interviewScoring.ts";
+
+Deno.test("interviews with more than 15 answers are scored in batches the function accepts", async () => {
+  const answers = Array.from({ length: 37 }, (_, i) => ({ question: `Q${i}`, answer: `A${i}` }));
+  const batchSizes: number[] = [];
+
+  const scored = await evaluateInBatches(answers, async (batch) => {
+    batchSizes.push(batch.length);
+    return batch.map((a) => a.question);
+  });
+
+  assertEquals(batchSizes, [15, 15, 7]);
+  assertEquals(batchSizes.every((size) => size <= MAX_ANSWERS_PER_EVALUATION), true);
+  assertEquals(scored, answers.map((a) => a.question));
+});
+
+Deno.test("interviews within the limit are scored in one request", async () => {
+  const answers = Array.from({ length: 15 }, (_, i) => i);
+  let requests = 0;
+
+  const scored = await evaluateInBatches(answers, async (batch) => {
+    requests++;
+    return batch;
+  });
+
+  assertEquals(requests, 1);
+  assertEquals(scored, answers);
+});
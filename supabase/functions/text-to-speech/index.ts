@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { checkRateLimit } from "../_shared/rateLimit.ts";
 
 // Dynamic CORS configuration - restrict origins in production
 const getAllowedOrigin = (requestOrigin: string | null): string => {
@@ -56,6 +57,20 @@ serve(async (req) => {
 
     console.log(`[${requestId}] Processing TTS request (${user ? "authed" : "guest"})`);
 
+    const rateLimit = await checkRateLimit(req, "text-to-speech", user?.id ?? null);
+    if (!rateLimit.allowed) {
+      console.log(`[${requestId}] Rate limited, retry after ${rateLimit.retryAfter}s`);
+      // fallback lets clients keep talking with the browser's own voice meanwhile
+      return new Response(JSON.stringify({
+        error: `Too many speech requests. Please try again in ${rateLimit.retryAfter} seconds.`,
+        retryAfter: rateLimit.retryAfter,
+        fallback: true,
+      }), {
+        status: 429,
+        headers: { ...corsHeaders, ...rateLimit.headers, "Content-Type": "application/json" },
+      });
+    }
+
     const body = await req.json();
     const { text, voiceId = "EXAVITQu4vr4xnSDxMaL" } = body;
 
@@ -134,6 +149,7 @@ serve(async (req) => {
     return new Response(response.body, {
       headers: {
         ...corsHeaders,
+        ...rateLimit.headers,
         "Content-Type": "audio/mpeg",
         "Transfer-Encoding": "chunked",
       },
@@ -0,0 +1,30 @@
+-- Create IELTS attempts table to keep band history per module
+CREATE TABLE public.ielts_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  module TEXT NOT NULL CHECK (module IN ('listening', 'reading', 'writing', 'speaking')),
+  test_mode TEXT NOT NULL,
+  question_type TEXT,
+  answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  correct_count INTEGER,
+  total_questions INTEGER,
+  time_used_seconds INTEGER NOT NULL DEFAULT 0,
+  band_score NUMERIC(2,1) CHECK (band_score >= 0 AND band_score <= 9),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Index for per-user, per-module history lookups
+CREATE INDEX idx_ielts_attempts_user_module ON public.ielts_attempts(user_id, module, created_at);
+
+-- Enable RLS
+ALTER TABLE public.ielts_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own attempts
+CREATE POLICY "Users can view own IELTS attempts" ON public.ielts_attempts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own IELTS attempts" ON public.ielts_attempts
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL AND auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own IELTS attempts" ON public.ielts_attempts
+  FOR DELETE USING (auth.uid() = user_id);
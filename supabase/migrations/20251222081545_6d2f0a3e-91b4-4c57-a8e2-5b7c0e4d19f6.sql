@@ -0,0 +1,44 @@
+-- Create vocabulary cards table for spaced-repetition review of missed lesson items
+CREATE TABLE public.vocabulary_cards (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  language TEXT NOT NULL,
+  activity_type TEXT NOT NULL CHECK (activity_type IN ('fill_blank', 'choose_option', 'translate')),
+  instruction TEXT NOT NULL,
+  content TEXT NOT NULL,
+  options JSONB,
+  correct_answer TEXT NOT NULL,
+  ease_factor NUMERIC(4,2) NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, language, content)
+);
+
+-- Index for due-card lookups per language
+CREATE INDEX idx_vocabulary_cards_user_due ON public.vocabulary_cards(user_id, language, due_at);
+
+-- Enable RLS
+ALTER TABLE public.vocabulary_cards ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own deck
+CREATE POLICY "Users can view own vocabulary cards" ON public.vocabulary_cards
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own vocabulary cards" ON public.vocabulary_cards
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL AND auth.uid() = user_id);
+
+CREATE POLICY "Users can update own vocabulary cards" ON public.vocabulary_cards
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own vocabulary cards" ON public.vocabulary_cards
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_vocabulary_cards_updated_at
+BEFORE UPDATE ON public.vocabulary_cards
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
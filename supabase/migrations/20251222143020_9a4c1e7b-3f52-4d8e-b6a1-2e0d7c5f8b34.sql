@@ -0,0 +1,60 @@
+-- Create learning activity table holding XP earned per user, day and language
+CREATE TABLE public.learning_activity (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  activity_date DATE NOT NULL,
+  language TEXT NOT NULL,
+  xp INTEGER NOT NULL DEFAULT 0 CHECK (xp >= 0),
+  activities_completed INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, activity_date, language)
+);
+
+-- Index for streak lookups
+CREATE INDEX idx_learning_activity_user_date ON public.learning_activity(user_id, activity_date DESC);
+
+-- Enable RLS
+ALTER TABLE public.learning_activity ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own activity
+CREATE POLICY "Users can view own learning activity" ON public.learning_activity
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own learning activity" ON public.learning_activity
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL AND auth.uid() = user_id);
+
+CREATE POLICY "Users can update own learning activity" ON public.learning_activity
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_learning_activity_updated_at
+  BEFORE UPDATE ON public.learning_activity
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Adds XP to the caller's row for the given local day, creating it if needed.
+-- The date comes from the client so streaks follow the user's own timezone.
+CREATE OR REPLACE FUNCTION public.record_learning_activity(_activity_date DATE, _language TEXT, _xp INTEGER)
+RETURNS public.learning_activity AS $$
+DECLARE
+  result public.learning_activity;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.learning_activity (user_id, activity_date, language, xp, activities_completed)
+  VALUES (auth.uid(), _activity_date, _language, GREATEST(_xp, 0), 1)
+  ON CONFLICT (user_id, activity_date, language) DO UPDATE
+    SET xp = public.learning_activity.xp + GREATEST(EXCLUDED.xp, 0),
+        activities_completed = public.learning_activity.activities_completed + 1
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- Hearts and timezone live on the profile so they follow the user across devices
+ALTER TABLE public.profiles
+  ADD COLUMN timezone TEXT,
+  ADD COLUMN hearts INTEGER NOT NULL DEFAULT 5 CHECK (hearts >= 0),
+  ADD COLUMN hearts_updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
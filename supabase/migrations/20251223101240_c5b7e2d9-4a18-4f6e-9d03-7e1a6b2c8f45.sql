@@ -0,0 +1,4 @@
+-- Store placement test results per target language on the profile,
+-- e.g. { "german": { "level": "B1", "testedAt": "..." } }
+ALTER TABLE public.profiles
+  ADD COLUMN cefr_levels JSONB NOT NULL DEFAULT '{}'::jsonb;
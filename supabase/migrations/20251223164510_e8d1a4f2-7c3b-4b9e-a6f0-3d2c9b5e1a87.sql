@@ -0,0 +1,39 @@
+-- Rolling summary of each conversation, refreshed by the summarize-conversation function
+ALTER TABLE public.conversations
+  ADD COLUMN summary TEXT,
+  ADD COLUMN summarized_message_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN summary_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Create user facts table for long-term memory extracted from conversations
+CREATE TABLE public.user_facts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('name', 'goal', 'exam', 'preference', 'background', 'other')),
+  content TEXT NOT NULL,
+  source_conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Index for per-user lookups
+CREATE INDEX idx_user_facts_user ON public.user_facts(user_id, category);
+
+-- Enable RLS
+ALTER TABLE public.user_facts ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own facts
+CREATE POLICY "Users can view own facts" ON public.user_facts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own facts" ON public.user_facts
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL AND auth.uid() = user_id);
+
+CREATE POLICY "Users can update own facts" ON public.user_facts
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own facts" ON public.user_facts
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_facts_updated_at
+  BEFORE UPDATE ON public.user_facts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
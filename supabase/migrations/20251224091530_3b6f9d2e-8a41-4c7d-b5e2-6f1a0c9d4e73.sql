@@ -0,0 +1,33 @@
+-- Titles, pinning and mode for the conversation history panel
+ALTER TABLE public.conversations
+  ADD COLUMN title TEXT CHECK (char_length(title) <= 120),
+  ADD COLUMN title_edited BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN pinned BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN mode TEXT;
+
+CREATE INDEX idx_conversations_user_pinned ON public.conversations(user_id, pinned DESC, updated_at DESC);
+
+-- Full-text index over message content. The 'simple' configuration skips
+-- stemming so German and other practice languages match as well as English.
+CREATE INDEX idx_messages_content_search ON public.messages
+  USING GIN (to_tsvector('simple', content));
+
+-- Returns the caller's conversations whose messages match the query, best match
+-- first, with a highlighted snippet from the best matching message.
+-- Runs as the caller so the messages RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.search_conversations(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (conversation_id UUID, snippet TEXT, rank REAL) AS $$
+  SELECT best.conversation_id, best.snippet, best.rank
+  FROM (
+    SELECT DISTINCT ON (m.conversation_id)
+      m.conversation_id,
+      ts_headline('simple', m.content, q, 'StartSel=<mark>, StopSel=</mark>, MaxWords=18, MinWords=6') AS snippet,
+      ts_rank(to_tsvector('simple', m.content), q) AS rank
+    FROM public.messages m
+    CROSS JOIN websearch_to_tsquery('simple', _query) AS q
+    WHERE to_tsvector('simple', m.content) @@ q
+    ORDER BY m.conversation_id, rank DESC
+  ) AS best
+  ORDER BY best.rank DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 50);
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,12 @@
+-- Record the mode each message was sent in, so switching modes mid-conversation
+-- is preserved; conversations.mode holds the mode the conversation is currently in
+ALTER TABLE public.messages
+  ADD COLUMN mode TEXT;
+
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_mode_check
+  CHECK (mode IN ('friend', 'interviewer', 'mentor', 'studybuddy', 'therapist', 'language'));
+
+ALTER TABLE public.conversations
+  ADD CONSTRAINT conversations_mode_check
+  CHECK (mode IN ('friend', 'interviewer', 'mentor', 'studybuddy', 'therapist', 'language'));
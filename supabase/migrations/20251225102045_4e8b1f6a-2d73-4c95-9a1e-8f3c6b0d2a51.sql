@@ -0,0 +1,28 @@
+-- Imported guest progress brings its own activity count, so the RPC takes an
+-- optional count alongside the XP (regular calls still count one activity)
+DROP FUNCTION IF EXISTS public.record_learning_activity(DATE, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.record_learning_activity(
+  _activity_date DATE,
+  _language TEXT,
+  _xp INTEGER,
+  _activities_completed INTEGER DEFAULT 1
+)
+RETURNS public.learning_activity AS $$
+DECLARE
+  result public.learning_activity;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.learning_activity (user_id, activity_date, language, xp, activities_completed)
+  VALUES (auth.uid(), _activity_date, _language, GREATEST(_xp, 0), GREATEST(_activities_completed, 1))
+  ON CONFLICT (user_id, activity_date, language) DO UPDATE
+    SET xp = public.learning_activity.xp + EXCLUDED.xp,
+        activities_completed = public.learning_activity.activities_completed + EXCLUDED.activities_completed
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,93 @@
+-- Create rate limit counters table
+-- One row per subject, function and fixed window. Subjects are "user:<uuid>" for
+-- signed-in users and "guest:<sha256>" of the caller's IP or session for guests.
+CREATE TABLE public.rate_limit_counters (
+  subject TEXT NOT NULL,
+  function_name TEXT NOT NULL,
+  window_kind TEXT NOT NULL CHECK (window_kind IN ('minute', 'day')),
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (subject, function_name, window_kind, window_start)
+);
+
+CREATE INDEX idx_rate_limit_counters_window_start ON public.rate_limit_counters(window_start);
+
+-- Enable RLS without policies: only the edge functions (service role) touch counters
+ALTER TABLE public.rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+-- Counts one request against both windows and reports what is left.
+-- A request refused by either window does not use up quota in the other.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+  _subject TEXT,
+  _function_name TEXT,
+  _minute_limit INTEGER,
+  _day_limit INTEGER
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  minute_remaining INTEGER,
+  day_remaining INTEGER,
+  minute_reset TIMESTAMP WITH TIME ZONE,
+  day_reset TIMESTAMP WITH TIME ZONE
+) AS $$
+DECLARE
+  _minute_start TIMESTAMP WITH TIME ZONE := date_trunc('minute', now());
+  _day_start TIMESTAMP WITH TIME ZONE := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  _minute_count INTEGER;
+  _day_count INTEGER;
+BEGIN
+  INSERT INTO public.rate_limit_counters AS c (subject, function_name, window_kind, window_start, request_count)
+  VALUES (_subject, _function_name, 'day', _day_start, 1)
+  ON CONFLICT (subject, function_name, window_kind, window_start) DO UPDATE
+    SET request_count = c.request_count + 1
+    WHERE c.request_count < _day_limit
+  RETURNING c.request_count INTO _day_count;
+
+  IF _day_count IS NOT NULL THEN
+    INSERT INTO public.rate_limit_counters AS c (subject, function_name, window_kind, window_start, request_count)
+    VALUES (_subject, _function_name, 'minute', _minute_start, 1)
+    ON CONFLICT (subject, function_name, window_kind, window_start) DO UPDATE
+      SET request_count = c.request_count + 1
+      WHERE c.request_count < _minute_limit
+    RETURNING c.request_count INTO _minute_count;
+
+    -- Refused by the minute window: hand the day quota back
+    IF _minute_count IS NULL THEN
+      UPDATE public.rate_limit_counters
+      SET request_count = request_count - 1
+      WHERE subject = _subject AND function_name = _function_name
+        AND window_kind = 'day' AND window_start = _day_start;
+    END IF;
+  END IF;
+
+  -- Refused requests report the counts that stopped them
+  IF _day_count IS NULL OR _minute_count IS NULL THEN
+    SELECT COALESCE(MAX(request_count) FILTER (WHERE window_kind = 'day'), 0),
+           COALESCE(MAX(request_count) FILTER (WHERE window_kind = 'minute'), 0)
+    INTO _day_count, _minute_count
+    FROM public.rate_limit_counters
+    WHERE subject = _subject AND function_name = _function_name
+      AND ((window_kind = 'day' AND window_start = _day_start)
+        OR (window_kind = 'minute' AND window_start = _minute_start));
+
+    allowed := false;
+  ELSE
+    allowed := true;
+  END IF;
+
+  minute_remaining := GREATEST(_minute_limit - _minute_count, 0);
+  day_remaining := GREATEST(_day_limit - _day_count, 0);
+  minute_reset := _minute_start + interval '1 minute';
+  day_reset := _day_start + interval '1 day';
+
+  -- Occasionally clear out windows that have long expired
+  IF random() < 0.01 THEN
+    DELETE FROM public.rate_limit_counters WHERE window_start < now() - interval '2 days';
+  END IF;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.consume_rate_limit(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, TEXT, INTEGER, INTEGER) TO service_role;
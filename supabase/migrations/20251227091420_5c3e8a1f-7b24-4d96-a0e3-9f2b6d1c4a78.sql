@@ -0,0 +1,38 @@
+-- Keep one row per fact so the summarizer can upsert instead of deleting everything first
+DELETE FROM public.user_facts a
+USING public.user_facts b
+WHERE a.user_id = b.user_id
+  AND a.category = b.category
+  AND a.content = b.content
+  AND (a.created_at, a.id) > (b.created_at, b.id);
+
+CREATE UNIQUE INDEX idx_user_facts_unique_content ON public.user_facts(user_id, category, content);
+
+-- Replaces the caller's facts with the given list in one transaction. Facts that
+-- are still present keep their row and original source; only dropped facts are
+-- deleted, so a failure part way through never leaves the user without memory.
+CREATE OR REPLACE FUNCTION public.replace_user_facts(_facts JSONB, _source_conversation_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  fact_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM public.user_facts f
+  WHERE f.user_id = auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_to_recordset(_facts) AS n(category TEXT, content TEXT)
+      WHERE n.category = f.category AND n.content = f.content
+    );
+
+  INSERT INTO public.user_facts (user_id, category, content, source_conversation_id)
+  SELECT DISTINCT auth.uid(), n.category, n.content, _source_conversation_id
+  FROM jsonb_to_recordset(_facts) AS n(category TEXT, content TEXT)
+  ON CONFLICT (user_id, category, content) DO NOTHING;
+
+  SELECT count(*) INTO fact_count FROM public.user_facts WHERE user_id = auth.uid();
+  RETURN fact_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,95 @@
+-- Learning activity is only written through the RPCs below, so clients can no
+-- longer pick the day or the amount of XP themselves. The RPCs run as definer
+-- because the table no longer has write policies.
+DROP POLICY IF EXISTS "Users can create own learning activity" ON public.learning_activity;
+DROP POLICY IF EXISTS "Users can update own learning activity" ON public.learning_activity;
+
+-- Today's date in the caller's stored timezone, falling back to UTC when the
+-- profile has none or it isn't a timezone Postgres knows
+CREATE OR REPLACE FUNCTION public.learning_activity_today()
+RETURNS DATE AS $$
+DECLARE
+  tz TEXT;
+BEGIN
+  SELECT timezone INTO tz FROM public.profiles WHERE user_id = auth.uid();
+
+  IF tz IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz) THEN
+    tz := 'UTC';
+  END IF;
+
+  RETURN (now() AT TIME ZONE tz)::date;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER SET search_path = public;
+
+-- Adds XP for one completed activity to the caller's row for today. The day is
+-- worked out on the server and a single activity is worth at most 50 XP.
+DROP FUNCTION IF EXISTS public.record_learning_activity(DATE, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.record_learning_activity(_language TEXT, _xp INTEGER)
+RETURNS public.learning_activity AS $$
+DECLARE
+  result public.learning_activity;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.learning_activity (user_id, activity_date, language, xp, activities_completed)
+  VALUES (auth.uid(), public.learning_activity_today(), _language, LEAST(GREATEST(_xp, 0), 50), 1)
+  ON CONFLICT (user_id, activity_date, language) DO UPDATE
+    SET xp = public.learning_activity.xp + EXCLUDED.xp,
+        activities_completed = public.learning_activity.activities_completed + 1
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_learning_activity(TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_learning_activity(TEXT, INTEGER) TO authenticated;
+
+-- Imports a day of guest progress. Days outside the past year up to today are
+-- skipped (returning NULL), and an imported day never brings the total for that
+-- day above 1000 XP or 100 activities, so repeating an import can't inflate it.
+CREATE OR REPLACE FUNCTION public.import_learning_activity(
+  _activity_date DATE,
+  _language TEXT,
+  _xp INTEGER,
+  _activities_completed INTEGER
+)
+RETURNS public.learning_activity AS $$
+DECLARE
+  today DATE;
+  result public.learning_activity;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  today := public.learning_activity_today();
+  IF _activity_date > today OR _activity_date < today - 365 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.learning_activity (user_id, activity_date, language, xp, activities_completed)
+  VALUES (
+    auth.uid(),
+    _activity_date,
+    _language,
+    LEAST(GREATEST(_xp, 0), 1000),
+    LEAST(GREATEST(_activities_completed, 1), 100)
+  )
+  ON CONFLICT (user_id, activity_date, language) DO UPDATE
+    SET xp = GREATEST(public.learning_activity.xp, LEAST(public.learning_activity.xp + EXCLUDED.xp, 1000)),
+        activities_completed = GREATEST(
+          public.learning_activity.activities_completed,
+          LEAST(public.learning_activity.activities_completed + EXCLUDED.activities_completed, 100)
+        )
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.import_learning_activity(DATE, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_learning_activity(DATE, TEXT, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,10 @@
+-- The reading test format (Academic or General Training) gets its own column
+-- instead of riding along in the answers
+ALTER TABLE public.ielts_attempts
+  ADD COLUMN format TEXT CHECK (format IN ('academic', 'general'));
+
+-- Move the format out of answers for attempts saved before the column existed
+UPDATE public.ielts_attempts
+SET format = CASE WHEN answers->>'format' IN ('academic', 'general') THEN answers->>'format' END,
+    answers = answers - 'format'
+WHERE answers ? 'format';
@@ -0,0 +1,76 @@
+-- Guest progress can be imported into an account once. The marker lives in its
+-- own table without write policies, so only the import RPC can set it.
+CREATE TABLE public.learning_activity_imports (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  imported_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.learning_activity_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own learning activity import" ON public.learning_activity_imports
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- The per-day import is replaced by one call carrying every guest day
+DROP FUNCTION IF EXISTS public.import_learning_activity(DATE, TEXT, INTEGER, INTEGER);
+
+-- Imports the guest days ([{date, language, xp, activitiesCompleted}]) and
+-- returns how many were recorded. Only the first call per user imports
+-- anything; later calls return 0. Days outside the past year up to today are
+-- skipped and each imported day is held to the same 50 XP a single activity
+-- can earn through record_learning_activity.
+CREATE OR REPLACE FUNCTION public.import_learning_activity(_days JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  today DATE;
+  imported INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(_days) IS DISTINCT FROM 'array' OR jsonb_array_length(_days) > 1000 THEN
+    RAISE EXCEPTION 'Invalid activity days';
+  END IF;
+
+  INSERT INTO public.learning_activity_imports (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  today := public.learning_activity_today();
+
+  -- Entries that don't look like a guest day are dropped rather than failing the import
+  WITH days AS (
+    SELECT
+      (day->>'date')::date AS activity_date,
+      day->>'language' AS language,
+      SUM(GREATEST(COALESCE((day->>'xp')::integer, 0), 0)) AS xp,
+      SUM(GREATEST(COALESCE((day->>'activitiesCompleted')::integer, 1), 1)) AS activities_completed
+    FROM jsonb_array_elements(_days) AS day
+    WHERE day->>'date' ~ '^\d{4}-\d{2}-\d{2}$'
+      AND day->>'xp' ~ '^\d{1,9}$'
+      AND COALESCE(day->>'activitiesCompleted', '1') ~ '^\d{1,9}$'
+      AND length(day->>'language') BETWEEN 1 AND 50
+    GROUP BY 1, 2
+  )
+  INSERT INTO public.learning_activity (user_id, activity_date, language, xp, activities_completed)
+  SELECT auth.uid(), activity_date, language, LEAST(xp, 50), LEAST(activities_completed, 10)
+  FROM days
+  WHERE activity_date BETWEEN today - 365 AND today
+  ON CONFLICT (user_id, activity_date, language) DO UPDATE
+    SET xp = GREATEST(public.learning_activity.xp, LEAST(public.learning_activity.xp + EXCLUDED.xp, 50)),
+        activities_completed = GREATEST(
+          public.learning_activity.activities_completed,
+          LEAST(public.learning_activity.activities_completed + EXCLUDED.activities_completed, 10)
+        );
+
+  GET DIAGNOSTICS imported = ROW_COUNT;
+  RETURN imported;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.import_learning_activity(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_learning_activity(JSONB) TO authenticated;
@@ -16,4 +16,8 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  // The coding round worker lazy-loads its transpiler, which needs ES module workers
+  worker: {
+    format: "es",
+  },
 }));